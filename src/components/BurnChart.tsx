@@ -0,0 +1,138 @@
+import React from 'react';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Area, CartesianGrid, ComposedChart, Legend, Line, ReferenceLine, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+import { BurnChartData } from '@/types/budget';
+import { CHART_COLORS, formatAxisValue } from '@/util/chartLayout';
+
+interface BurnChartProps {
+  mode: 'burnDown' | 'burnUp';
+  burnChartData: BurnChartData[];
+  budgetSize: number;
+  totalScope?: number;
+  currency: string;
+  getChartLabel: (name: string) => string;
+}
+
+const SCOPE_COLOR = '#10b981';
+const IDEAL_COLOR = '#6b7280';
+
+// Burn-down: budget left per iteration against an even spend of the budget.
+// Burn-up: consumed budget against the total budget, and completed scope
+// against the total scope when there is one.
+export default function BurnChart({ mode, burnChartData, budgetSize, totalScope, currency, getChartLabel }: BurnChartProps) {
+  const showScope = mode === 'burnUp' && (totalScope ?? 0) > 0;
+
+  return (
+    <ChartContainer
+      config={{
+        idealRemaining: { label: 'Ideal Burn-down', color: IDEAL_COLOR },
+        remaining: { label: 'Remaining Budget', color: CHART_COLORS.cumulativeActual },
+        remainingForecast: { label: 'Forecast', color: CHART_COLORS.cumulativeForecast },
+        consumed: { label: 'Consumed Budget', color: CHART_COLORS.cumulativeActual },
+        consumedForecast: { label: 'Forecast', color: CHART_COLORS.cumulativeForecast },
+        completedScope: { label: 'Completed Scope', color: SCOPE_COLOR }
+      }}
+      className="min-h-[500px]"
+    >
+      <ResponsiveContainer width="100%" height="100%" minHeight={500}>
+        <ComposedChart data={burnChartData} margin={{ top: 10, right: 30, left: 0, bottom: 70 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="name"
+            angle={-45}
+            textAnchor="end"
+            height={80}
+            interval={burnChartData.length > 20 ? Math.floor(burnChartData.length / 20) : 0}
+            tick={{ fontSize: 10 }}
+            tickFormatter={getChartLabel}
+          />
+          {/* The remaining budget goes below zero once the budget is overspent */}
+          <YAxis
+            yAxisId="cost"
+            domain={[(dataMin: number) => Math.min(0, dataMin), 'auto']}
+            label={{
+              value: `${mode === 'burnDown' ? 'Remaining Budget' : 'Consumed Budget'} (${currency})`,
+              angle: -90,
+              position: 'insideLeft'
+            }}
+            tickFormatter={formatAxisValue}
+          />
+          {showScope && (
+            <YAxis
+              yAxisId="scope"
+              orientation="right"
+              domain={[0, 'auto']}
+              label={{ value: 'Scope', angle: -90, position: 'insideRight' }}
+              tickFormatter={formatAxisValue}
+            />
+          )}
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(label) => getChartLabel(String(label))} />} />
+          {mode === 'burnDown' ? (
+            <ReferenceLine yAxisId="cost" y={0} stroke={CHART_COLORS.budget} strokeDasharray="5 5" />
+          ) : (
+            <ReferenceLine
+              yAxisId="cost"
+              y={budgetSize}
+              stroke={CHART_COLORS.budget}
+              strokeDasharray="5 5"
+              label={{ value: 'Total Budget', position: 'insideTopRight', fill: CHART_COLORS.budget, fontSize: 12 }}
+            />
+          )}
+          {showScope && (
+            <ReferenceLine
+              yAxisId="scope"
+              y={totalScope}
+              stroke={SCOPE_COLOR}
+              strokeDasharray="5 5"
+              label={{ value: 'Total Scope', position: 'insideBottomRight', fill: SCOPE_COLOR, fontSize: 12 }}
+            />
+          )}
+          {mode === 'burnDown' && (
+            <Line
+              yAxisId="cost"
+              type="linear"
+              dataKey="idealRemaining"
+              stroke={IDEAL_COLOR}
+              strokeWidth={2}
+              strokeDasharray="3 3"
+              dot={false}
+              name="Ideal Burn-down"
+            />
+          )}
+          <Area
+            yAxisId="cost"
+            type="monotone"
+            dataKey={mode === 'burnDown' ? 'remaining' : 'consumed'}
+            stroke={CHART_COLORS.cumulativeActual}
+            fill={CHART_COLORS.cumulativeActual}
+            fillOpacity={0.1}
+            strokeWidth={2}
+            name={mode === 'burnDown' ? 'Remaining Budget' : 'Consumed Budget'}
+          />
+          <Line
+            yAxisId="cost"
+            type="monotone"
+            dataKey={mode === 'burnDown' ? 'remainingForecast' : 'consumedForecast'}
+            stroke={CHART_COLORS.cumulativeForecast}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            dot={false}
+            name="Forecast"
+          />
+          {showScope && (
+            <Line
+              yAxisId="scope"
+              type="monotone"
+              dataKey="completedScope"
+              stroke={SCOPE_COLOR}
+              strokeWidth={2}
+              dot={false}
+              name="Completed Scope"
+            />
+          )}
+          <Legend />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BudgetParams, ColumnMapping, ImportMode, ImportTarget, IterationData } from '@/types/budget';
+import {
+  IMPORT_FIELDS,
+  detectImportTarget,
+  getUnmappedRequiredFields,
+  guessColumnMapping,
+  importIterations,
+  importParameters
+} from '@/util/csvImport';
+
+export interface CsvImportFile {
+  fileName: string;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+interface CsvImportDialogProps {
+  file: CsvImportFile | null;
+  onOpenChange: (open: boolean) => void;
+  budgetParams: BudgetParams;
+  iterations: IterationData[];
+  onApplyIterations: (iterations: IterationData[], importedCount: number) => void;
+  onApplyParameters: (budgetParams: BudgetParams) => void;
+}
+
+const NOT_MAPPED = '__none__';
+const MAX_PREVIEW_ROWS = 5;
+
+export default function CsvImportDialog({
+  file,
+  onOpenChange,
+  budgetParams,
+  iterations,
+  onApplyIterations,
+  onApplyParameters
+}: CsvImportDialogProps) {
+  const [target, setTarget] = useState<ImportTarget>('iterations');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [mode, setMode] = useState<ImportMode>('replace');
+
+  // Guess what the file holds and how its columns map whenever a file is picked
+  useEffect(() => {
+    if (!file) return;
+    const detectedTarget = detectImportTarget(file.headers);
+    setTarget(detectedTarget);
+    setMapping(guessColumnMapping(file.headers, IMPORT_FIELDS[detectedTarget]));
+    setMode('replace');
+  }, [file]);
+
+  const handleTargetChange = (value: ImportTarget) => {
+    setTarget(value);
+    setMapping(guessColumnMapping(file?.headers ?? [], IMPORT_FIELDS[value]));
+  };
+
+  const fields = IMPORT_FIELDS[target];
+  const unmappedRequired = getUnmappedRequiredFields(fields, mapping, mode);
+  const rows = file?.rows ?? [];
+
+  const iterationResult = target === 'iterations' && unmappedRequired.length === 0
+    ? importIterations(rows, mapping, iterations, mode)
+    : null;
+  const parameterResult = target === 'parameters' && unmappedRequired.length === 0
+    ? importParameters(rows, mapping, budgetParams, mode)
+    : null;
+  const rejected = iterationResult?.rejected ?? parameterResult?.rejected ?? [];
+  const canApply = iterationResult ? iterationResult.importedCount > 0 : !!parameterResult?.budgetParams;
+
+  const handleApply = () => {
+    if (iterationResult) {
+      onApplyIterations(iterationResult.iterations, iterationResult.importedCount);
+    } else if (parameterResult?.budgetParams) {
+      onApplyParameters(parameterResult.budgetParams);
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import {file?.fileName}</DialogTitle>
+          <DialogDescription>
+            Match the columns of the file to the fields they hold, check the rows that can't be imported, and choose how to apply the rest.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-target">The file holds</Label>
+              <Select value={target} onValueChange={(value) => handleTargetChange(value as ImportTarget)}>
+                <SelectTrigger id="import-target">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="iterations">Iterations</SelectItem>
+                  <SelectItem value="parameters">Budget parameters</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Apply by</Label>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="pt-2">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="replace" id="import-replace" />
+                  <Label htmlFor="import-replace" className="font-normal">
+                    {target === 'iterations' ? 'Replacing all iterations' : 'Replacing the parameters'}
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="merge" id="import-merge" />
+                  <Label htmlFor="import-merge" className="font-normal">
+                    {target === 'iterations'
+                      ? 'Merging: update iterations with the same number, keep the others'
+                      : 'Merging: keep current values for empty or unmapped fields'}
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-lg font-medium">Columns</h3>
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Column in file</TableHead>
+                    <TableHead>First value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {fields.map(field => {
+                    const header = mapping[field.key];
+                    return (
+                      <TableRow key={field.key}>
+                        <TableCell className="font-medium">
+                          {field.label}
+                          {field.required && <span className="text-red-600"> *</span>}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={header ?? NOT_MAPPED}
+                            onValueChange={(value) => setMapping(prev => ({ ...prev, [field.key]: value === NOT_MAPPED ? null : value }))}
+                          >
+                            <SelectTrigger className="h-8 min-w-[180px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                              {file?.headers.map(h => (
+                                <SelectItem key={h} value={h}>{h}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {header ? rows[0]?.[header] || '–' : '–'}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          {unmappedRequired.length > 0 ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                Map a column to {unmappedRequired.map(field => field.label).join(', ')} to import.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {iterationResult && (
+                  <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">
+                    {iterationResult.importedCount} of {rows.length} rows imported, {iterationResult.iterations.length} iterations after import
+                  </Badge>
+                )}
+                {parameterResult?.budgetParams && (
+                  <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">Parameters row imported</Badge>
+                )}
+                {rejected.length > 0 && (
+                  <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">
+                    {rejected.length} {rejected.length === 1 ? 'row' : 'rows'} rejected
+                  </Badge>
+                )}
+              </div>
+
+              {iterationResult && iterationResult.importedCount > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-lg font-medium">Preview</h3>
+                  <div className="border rounded-md overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Iteration #</TableHead>
+                          <TableHead>Days</TableHead>
+                          <TableHead>Team Size</TableHead>
+                          <TableHead>Planned Hours</TableHead>
+                          <TableHead>Actual Hours</TableHead>
+                          <TableHead>Current</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {iterationResult.iterations.slice(0, MAX_PREVIEW_ROWS).map(iteration => (
+                          <TableRow key={iteration.iterationNumber}>
+                            <TableCell>{iteration.iterationNumber}</TableCell>
+                            <TableCell>{iteration.iterationDays}</TableCell>
+                            <TableCell>{iteration.teamSize}</TableCell>
+                            <TableCell>{iteration.plannedHours ?? iteration.totalHours}</TableCell>
+                            <TableCell>{iteration.actualHours ?? '–'}</TableCell>
+                            <TableCell>{iteration.isCurrent ? 'Yes' : ''}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  {iterationResult.iterations.length > MAX_PREVIEW_ROWS && (
+                    <p className="text-sm text-muted-foreground">
+                      and {iterationResult.iterations.length - MAX_PREVIEW_ROWS} more iterations
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {rejected.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-lg font-medium">Rejected Rows</h3>
+                  <div className="border rounded-md max-h-[240px] overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-[80px]">Row</TableHead>
+                          <TableHead>Reason</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rejected.map(row => (
+                          <TableRow key={row.rowNumber}>
+                            <TableCell>{row.rowNumber}</TableCell>
+                            <TableCell className="text-sm">
+                              {row.reasons.map(reason => (
+                                <div key={reason}>{reason}</div>
+                              ))}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!canApply}>
+            {mode === 'merge' ? 'Merge' : 'Replace'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,123 @@
+import React from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+import { EarnedValueData, EVMMetrics } from '@/types/budget';
+
+interface EarnedValuePanelProps {
+  earnedValueData: EarnedValueData[];
+  evm: EVMMetrics;
+  currency: string;
+  getChartLabel: (name: string) => string;
+}
+
+const formatAxisValue = (value: number) => {
+  if (value >= 1000000) {
+    return `${(value / 1000000).toFixed(1)}M`;
+  } else if (value >= 1000) {
+    return `${(value / 1000).toFixed(1)}K`;
+  }
+  return value.toString();
+};
+
+export default function EarnedValuePanel({ earnedValueData, evm, currency, getChartLabel }: EarnedValuePanelProps) {
+  const formatCost = (value?: number) => {
+    if (value === undefined) return '–';
+    return `${value < 0 ? '-' : ''}${currency}${Math.round(Math.abs(value)).toLocaleString()}`;
+  };
+  const formatIndex = (value?: number) => (value === undefined ? '–' : value.toFixed(2));
+
+  // Indices below 1 and negative variances mean over budget or behind schedule
+  const indexColor = (value?: number) =>
+    value === undefined ? '' : value < 1 ? 'text-red-600' : 'text-green-600';
+  const varianceColor = (value?: number) =>
+    value === undefined || value === 0 ? '' : value < 0 ? 'text-red-600' : 'text-green-600';
+
+  const metricCards = [
+    { label: 'Planned Value (PV)', value: formatCost(evm.plannedValue), note: `${evm.percentComplete.toFixed(1)}% complete` },
+    { label: 'Earned Value (EV)', value: formatCost(evm.earnedValue), note: `SV ${formatCost(evm.scheduleVariance)}`, className: varianceColor(evm.scheduleVariance) },
+    { label: 'Actual Cost (AC)', value: formatCost(evm.actualCost), note: `CV ${formatCost(evm.costVariance)}`, className: varianceColor(evm.costVariance) },
+    { label: 'CPI', value: formatIndex(evm.costPerformanceIndex), note: 'EV / AC', className: indexColor(evm.costPerformanceIndex) },
+    { label: 'SPI', value: formatIndex(evm.schedulePerformanceIndex), note: 'EV / PV', className: indexColor(evm.schedulePerformanceIndex) },
+    { label: 'Estimate at Completion (EAC)', value: formatCost(evm.estimateAtCompletion), note: 'BAC / CPI' },
+    { label: 'Estimate to Complete (ETC)', value: formatCost(evm.estimateToComplete), note: 'EAC - AC' },
+    { label: 'Variance at Completion (VAC)', value: formatCost(evm.varianceAtCompletion), note: 'BAC - EAC', className: varianceColor(evm.varianceAtCompletion) }
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Earned Value</CardTitle>
+        <CardDescription>
+          Compares the value of the work completed with the planned schedule and the actual cost, using the total budget as the budget at completion (BAC).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {evm.hasProgress ? (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              {metricCards.map(metric => (
+                <Card key={metric.label}>
+                  <CardContent className="pt-6">
+                    <div className="text-center">
+                      <p className="text-sm font-medium text-muted-foreground">{metric.label}</p>
+                      <h3 className={`text-2xl font-bold ${metric.className ?? ''}`}>{metric.value}</h3>
+                      <p className="text-xs text-muted-foreground mt-1">({metric.note})</p>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <ChartContainer
+              config={{
+                plannedValue: { label: 'Planned Value', color: '#0891b2' },
+                earnedValue: { label: 'Earned Value', color: '#10b981' },
+                actualCost: { label: 'Actual Cost', color: '#f59e0b' }
+              }}
+              className="min-h-[400px] w-full"
+            >
+              <ResponsiveContainer width="100%" height="100%" minHeight={400}>
+                <LineChart data={earnedValueData} margin={{ top: 10, right: 30, left: 0, bottom: 70 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="name"
+                    angle={-45}
+                    textAnchor="end"
+                    height={80}
+                    interval={earnedValueData.length > 20 ? Math.floor(earnedValueData.length / 20) : 0}
+                    tick={{ fontSize: 10 }}
+                    tickFormatter={getChartLabel}
+                  />
+                  <YAxis
+                    domain={[0, 'auto']}
+                    label={{ value: `Cost (${currency})`, angle: -90, position: 'insideLeft' }}
+                    tickFormatter={formatAxisValue}
+                  />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(label) => getChartLabel(String(label))} />} />
+                  <ReferenceLine
+                    y={evm.budgetAtCompletion}
+                    stroke="red"
+                    strokeDasharray="5 5"
+                    label={{ value: 'BAC', position: 'insideTopRight', fill: 'red', fontSize: 12 }}
+                  />
+                  <Line type="monotone" dataKey="plannedValue" stroke="#0891b2" strokeWidth={2} dot={false} name="Planned Value" />
+                  <Line type="monotone" dataKey="earnedValue" stroke="#10b981" strokeWidth={2} dot={false} name="Earned Value" />
+                  <Line type="monotone" dataKey="actualCost" stroke="#f59e0b" strokeWidth={2} dot={false} name="Actual Cost" />
+                  <Legend />
+                </LineChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+          </>
+        ) : (
+          <Alert>
+            <AlertDescription>
+              Record % complete, or delivered scope against a total scope, for iterations up to the current one to see earned value metrics.
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,13 @@
 import { useRouter } from 'next/router';
 import Logo from './Logo';
 import LoginDialog from './LoginDialog';
+import SyncStatusIndicator from './SyncStatusIndicator';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
 
 const Header = () => {
   const router = useRouter();
+  const { isAuthenticated } = useAuth();
 
   return (
     <div className="w-full">
@@ -11,7 +15,13 @@ const Header = () => {
         <div className="cursor-pointer" onClick={() => router.push("/")}>
           <Logo />
         </div>
-        <div>
+        <div className="flex items-center gap-2">
+          {isAuthenticated && <SyncStatusIndicator />}
+          {isAuthenticated && (
+            <Button variant="ghost" onClick={() => router.push("/portfolio")}>
+              Portfolio
+            </Button>
+          )}
           <LoginDialog />
         </div>
       </div>
@@ -19,4 +29,4 @@ const Header = () => {
   );
 };
 
-export default Header;
\ No newline at end of file
+export default Header;
@@ -9,9 +9,17 @@ import { toast } from 'sonner';
 export default function LoginDialog() {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [mode, setMode] = useState<'login' | 'register'>('login');
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const { login, isAuthenticated, logout } = useAuth();
+  const { login, register, isAuthenticated, logout, user } = useAuth();
+
+  const resetForm = () => {
+    setUsername('');
+    setPassword('');
+    setConfirmPassword('');
+  };
 
   const handleLogin = async () => {
     if (!username || !password) {
@@ -25,8 +33,7 @@ export default function LoginDialog() {
       if (success) {
         toast.success('Logged in successfully');
         setIsOpen(false);
-        setUsername('');
-        setPassword('');
+        resetForm();
       } else {
         toast.error('Invalid credentials');
       }
@@ -38,19 +45,53 @@ export default function LoginDialog() {
     }
   };
 
-  const handleLogout = () => {
-    logout();
+  const handleRegister = async () => {
+    if (!username || !password) {
+      toast.error('Please enter both username and password');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await register(username, password);
+      if (result.success) {
+        toast.success('Account created successfully');
+        setIsOpen(false);
+        resetForm();
+      } else {
+        toast.error(result.error || 'Failed to create account');
+      }
+    } catch (error) {
+      toast.error('An error occurred during registration');
+      console.error(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    await logout();
     toast.success('Logged out successfully');
   };
 
   if (isAuthenticated) {
     return (
-      <Button variant="outline" onClick={handleLogout}>
-        Logout
-      </Button>
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">{user?.username}</span>
+        <Button variant="outline" onClick={handleLogout}>
+          Logout
+        </Button>
+      </div>
     );
   }
 
+  const isRegistering = mode === 'register';
+
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>
@@ -58,9 +99,11 @@ export default function LoginDialog() {
       </DialogTrigger>
       <DialogContent>
         <DialogHeader>
-          <DialogTitle>Login</DialogTitle>
+          <DialogTitle>{isRegistering ? 'Create Account' : 'Login'}</DialogTitle>
           <DialogDescription>
-            Enter your credentials to access additional features.
+            {isRegistering
+              ? 'Create an account to save and load your own budget states.'
+              : 'Enter your credentials to access additional features.'}
           </DialogDescription>
         </DialogHeader>
         <div className="space-y-4 py-4">
@@ -83,16 +126,44 @@ export default function LoginDialog() {
               placeholder="Enter your password"
             />
           </div>
+          {isRegistering && (
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm Password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder="Repeat your password"
+              />
+            </div>
+          )}
+          <p className="text-sm text-muted-foreground">
+            {isRegistering ? 'Already have an account? ' : "Don't have an account? "}
+            <button
+              type="button"
+              className="text-primary underline-offset-4 hover:underline"
+              onClick={() => setMode(isRegistering ? 'login' : 'register')}
+            >
+              {isRegistering ? 'Log in' : 'Create one'}
+            </button>
+          </p>
         </div>
         <DialogFooter>
           <Button variant="outline" onClick={() => setIsOpen(false)}>
             Cancel
           </Button>
-          <Button onClick={handleLogin} disabled={isLoading}>
-            {isLoading ? 'Logging in...' : 'Login'}
-          </Button>
+          {isRegistering ? (
+            <Button onClick={handleRegister} disabled={isLoading}>
+              {isLoading ? 'Creating account...' : 'Create Account'}
+            </Button>
+          ) : (
+            <Button onClick={handleLogin} disabled={isLoading}>
+              {isLoading ? 'Logging in...' : 'Login'}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
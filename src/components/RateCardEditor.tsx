@@ -0,0 +1,93 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RateCardEntry } from '@/types/budget';
+
+interface RateCardEditorProps {
+  rateCard: RateCardEntry[];
+  currency: string;
+  defaultRate: number;
+  onChange: (rateCard: RateCardEntry[]) => void;
+  onRemoveRole: (roleId: string) => void;
+}
+
+export default function RateCardEditor({ rateCard, currency, defaultRate, onChange, onRemoveRole }: RateCardEditorProps) {
+  const updateEntry = (id: string, changes: Partial<RateCardEntry>) => {
+    onChange(rateCard.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+  };
+
+  const addRole = () => {
+    onChange([
+      ...rateCard,
+      {
+        id: Date.now().toString(),
+        role: `Role ${rateCard.length + 1}`,
+        hourlyRate: defaultRate
+      }
+    ]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {rateCard.length > 0 ? (
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Role</TableHead>
+                <TableHead>Hourly Rate</TableHead>
+                <TableHead>Currency</TableHead>
+                <TableHead className="w-[1%]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rateCard.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    <Input
+                      value={entry.role}
+                      onChange={(e) => updateEntry(entry.id, { role: e.target.value })}
+                      placeholder="e.g. Senior Developer"
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={entry.hourlyRate}
+                      onChange={(e) => updateEntry(entry.id, { hourlyRate: parseFloat(e.target.value) || 0 })}
+                      className="h-8 w-28"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={entry.currency ?? ''}
+                      onChange={(e) => updateEntry(entry.id, { currency: e.target.value || undefined })}
+                      maxLength={3}
+                      placeholder={currency}
+                      className="h-8 w-20"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => onRemoveRole(entry.id)}>
+                      Remove
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No roles defined. Every iteration is costed at the default cost per hour.
+        </p>
+      )}
+      <Button variant="outline" onClick={addRole}>
+        Add Role
+      </Button>
+    </div>
+  );
+}
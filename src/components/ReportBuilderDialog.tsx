@@ -0,0 +1,303 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { ReportColumn, ReportFormat, ReportOrientation, ReportSection, ReportTemplate } from '@/types/budget';
+import {
+  BUILT_IN_REPORT_TEMPLATES,
+  MAX_LOGO_SIZE,
+  REPORT_COLUMNS,
+  REPORT_SECTIONS,
+  deleteReportTemplate,
+  getCustomReportTemplates,
+  saveReportTemplate
+} from '@/util/reportTemplates';
+
+interface ReportBuilderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onGenerate: (template: ReportTemplate, format: ReportFormat) => Promise<void>;
+  onCopyMarkdown: (template: ReportTemplate) => Promise<void>;
+}
+
+const REPORT_FORMATS: { value: ReportFormat, label: string, action: string }[] = [
+  { value: 'pdf', label: 'PDF', action: 'Generate PDF' },
+  { value: 'html', label: 'HTML page', action: 'Download HTML' },
+  { value: 'markdown', label: 'Markdown', action: 'Download Markdown' }
+];
+
+export default function ReportBuilderDialog({ open, onOpenChange, onGenerate, onCopyMarkdown }: ReportBuilderDialogProps) {
+  const [templates, setTemplates] = useState<ReportTemplate[]>(BUILT_IN_REPORT_TEMPLATES);
+  const [templateId, setTemplateId] = useState<string>(BUILT_IN_REPORT_TEMPLATES[0].id);
+  const [settings, setSettings] = useState<ReportTemplate>(BUILT_IN_REPORT_TEMPLATES[0]);
+  const [format, setFormat] = useState<ReportFormat>('pdf');
+  const [templateName, setTemplateName] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const applyTemplate = (template: ReportTemplate) => {
+    setTemplateId(template.id);
+    setSettings(template);
+  };
+
+  // Reload the saved templates each time the dialog is opened
+  useEffect(() => {
+    if (!open) return;
+    setTemplates([...BUILT_IN_REPORT_TEMPLATES, ...getCustomReportTemplates()]);
+  }, [open]);
+
+  const handleTemplateChange = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (template) applyTemplate(template);
+  };
+
+  const toggleSection = (section: ReportSection, checked: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      sections: checked ? [...prev.sections, section] : prev.sections.filter(s => s !== section)
+    }));
+  };
+
+  const toggleColumn = (column: ReportColumn, checked: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      columns: checked ? [...prev.columns, column] : prev.columns.filter(c => c !== column)
+    }));
+  };
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      toast.error('The logo must be a PNG or JPEG image');
+      return;
+    }
+    if (file.size > MAX_LOGO_SIZE) {
+      toast.error(`The logo must be smaller than ${MAX_LOGO_SIZE / 1024} KB`);
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setSettings(prev => ({ ...prev, logo: reader.result as string }));
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSaveTemplate = () => {
+    const name = templateName.trim();
+    if (!name) {
+      toast.error('Please enter a name for the template');
+      return;
+    }
+    if (BUILT_IN_REPORT_TEMPLATES.some(template => template.name === name)) {
+      toast.error('A built-in template already has this name');
+      return;
+    }
+
+    try {
+      const template = saveReportTemplate(name, {
+        title: settings.title,
+        footer: settings.footer,
+        logo: settings.logo,
+        orientation: settings.orientation,
+        sections: settings.sections,
+        columns: settings.columns
+      });
+      setTemplates([...BUILT_IN_REPORT_TEMPLATES, ...getCustomReportTemplates()]);
+      applyTemplate(template);
+      setTemplateName('');
+      toast.success(`Template "${name}" saved`);
+    } catch (error) {
+      // Local storage is full, most likely because of the logo
+      console.error('Error saving report template:', error);
+      toast.error('Failed to save template');
+    }
+  };
+
+  const handleDeleteTemplate = () => {
+    deleteReportTemplate(templateId);
+    setTemplates([...BUILT_IN_REPORT_TEMPLATES, ...getCustomReportTemplates()]);
+    applyTemplate(BUILT_IN_REPORT_TEMPLATES[0]);
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      await onGenerate(settings, format);
+      onOpenChange(false);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const selectedTemplate = templates.find(t => t.id === templateId);
+  const hasIterationTable = settings.sections.includes('iterations');
+  const canGenerate = !isGenerating && settings.sections.length > 0 && !(hasIterationTable && settings.columns.length === 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Status Report</DialogTitle>
+          <DialogDescription>
+            Choose what the report shows and how it is branded, and save the setup as a template to reuse it.
+            Reports can be exported as a PDF, a standalone HTML page or a Markdown summary.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="report-format">Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ReportFormat)}>
+              <SelectTrigger id="report-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPORT_FORMATS.map(reportFormat => (
+                  <SelectItem key={reportFormat.value} value={reportFormat.value}>{reportFormat.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-template">Template</Label>
+            <div className="flex gap-2">
+              <Select value={templateId} onValueChange={handleTemplateChange}>
+                <SelectTrigger id="report-template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedTemplate && !selectedTemplate.builtIn && (
+                <Button variant="outline" onClick={handleDeleteTemplate}>
+                  Delete
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="report-title">Title</Label>
+              <Input
+                id="report-title"
+                value={settings.title}
+                onChange={(e) => setSettings(prev => ({ ...prev, title: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-footer">Footer</Label>
+              <Input
+                id="report-footer"
+                value={settings.footer}
+                onChange={(e) => setSettings(prev => ({ ...prev, footer: e.target.value }))}
+                placeholder="No footer"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Orientation (PDF)</Label>
+              <RadioGroup
+                value={settings.orientation}
+                onValueChange={(value) => setSettings(prev => ({ ...prev, orientation: value as ReportOrientation }))}
+                className="pt-2"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="portrait" id="report-portrait" />
+                  <Label htmlFor="report-portrait" className="font-normal">Portrait</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="landscape" id="report-landscape" />
+                  <Label htmlFor="report-landscape" className="font-normal">Landscape</Label>
+                </div>
+              </RadioGroup>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-logo">Logo</Label>
+              {settings.logo ? (
+                <div className="flex items-center gap-3">
+                  <img src={settings.logo} alt="Report logo" className="h-10 max-w-[120px] object-contain" />
+                  <Button variant="outline" size="sm" onClick={() => setSettings(prev => ({ ...prev, logo: undefined }))}>
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                <Input id="report-logo" type="file" accept="image/png,image/jpeg" onChange={handleLogoChange} />
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <h3 className="text-lg font-medium">Sections</h3>
+              {REPORT_SECTIONS.map(section => (
+                <div key={section.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`report-section-${section.value}`}
+                    checked={settings.sections.includes(section.value)}
+                    onCheckedChange={(checked) => toggleSection(section.value, checked === true)}
+                  />
+                  <Label htmlFor={`report-section-${section.value}`} className="font-normal">{section.label}</Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <h3 className="text-lg font-medium">Iteration Table Columns</h3>
+              {REPORT_COLUMNS.map(column => (
+                <div key={column.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`report-column-${column.value}`}
+                    checked={settings.columns.includes(column.value)}
+                    onCheckedChange={(checked) => toggleColumn(column.value, checked === true)}
+                    disabled={!hasIterationTable}
+                  />
+                  <Label htmlFor={`report-column-${column.value}`} className="font-normal">{column.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2 pt-4 border-t border-border">
+            <Label htmlFor="report-template-name">Save as template</Label>
+            <div className="flex gap-2">
+              <Input
+                id="report-template-name"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder={selectedTemplate && !selectedTemplate.builtIn ? selectedTemplate.name : 'Template name'}
+              />
+              <Button variant="outline" onClick={handleSaveTemplate}>
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isGenerating}>
+            Cancel
+          </Button>
+          {format === 'markdown' && (
+            <Button variant="outline" onClick={() => onCopyMarkdown(settings)} disabled={!canGenerate}>
+              Copy to Clipboard
+            </Button>
+          )}
+          <Button onClick={handleGenerate} disabled={!canGenerate}>
+            {REPORT_FORMATS.find(reportFormat => reportFormat.value === format)?.action}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { RateCardEntry } from '@/types/budget';
+
+interface RoleHeadcountPopoverProps {
+  rateCard: RateCardEntry[];
+  roleHeadcount?: Record<string, number>;
+  onChange: (roleHeadcount: Record<string, number>) => void;
+  onApplyToFollowing: () => void;
+}
+
+export default function RoleHeadcountPopover({ rateCard, roleHeadcount, onChange, onApplyToFollowing }: RoleHeadcountPopoverProps) {
+  const assignedRoles = rateCard.filter(entry => (roleHeadcount?.[entry.id] ?? 0) > 0);
+  const summary = assignedRoles.length > 0
+    ? assignedRoles.map(entry => `${roleHeadcount?.[entry.id]} ${entry.role}`).join(', ')
+    : 'Default rate';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 max-w-[200px] justify-start truncate">
+          {summary}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3">
+        <p className="text-sm font-medium">Headcount per role</p>
+        {rateCard.map(entry => (
+          <div key={entry.id} className="flex items-center justify-between gap-2">
+            <Label htmlFor={`headcount-${entry.id}`} className="truncate">{entry.role}</Label>
+            <Input
+              id={`headcount-${entry.id}`}
+              type="number"
+              min="0"
+              value={roleHeadcount?.[entry.id] ?? 0}
+              onChange={(e) => {
+                const value = Math.max(parseFloat(e.target.value) || 0, 0);
+                onChange({ ...roleHeadcount, [entry.id]: value });
+              }}
+              className="h-8 w-20"
+            />
+          </div>
+        ))}
+        <Button variant="outline" size="sm" className="w-full" onClick={onApplyToFollowing}>
+          Apply to following iterations
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,11 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { toast } from 'sonner';
-import { saveState, getSavedStates, loadState, deleteState, cleanupDatabase, SavedState, AppState } from '@/util/stateManager';
+import { saveState, getSavedStates, syncSavedStates, loadState, deleteState, getStateRevisions, restoreRevision, setStatePinned, SavedState, StateRevision, StorageLocation, AppState } from '@/util/stateManager';
 import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/contexts/SyncContext';
+import StateDiffDialog from '@/components/StateDiffDialog';
+import TrashDialog from '@/components/TrashDialog';
+import WorkspaceBackupDialog from '@/components/WorkspaceBackupDialog';
 
 interface SaveStateManagerProps {
   currentState: AppState;
@@ -13,32 +18,49 @@ interface SaveStateManagerProps {
   onGeneratePDF: () => void;
 }
 
+const STORAGE_LABELS: Record<StorageLocation, string> = {
+  local: 'Local',
+  database: 'Cloud',
+  synced: 'Synced',
+  pending: 'Pending'
+};
+
+const STORAGE_DESCRIPTIONS: Record<StorageLocation, string> = {
+  local: 'Saved in this browser only',
+  database: 'Saved in your account only',
+  synced: 'Saved in this browser and your account',
+  pending: 'Saved in this browser, uploading to your account when back online'
+};
+
 export default function SaveStateManager({ currentState, onLoadState, onGeneratePDF }: SaveStateManagerProps) {
   const { isAuthenticated, user } = useAuth();
+  const { lastSyncedAt } = useSync();
   const [savedStates, setSavedStates] = useState<SavedState[]>([]);
   const [saveName, setSaveName] = useState('');
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [loadDialogOpen, setLoadDialogOpen] = useState(false);
   const [selectedState, setSelectedState] = useState<SavedState | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
+  const [historyState, setHistoryState] = useState<SavedState | null>(null);
+  const [revisions, setRevisions] = useState<StateRevision[]>([]);
+  const [diffDialogOpen, setDiffDialogOpen] = useState(false);
+  const [trashDialogOpen, setTrashDialogOpen] = useState(false);
+  const [backupDialogOpen, setBackupDialogOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
   // Load saved states from local storage and database
   useEffect(() => {
-    if (isAuthenticated) {
+    if (isAuthenticated && user) {
       const fetchSavedStates = async () => {
         setIsLoading(true);
         try {
-          // Run database cleanup once (as requested by user)
-          try {
-            await cleanupDatabase();
-            console.log('Database cleanup completed');
-          } catch (cleanupError) {
-            console.error('Error during database cleanup:', cleanupError);
-          }
-          
-          const states = await getSavedStates(user?.id);
+          // Reconcile with local storage, uploading states saved before login
+          const { states, uploaded } = await syncSavedStates(user.id);
           setSavedStates(states);
+          if (uploaded > 0) {
+            toast.success(`Uploaded ${uploaded} locally saved ${uploaded === 1 ? 'state' : 'states'} to your account`);
+          }
         } catch (error) {
           console.error('Error fetching saved states:', error);
           toast.error('Failed to load saved states');
@@ -51,6 +73,13 @@ export default function SaveStateManager({ currentState, onLoadState, onGenerate
     }
   }, [isAuthenticated, user]);
 
+  // Refresh the list once queued changes have been synced
+  useEffect(() => {
+    if (isAuthenticated && lastSyncedAt) {
+      getSavedStates(user?.id).then(setSavedStates);
+    }
+  }, [isAuthenticated, user, lastSyncedAt]);
+
   // Handle saving current state
   const handleSaveState = async () => {
     if (!saveName.trim()) {
@@ -60,11 +89,16 @@ export default function SaveStateManager({ currentState, onLoadState, onGenerate
 
     setIsLoading(true);
     try {
-      const newState = await saveState(saveName, currentState, user?.id);
-      setSavedStates(prev => [...prev, newState]);
+      const isRevision = savedStates.some(state => state.name === saveName);
+      const savedState = await saveState(saveName, currentState, user?.id);
+      setSavedStates(await getSavedStates(user?.id));
       setSaveName('');
       setSaveDialogOpen(false);
-      toast.success('State saved successfully');
+      if (savedState.storage === 'pending') {
+        toast.success(`Saved "${saveName}" in this browser. It will be uploaded when you are back online`);
+      } else {
+        toast.success(isRevision ? `Saved a new revision of "${saveName}"` : 'State saved successfully');
+      }
     } catch (error) {
       console.error('Error saving state:', error);
       toast.error('Failed to save state');
@@ -93,6 +127,66 @@ export default function SaveStateManager({ currentState, onLoadState, onGenerate
     }
   };
 
+  // Open the history of a saved state
+  const handleShowHistory = async (state: SavedState) => {
+    setHistoryState(state);
+    setRevisions([]);
+    setLoadDialogOpen(false);
+    // Use setTimeout to ensure the load dialog is closed before opening the history dialog
+    setTimeout(() => {
+      setHistoryDialogOpen(true);
+    }, 100);
+    
+    try {
+      setRevisions(await getStateRevisions(state.id, user?.id));
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+      toast.error('Failed to load revisions');
+    }
+  };
+
+  // Restore a revision as the current version and load it
+  const handleRestoreRevision = async (revision: StateRevision) => {
+    if (!historyState) return;
+    
+    setIsLoading(true);
+    try {
+      const state = await restoreRevision(historyState.id, revision.id, user?.id);
+      if (state) {
+        onLoadState(state);
+        setHistoryDialogOpen(false);
+        setSavedStates(await getSavedStates(user?.id));
+        toast.success(`Restored "${historyState.name}" from ${formatDate(revision.date)}`);
+      } else {
+        toast.error('Failed to restore revision');
+      }
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error('Failed to restore revision');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Pin a state so the retention settings never move it to the trash
+  const handleTogglePinned = async (state: SavedState) => {
+    setIsLoading(true);
+    try {
+      if (await setStatePinned(state.id, !state.pinned, user?.id)) {
+        setSavedStates(prev => prev.map(savedState => (
+          savedState.id === state.id ? { ...savedState, pinned: !state.pinned } : savedState
+        )));
+      } else {
+        toast.error(state.pinned ? 'Failed to unpin state' : 'Failed to pin state');
+      }
+    } catch (error) {
+      console.error('Error pinning state:', error);
+      toast.error(state.pinned ? 'Failed to unpin state' : 'Failed to pin state');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Handle deleting a saved state
   const handleDeleteState = async () => {
     if (!selectedState) return;
@@ -111,7 +205,7 @@ export default function SaveStateManager({ currentState, onLoadState, onGenerate
         setTimeout(() => {
           setSavedStates(prev => prev.filter(state => state.id !== stateIdToDelete));
           setSelectedState(null);
-          toast.success('State deleted successfully');
+          toast.success('State moved to the trash');
         }, 100);
       } else {
         toast.error('Failed to delete state');
@@ -152,12 +246,12 @@ export default function SaveStateManager({ currentState, onLoadState, onGenerate
 
   return (
     <div className="flex flex-wrap gap-2">
-      {/* Generate PDF Button - Always visible */}
+      {/* Generate Report Button - Always visible */}
       <Button 
         onClick={onGeneratePDF}
         className="bg-primary hover:bg-primary/90"
       >
-        Generate PDF Report
+        Generate Report
       </Button>
       
       {/* Save/Load State functionality - Only visible when authenticated */}
@@ -224,27 +318,60 @@ export default function SaveStateManager({ currentState, onLoadState, onGenerate
                         onClick={() => handleLoadState(state.id)}
                       >
                         <div>
-                          <h4 className="font-medium">{state.name}</h4>
+                          <div className="flex items-center gap-2">
+                            <h4 className="font-medium">{state.name}</h4>
+                            {state.pinned && <Badge variant="secondary" className="text-xs">Pinned</Badge>}
+                            {state.storage && (
+                              <Badge variant="outline" className="text-xs" title={STORAGE_DESCRIPTIONS[state.storage]}>
+                                {STORAGE_LABELS[state.storage]}
+                              </Badge>
+                            )}
+                          </div>
                           <p className="text-sm text-muted-foreground">{formatDate(state.date)}</p>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            // Set the selected state first
-                            setSelectedState(state);
-                            // Then close the load dialog
-                            setLoadDialogOpen(false);
-                            // Use setTimeout to ensure the load dialog is closed before opening delete dialog
-                            setTimeout(() => {
-                              setDeleteDialogOpen(true);
-                            }, 100);
-                          }}
-                          disabled={isLoading}
-                        >
-                          Delete
-                        </Button>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleTogglePinned(state);
+                            }}
+                            disabled={isLoading}
+                            title="Pinned states are kept regardless of the retention settings"
+                          >
+                            {state.pinned ? 'Unpin' : 'Pin'}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleShowHistory(state);
+                            }}
+                            disabled={isLoading}
+                          >
+                            History
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              // Set the selected state first
+                              setSelectedState(state);
+                              // Then close the load dialog
+                              setLoadDialogOpen(false);
+                              // Use setTimeout to ensure the load dialog is closed before opening delete dialog
+                              setTimeout(() => {
+                                setDeleteDialogOpen(true);
+                              }, 100);
+                            }}
+                            disabled={isLoading}
+                          >
+                            Delete
+                          </Button>
+                        </div>
                       </div>
                     ))}
                   </div>
@@ -262,6 +389,93 @@ export default function SaveStateManager({ currentState, onLoadState, onGenerate
             </DialogContent>
           </Dialog>
 
+          {/* Compare Saved States */}
+          <Button variant="outline" onClick={() => setDiffDialogOpen(true)} disabled={isLoading || savedStates.length < 2}>
+            Compare
+          </Button>
+          <StateDiffDialog open={diffDialogOpen} onOpenChange={setDiffDialogOpen} savedStates={savedStates} />
+
+          {/* Trash and Retention Settings */}
+          <Button variant="outline" onClick={() => setTrashDialogOpen(true)} disabled={isLoading}>
+            Trash
+          </Button>
+          <TrashDialog
+            open={trashDialogOpen}
+            onOpenChange={setTrashDialogOpen}
+            onRestored={async () => setSavedStates(await getSavedStates(user?.id))}
+          />
+
+          {/* Workspace Backup and Restore */}
+          <Button variant="outline" onClick={() => setBackupDialogOpen(true)} disabled={isLoading}>
+            Backup
+          </Button>
+          <WorkspaceBackupDialog
+            open={backupDialogOpen}
+            onOpenChange={setBackupDialogOpen}
+            savedStates={savedStates}
+            onRestored={async () => setSavedStates(await getSavedStates(user?.id))}
+          />
+
+          {/* Revision History Dialog */}
+          <Dialog open={historyDialogOpen} onOpenChange={setHistoryDialogOpen}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>History of "{historyState?.name}"</DialogTitle>
+                <DialogDescription>
+                  Each save under this name is kept as a revision. Restoring a revision makes it the current version and loads it.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="py-4 max-h-[400px] overflow-y-auto space-y-2">
+                {historyState && (
+                  <div className="p-3 border rounded-md flex justify-between items-center bg-accent/50">
+                    <div>
+                      <h4 className="font-medium">Current version</h4>
+                      <p className="text-sm text-muted-foreground">{formatDate(historyState.date)}</p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setHistoryDialogOpen(false);
+                        handleLoadState(historyState.id);
+                      }}
+                      disabled={isLoading}
+                    >
+                      Load
+                    </Button>
+                  </div>
+                )}
+                {revisions.length > 0 ? (
+                  revisions.map((revision, index) => (
+                    <div key={revision.id} className="p-3 border rounded-md flex justify-between items-center">
+                      <div>
+                        <h4 className="font-medium">Revision {revisions.length - index}</h4>
+                        <p className="text-sm text-muted-foreground">{formatDate(revision.date)}</p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestoreRevision(revision)}
+                        disabled={isLoading}
+                      >
+                        Restore
+                      </Button>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-center text-muted-foreground py-4">
+                    No earlier revisions. Save again under the same name to create one.
+                  </p>
+                )}
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setHistoryDialogOpen(false)} disabled={isLoading}>
+                  Close
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+
           {/* Delete Confirmation Dialog */}
           <Dialog 
             open={deleteDialogOpen} 
@@ -281,7 +495,7 @@ export default function SaveStateManager({ currentState, onLoadState, onGenerate
               <DialogHeader>
                 <DialogTitle>Delete Saved State</DialogTitle>
                 <DialogDescription>
-                  Are you sure you want to delete "{selectedState?.name}"? This action cannot be undone.
+                  Are you sure you want to delete "{selectedState?.name}"? It will be moved to the trash, where it can be restored until the trash is emptied.
                 </DialogDescription>
               </DialogHeader>
               <DialogFooter>
@@ -310,8 +524,17 @@ export default function SaveStateManager({ currentState, onLoadState, onGenerate
                 <DropdownMenuItem onClick={() => setLoadDialogOpen(true)} disabled={isLoading}>
                   Load State
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setDiffDialogOpen(true)} disabled={isLoading || savedStates.length < 2}>
+                  Compare States
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setTrashDialogOpen(true)} disabled={isLoading}>
+                  Trash
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setBackupDialogOpen(true)} disabled={isLoading}>
+                  Backup and Restore
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={onGeneratePDF} disabled={isLoading}>
-                  Generate PDF Report
+                  Generate Report
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
@@ -0,0 +1,311 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { Scenario } from '@/types/budget';
+import { formatShortDate } from '@/util/calendar';
+import {
+  addTeamMembers,
+  adjustRates,
+  calculateScenarioChartData,
+  calculateScenarioSummaries
+} from '@/util/scenarios';
+
+const SCENARIO_COLORS = ['#f59e0b', '#4f46e5', '#10b981', '#ec4899', '#0ea5e9', '#8b5cf6', '#64748b'];
+
+interface ScenarioPanelProps {
+  scenarios: Scenario[];
+  activeScenarioId: string | null;
+  currency: string;
+  onFork: (name: string) => void;
+  onSwitch: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onUpdate: (scenario: Scenario) => void;
+}
+
+const formatAxisValue = (value: number) => {
+  if (value >= 1000000) {
+    return `${(value / 1000000).toFixed(1)}M`;
+  } else if (value >= 1000) {
+    return `${(value / 1000).toFixed(1)}K`;
+  }
+  return value.toString();
+};
+
+export default function ScenarioPanel({
+  scenarios,
+  activeScenarioId,
+  currency,
+  onFork,
+  onSwitch,
+  onRename,
+  onDelete,
+  onUpdate
+}: ScenarioPanelProps) {
+  const [forkName, setForkName] = useState('');
+  const [targetScenarioId, setTargetScenarioId] = useState<string>('');
+  const [peopleCount, setPeopleCount] = useState(2);
+  const [fromIteration, setFromIteration] = useState(1);
+  const [ratePercentage, setRatePercentage] = useState(10);
+
+  const summaries = calculateScenarioSummaries(scenarios);
+  const chartData = calculateScenarioChartData(scenarios);
+  const budgetSizes = Array.from(new Set(scenarios.map(scenario => scenario.budgetParams.budgetSize)));
+
+  // What-if changes go to the chosen scenario, or the one being edited
+  const targetScenario = scenarios.find(scenario => scenario.id === targetScenarioId)
+    ?? scenarios.find(scenario => scenario.id === activeScenarioId);
+
+  const handleFork = () => {
+    const name = forkName.trim() || `Scenario ${scenarios.length + 1}`;
+    onFork(name);
+    setForkName('');
+  };
+
+  const handleAddPeople = () => {
+    if (!targetScenario) return;
+    onUpdate({ ...targetScenario, iterations: addTeamMembers(targetScenario.iterations, peopleCount, fromIteration) });
+    toast.success(`Updated team size in "${targetScenario.name}" from iteration ${fromIteration}`);
+  };
+
+  const handleAdjustRates = () => {
+    if (!targetScenario) return;
+    onUpdate({ ...targetScenario, budgetParams: adjustRates(targetScenario.budgetParams, ratePercentage) });
+    toast.success(`Updated rates in "${targetScenario.name}" by ${ratePercentage}%`);
+  };
+
+  const formatCost = (value: number) => `${currency}${Math.round(value).toLocaleString()}`;
+  const formatDelta = (value: number) =>
+    value === 0 ? '–' : `${value > 0 ? '+' : '-'}${currency}${Math.round(Math.abs(value)).toLocaleString()}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Scenarios</CardTitle>
+        <CardDescription>
+          Fork the current plan into named what-if scenarios. The scenario being edited is shown in the Parameters and Iterations tabs; the first scenario is the baseline for the comparison.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={forkName}
+            onChange={(e) => setForkName(e.target.value)}
+            placeholder="e.g. Two more developers from iteration 6"
+            className="sm:max-w-sm"
+          />
+          <Button onClick={handleFork}>Fork Current Plan</Button>
+        </div>
+
+        {scenarios.length > 0 ? (
+          <>
+            <div className="border rounded-md overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Scenario</TableHead>
+                    <TableHead className="text-right">Iterations</TableHead>
+                    <TableHead className="text-right">End Cost</TableHead>
+                    <TableHead className="text-right">vs Baseline</TableHead>
+                    <TableHead>Budget Runs Out</TableHead>
+                    <TableHead className="text-right">vs Baseline</TableHead>
+                    <TableHead className="w-[1%]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summaries.map((summary, index) => {
+                    const isActive = summary.scenarioId === activeScenarioId;
+                    const iterationDelta = summary.exhaustionIterationDelta;
+
+                    return (
+                      <TableRow key={summary.scenarioId} className={isActive ? 'bg-primary/10' : ''}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span
+                              className="w-3 h-3 rounded-full shrink-0"
+                              style={{ backgroundColor: SCENARIO_COLORS[index % SCENARIO_COLORS.length] }}
+                            ></span>
+                            <Input
+                              value={summary.name}
+                              onChange={(e) => onRename(summary.scenarioId, e.target.value)}
+                              className="h-8 min-w-[160px]"
+                            />
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{summary.iterationCount}</TableCell>
+                        <TableCell className="text-right">{formatCost(summary.endCost)}</TableCell>
+                        <TableCell className={`text-right ${summary.endCostDelta > 0 ? 'text-red-600' : summary.endCostDelta < 0 ? 'text-green-600' : 'text-muted-foreground'}`}>
+                          {index === 0 ? 'Baseline' : formatDelta(summary.endCostDelta)}
+                        </TableCell>
+                        <TableCell>
+                          {summary.exhaustionIterationNumber !== undefined
+                            ? `Iteration ${summary.exhaustionIterationNumber}${summary.exhaustionDate ? ` (${formatShortDate(summary.exhaustionDate)})` : ''}`
+                            : 'Not reached'}
+                        </TableCell>
+                        <TableCell className={`text-right ${iterationDelta === undefined || iterationDelta === 0 ? 'text-muted-foreground' : iterationDelta < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {index === 0
+                            ? 'Baseline'
+                            : iterationDelta === undefined || iterationDelta === 0
+                              ? '–'
+                              : `${iterationDelta > 0 ? '+' : ''}${iterationDelta} iterations`}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button
+                              variant={isActive ? 'secondary' : 'outline'}
+                              size="sm"
+                              disabled={isActive}
+                              onClick={() => onSwitch(summary.scenarioId)}
+                            >
+                              {isActive ? 'Editing' : 'Edit'}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={isActive}
+                              onClick={() => onDelete(summary.scenarioId)}
+                            >
+                              Delete
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="pt-4 border-t border-border space-y-4">
+              <div>
+                <h3 className="text-lg font-medium">What-if Changes</h3>
+                <p className="text-sm text-muted-foreground">
+                  Apply common changes to a scenario. Iterations up to the current one keep their recorded hours; rate changes apply to every iteration.
+                </p>
+              </div>
+              <div className="space-y-2 max-w-xs">
+                <Label>Scenario</Label>
+                <Select value={targetScenario?.id ?? ''} onValueChange={setTargetScenarioId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a scenario" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {scenarios.map(scenario => (
+                      <SelectItem key={scenario.id} value={scenario.id}>{scenario.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="scenario-people">Add people</Label>
+                    <Input
+                      id="scenario-people"
+                      type="number"
+                      value={peopleCount}
+                      onChange={(e) => setPeopleCount(parseInt(e.target.value, 10) || 0)}
+                      className="w-24"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="scenario-from-iteration">From iteration</Label>
+                    <Input
+                      id="scenario-from-iteration"
+                      type="number"
+                      min="1"
+                      value={fromIteration}
+                      onChange={(e) => setFromIteration(parseInt(e.target.value, 10) || 1)}
+                      className="w-24"
+                    />
+                  </div>
+                  <Button variant="outline" onClick={handleAddPeople} disabled={!targetScenario || peopleCount === 0}>
+                    Apply
+                  </Button>
+                </div>
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="scenario-rate">Change rates by (%)</Label>
+                    <Input
+                      id="scenario-rate"
+                      type="number"
+                      value={ratePercentage}
+                      onChange={(e) => setRatePercentage(parseFloat(e.target.value) || 0)}
+                      className="w-24"
+                    />
+                  </div>
+                  <Button variant="outline" onClick={handleAdjustRates} disabled={!targetScenario || ratePercentage === 0}>
+                    Apply
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <ChartContainer
+              config={Object.fromEntries(scenarios.map((scenario, index) => [
+                scenario.id,
+                { label: scenario.name, color: SCENARIO_COLORS[index % SCENARIO_COLORS.length] }
+              ]))}
+              className="min-h-[400px] w-full"
+            >
+              <ResponsiveContainer width="100%" height="100%" minHeight={400}>
+                <LineChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 70 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="name"
+                    angle={-45}
+                    textAnchor="end"
+                    height={80}
+                    interval={chartData.length > 20 ? Math.floor(chartData.length / 20) : 0}
+                    tick={{ fontSize: 10 }}
+                  />
+                  <YAxis
+                    domain={[0, 'auto']}
+                    label={{ value: `Cumulative Cost (${currency})`, angle: -90, position: 'insideLeft' }}
+                    tickFormatter={formatAxisValue}
+                  />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  {budgetSizes.map(budgetSize => (
+                    <ReferenceLine
+                      key={budgetSize}
+                      y={budgetSize}
+                      stroke="red"
+                      strokeDasharray="5 5"
+                      label={{ value: 'Total Budget', position: 'insideTopRight', fill: 'red', fontSize: 12 }}
+                    />
+                  ))}
+                  {scenarios.map((scenario, index) => (
+                    <Line
+                      key={scenario.id}
+                      type="monotone"
+                      dataKey={scenario.id}
+                      stroke={SCENARIO_COLORS[index % SCENARIO_COLORS.length]}
+                      strokeWidth={scenario.id === activeScenarioId ? 3 : 2}
+                      dot={false}
+                      name={scenario.name}
+                    />
+                  ))}
+                  <Legend />
+                </LineChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+          </>
+        ) : (
+          <Alert>
+            <AlertDescription>
+              No scenarios yet. Fork the current plan to keep it as the baseline and start editing a what-if copy.
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,275 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BudgetParams, ColumnMapping, ImportDateFormat, ImportMode, IterationData, SprintImportResult } from '@/types/budget';
+import { CsvImportFile } from '@/components/CsvImportDialog';
+import { getPlannedCost } from '@/util/budgetEngine';
+import { formatDateRange } from '@/util/calendar';
+import { IMPORT_DATE_FORMATS, guessColumnMapping, parseImportDate } from '@/util/csvImport';
+import { SPRINT_IMPORT_FIELDS, importSprints } from '@/util/sprintImport';
+
+interface SprintImportDialogProps {
+  file: CsvImportFile | null;
+  onOpenChange: (open: boolean) => void;
+  budgetParams: BudgetParams;
+  iterations: IterationData[];
+  onApply: (result: SprintImportResult, projectStartDate?: string) => void;
+}
+
+const NOT_MAPPED = '__none__';
+
+export default function SprintImportDialog({
+  file,
+  onOpenChange,
+  budgetParams,
+  iterations,
+  onApply
+}: SprintImportDialogProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('yyyy-MM-dd');
+  const [mode, setMode] = useState<ImportMode>('replace');
+  const [adoptStartDate, setAdoptStartDate] = useState(true);
+
+  // Guess the columns and the date format whenever a file is picked
+  useEffect(() => {
+    if (!file) return;
+    const guessedMapping = guessColumnMapping(file.headers, SPRINT_IMPORT_FIELDS);
+    const firstStart = guessedMapping.startDate ? file.rows[0]?.[guessedMapping.startDate] ?? '' : '';
+    setMapping(guessedMapping);
+    setDateFormat(IMPORT_DATE_FORMATS.find(format => parseImportDate(firstStart, format.value))?.value ?? 'yyyy-MM-dd');
+    setMode('replace');
+    setAdoptStartDate(true);
+  }, [file]);
+
+  const headers = file?.headers ?? [];
+  const unmappedRequired = SPRINT_IMPORT_FIELDS.filter(field => field.required && !mapping[field.key]);
+  const result = file && unmappedRequired.length === 0
+    ? importSprints(file.rows, mapping, dateFormat, budgetParams, iterations, mode)
+    : null;
+  const changesStartDate = !!result?.projectStartDate && result.projectStartDate !== budgetParams.projectStartDate;
+
+  const formatCost = (value: number) => `${budgetParams.currency}${Math.round(value).toLocaleString()}`;
+
+  const handleApply = () => {
+    if (!result) return;
+    onApply(result, adoptStartDate && changesStartDate ? result.projectStartDate : undefined);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Sprints {file?.fileName}</DialogTitle>
+          <DialogDescription>
+            Each sprint becomes an iteration, with its working days, a team size of its distinct assignees and its completed story points as delivered scope.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="sprint-date-format">Date format</Label>
+              <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as ImportDateFormat)}>
+                <SelectTrigger id="sprint-date-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_DATE_FORMATS.map(format => (
+                    <SelectItem key={format.value} value={format.value}>{format.value} ({format.label})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Apply by</Label>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="pt-2">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="replace" id="sprint-replace" />
+                  <Label htmlFor="sprint-replace" className="font-normal">Replacing all iterations</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="merge" id="sprint-merge" />
+                  <Label htmlFor="sprint-merge" className="font-normal">Merging: update iterations with the sprint&apos;s number, keep the others</Label>
+                </div>
+              </RadioGroup>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-lg font-medium">Columns</h3>
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Column in file</TableHead>
+                    <TableHead>First value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {SPRINT_IMPORT_FIELDS.map(field => {
+                    const header = mapping[field.key];
+                    return (
+                      <TableRow key={field.key}>
+                        <TableCell className="font-medium">
+                          {field.label}
+                          {field.required && <span className="text-red-600"> *</span>}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={header ?? NOT_MAPPED}
+                            onValueChange={(value) => setMapping(prev => ({ ...prev, [field.key]: value === NOT_MAPPED ? null : value }))}
+                          >
+                            <SelectTrigger className="h-8 min-w-[180px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                              {headers.map(h => (
+                                <SelectItem key={h} value={h}>{h}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {header ? file?.rows[0]?.[header] || '–' : '–'}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          {unmappedRequired.length > 0 ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                Map a column to {unmappedRequired.map(field => field.label).join(', ')} to import.
+              </AlertDescription>
+            </Alert>
+          ) : result && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">
+                  {result.sprints.length} sprints found
+                </Badge>
+                {result.rejected.length > 0 && (
+                  <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">
+                    {result.rejected.length} {result.rejected.length === 1 ? 'row' : 'rows'} rejected
+                  </Badge>
+                )}
+              </div>
+
+              {result.warnings.map(warning => (
+                <Alert key={warning}>
+                  <AlertDescription>{warning}</AlertDescription>
+                </Alert>
+              ))}
+
+              {changesStartDate && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="sprint-start-date"
+                    checked={adoptStartDate}
+                    onCheckedChange={(checked) => setAdoptStartDate(checked === true)}
+                  />
+                  <Label htmlFor="sprint-start-date" className="font-normal">
+                    Set the project start date to {result.projectStartDate}, the start of the first sprint
+                  </Label>
+                </div>
+              )}
+
+              {result.sprints.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-lg font-medium">Sprints</h3>
+                  <div className="border rounded-md overflow-x-auto max-h-[320px] overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Iteration #</TableHead>
+                          <TableHead>Sprint</TableHead>
+                          <TableHead>Dates</TableHead>
+                          <TableHead className="text-right">Working Days</TableHead>
+                          <TableHead className="text-right">Team Size</TableHead>
+                          <TableHead className="text-right">Points</TableHead>
+                          <TableHead className="text-right">Planned Cost</TableHead>
+                          <TableHead className="text-right">Cost per Point</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {result.sprints.map(sprint => {
+                          const iteration = result.iterations.find(it => it.iterationNumber === sprint.iterationNumber)!;
+                          const plannedCost = getPlannedCost(iteration, budgetParams);
+                          return (
+                            <TableRow key={sprint.iterationNumber}>
+                              <TableCell>{sprint.iterationNumber}</TableCell>
+                              <TableCell>{sprint.name}</TableCell>
+                              <TableCell className="text-sm">{formatDateRange(sprint.startDate, sprint.endDate)}</TableCell>
+                              <TableCell className="text-right">{iteration.iterationDays}</TableCell>
+                              <TableCell className="text-right" title={sprint.assignees.join(', ')}>{iteration.teamSize}</TableCell>
+                              <TableCell className="text-right">{sprint.deliveredScope ?? '–'}</TableCell>
+                              <TableCell className="text-right">{formatCost(plannedCost)}</TableCell>
+                              <TableCell className="text-right">
+                                {sprint.deliveredScope ? formatCost(plannedCost / sprint.deliveredScope) : '–'}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+
+              {result.rejected.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-lg font-medium">Rejected Rows</h3>
+                  <div className="border rounded-md max-h-[240px] overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-[80px]">Row</TableHead>
+                          <TableHead>Reason</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {result.rejected.map(row => (
+                          <TableRow key={row.rowNumber}>
+                            <TableCell>{row.rowNumber}</TableCell>
+                            <TableCell className="text-sm">
+                              {row.reasons.map(reason => (
+                                <div key={reason}>{reason}</div>
+                              ))}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!result || result.sprints.length === 0}>
+            {mode === 'merge' ? 'Merge' : 'Replace'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
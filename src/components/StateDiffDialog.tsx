@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+import { SavedState } from '@/util/stateManager';
+import { diffStates } from '@/util/stateDiff';
+
+interface StateDiffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  savedStates: SavedState[];
+}
+
+const STATUS_CLASSES = {
+  added: 'bg-green-100 text-green-800 border-green-200',
+  removed: 'bg-red-100 text-red-800 border-red-200',
+  modified: 'bg-amber-100 text-amber-800 border-amber-200'
+};
+
+const formatAxisValue = (value: number) => {
+  if (value >= 1000000) {
+    return `${(value / 1000000).toFixed(1)}M`;
+  } else if (value >= 1000) {
+    return `${(value / 1000).toFixed(1)}K`;
+  }
+  return value.toString();
+};
+
+export default function StateDiffDialog({ open, onOpenChange, savedStates }: StateDiffDialogProps) {
+  const [beforeId, setBeforeId] = useState('');
+  const [afterId, setAfterId] = useState('');
+
+  // Compare the two most recent saves by default
+  useEffect(() => {
+    if (!open) return;
+    const byDate = [...savedStates].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    setAfterId(byDate[0]?.id ?? '');
+    setBeforeId(byDate[1]?.id ?? '');
+  }, [open, savedStates]);
+
+  const before = savedStates.find(state => state.id === beforeId);
+  const after = savedStates.find(state => state.id === afterId);
+  const diff = before && after ? diffStates(before, after) : null;
+  const currency = after?.budgetParams.currency || '$';
+
+  const formatDelta = (value: number, unit: 'hours' | 'cost') => {
+    if (value === 0) return '–';
+    const sign = value > 0 ? '+' : '-';
+    const amount = Math.round(Math.abs(value)).toLocaleString();
+    return unit === 'cost' ? `${sign}${currency}${amount}` : `${sign}${amount} h`;
+  };
+  const deltaClass = (value: number) => (value > 0 ? 'text-red-600' : value < 0 ? 'text-green-600' : 'text-muted-foreground');
+
+  const renderStateSelect = (id: string, value: string, onChange: (value: string) => void, label: string) => (
+    <div className="space-y-2 flex-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Select a saved state" />
+        </SelectTrigger>
+        <SelectContent>
+          {savedStates.map(state => (
+            <SelectItem key={state.id} value={state.id}>
+              {state.name} ({new Date(state.date).toLocaleString()})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare Saved States</DialogTitle>
+          <DialogDescription>
+            See what changed between two saves. Hours and costs are actual up to the current iteration and planned after it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-4">
+          {renderStateSelect('diff-before', beforeId, setBeforeId, 'Before')}
+          {renderStateSelect('diff-after', afterId, setAfterId, 'After')}
+        </div>
+
+        {diff ? (
+          <div className="space-y-6 py-2">
+            <div className="space-y-2">
+              <h3 className="text-lg font-medium">Budget Parameters</h3>
+              {diff.paramChanges.length > 0 ? (
+                <div className="border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Parameter</TableHead>
+                        <TableHead>Before</TableHead>
+                        <TableHead>After</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {diff.paramChanges.map(change => (
+                        <TableRow key={change.field}>
+                          <TableCell className="font-medium">{change.label}</TableCell>
+                          <TableCell className="text-muted-foreground">{change.before}</TableCell>
+                          <TableCell>{change.after}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No parameter changes.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-medium">Iterations</h3>
+              {diff.iterationChanges.length > 0 ? (
+                <div className="border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Iteration #</TableHead>
+                        <TableHead>Change</TableHead>
+                        <TableHead>Fields</TableHead>
+                        <TableHead className="text-right">Hours</TableHead>
+                        <TableHead className="text-right">Hours Δ</TableHead>
+                        <TableHead className="text-right">Cost ({currency})</TableHead>
+                        <TableHead className="text-right">Cost Δ</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {diff.iterationChanges.map(change => (
+                        <TableRow key={change.iterationNumber}>
+                          <TableCell>{change.iterationNumber}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={STATUS_CLASSES[change.status]}>{change.status}</Badge>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {change.changedFields.length > 0 ? change.changedFields.join(', ') : change.status === 'modified' ? 'Cost only' : '–'}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {change.hoursBefore?.toLocaleString() ?? '–'} → {change.hoursAfter?.toLocaleString() ?? '–'}
+                          </TableCell>
+                          <TableCell className={`text-right whitespace-nowrap ${deltaClass(change.hoursDelta)}`}>
+                            {formatDelta(change.hoursDelta, 'hours')}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {change.costBefore !== undefined ? Math.round(change.costBefore).toLocaleString() : '–'} → {change.costAfter !== undefined ? Math.round(change.costAfter).toLocaleString() : '–'}
+                          </TableCell>
+                          <TableCell className={`text-right whitespace-nowrap ${deltaClass(change.costDelta)}`}>
+                            {formatDelta(change.costDelta, 'cost')}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No iteration changes.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-medium">Actual Cumulative Cost</h3>
+              <ChartContainer
+                config={{
+                  before: { label: 'Before', color: '#94a3b8' },
+                  after: { label: 'After', color: '#f59e0b' }
+                }}
+                className="min-h-[300px] w-full"
+              >
+                <ResponsiveContainer width="100%" height="100%" minHeight={300}>
+                  <LineChart data={diff.chartData} margin={{ top: 10, right: 30, left: 0, bottom: 50 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" angle={-45} textAnchor="end" height={60} tick={{ fontSize: 10 }} />
+                    <YAxis domain={[0, 'auto']} tickFormatter={formatAxisValue} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line type="monotone" dataKey="before" stroke="#94a3b8" strokeWidth={2} strokeDasharray="6 4" dot={false} name={`Before: ${before?.name}`} />
+                    <Line type="monotone" dataKey="after" stroke="#f59e0b" strokeWidth={2} dot={false} name={`After: ${after?.name}`} />
+                    <Legend />
+                  </LineChart>
+                </ResponsiveContainer>
+              </ChartContainer>
+            </div>
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-4">
+            {savedStates.length < 2 ? 'Save at least two states to compare them.' : 'Select two saved states to compare.'}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
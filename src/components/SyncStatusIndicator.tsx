@@ -0,0 +1,37 @@
+import React from 'react';
+import { Cloud, CloudOff, CloudUpload, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useSync } from '@/contexts/SyncContext';
+
+export default function SyncStatusIndicator() {
+  const { status, pendingCount, lastSyncedAt, syncNow } = useSync();
+
+  const changes = `${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'}`;
+  const label = {
+    offline: pendingCount > 0 ? `Offline, ${changes} queued` : 'Offline',
+    syncing: 'Syncing...',
+    pending: `${changes} to sync`,
+    synced: 'Synced'
+  }[status];
+  const title = status === 'pending'
+    ? 'Click to sync now'
+    : lastSyncedAt
+      ? `Last synced ${lastSyncedAt.toLocaleTimeString()}`
+      : 'Saved states are synced with your account';
+
+  const Icon = { offline: CloudOff, syncing: RefreshCw, pending: CloudUpload, synced: Cloud }[status];
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => syncNow()}
+      disabled={status !== 'pending'}
+      title={title}
+      className={status === 'offline' ? 'text-amber-600' : 'text-muted-foreground'}
+    >
+      <Icon className={`h-4 w-4 mr-2 ${status === 'syncing' ? 'animate-spin' : ''}`} />
+      <span className="hidden sm:inline">{label}</span>
+    </Button>
+  );
+}
@@ -0,0 +1,350 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { BudgetParams, ColumnMapping, ImportDateFormat, IterationData, TimesheetImportResult, TimesheetMatchBy, TimesheetPreset } from '@/types/budget';
+import { CsvImportFile } from '@/components/CsvImportDialog';
+import { formatDateRange } from '@/util/calendar';
+import { IMPORT_DATE_FORMATS } from '@/util/csvImport';
+import {
+  BUILT_IN_TIMESHEET_PRESETS,
+  TIMESHEET_IMPORT_FIELDS,
+  deleteTimesheetPreset,
+  detectTimesheetPreset,
+  getCustomTimesheetPresets,
+  getPresetMapping,
+  getUnmappedTimesheetFields,
+  importTimesheet,
+  saveTimesheetPreset
+} from '@/util/timesheetImport';
+
+interface TimesheetImportDialogProps {
+  file: CsvImportFile | null;
+  onOpenChange: (open: boolean) => void;
+  budgetParams: BudgetParams;
+  iterations: IterationData[];
+  onApply: (result: TimesheetImportResult) => void;
+}
+
+const NOT_MAPPED = '__none__';
+
+const formatHours = (hours: number) => hours.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export default function TimesheetImportDialog({
+  file,
+  onOpenChange,
+  budgetParams,
+  iterations,
+  onApply
+}: TimesheetImportDialogProps) {
+  const [presets, setPresets] = useState<TimesheetPreset[]>(BUILT_IN_TIMESHEET_PRESETS);
+  const [presetId, setPresetId] = useState<string>(BUILT_IN_TIMESHEET_PRESETS[0].id);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('yyyy-MM-dd');
+  const [matchBy, setMatchBy] = useState<TimesheetMatchBy>('dates');
+  const [presetName, setPresetName] = useState('');
+
+  const headers = file?.headers ?? [];
+
+  const applyPreset = (preset: TimesheetPreset, fileHeaders: string[]) => {
+    const presetMapping = getPresetMapping(preset, fileHeaders);
+    setPresetId(preset.id);
+    setMapping(presetMapping);
+    setDateFormat(preset.dateFormat);
+    // Sprint labels are only used when the file has no dates
+    setMatchBy(!presetMapping.date && presetMapping.sprint ? 'sprint' : 'dates');
+  };
+
+  // Pick the preset that fits the columns of the file whenever a file is picked
+  useEffect(() => {
+    if (!file) return;
+    const allPresets = [...BUILT_IN_TIMESHEET_PRESETS, ...getCustomTimesheetPresets()];
+    setPresets(allPresets);
+    applyPreset(detectTimesheetPreset(allPresets, file.headers), file.headers);
+  }, [file]);
+
+  const handlePresetChange = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (preset) applyPreset(preset, headers);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      toast.error('Please enter a name for the preset');
+      return;
+    }
+    const preset = saveTimesheetPreset(name, mapping, dateFormat);
+    setPresets([...BUILT_IN_TIMESHEET_PRESETS, ...getCustomTimesheetPresets()]);
+    setPresetId(preset.id);
+    setPresetName('');
+    toast.success(`Saved preset "${name}"`);
+  };
+
+  const handleDeletePreset = () => {
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset || preset.builtIn) return;
+    deleteTimesheetPreset(preset.id);
+    setPresets([...BUILT_IN_TIMESHEET_PRESETS, ...getCustomTimesheetPresets()]);
+    setPresetId(BUILT_IN_TIMESHEET_PRESETS[0].id);
+    toast.success(`Deleted preset "${preset.name}"`);
+  };
+
+  const selectedPreset = presets.find(p => p.id === presetId);
+  const unmappedRequired = getUnmappedTimesheetFields(mapping, matchBy);
+  const result = file && unmappedRequired.length === 0
+    ? importTimesheet(file.rows, mapping, dateFormat, matchBy, budgetParams, iterations)
+    : null;
+
+  const handleApply = () => {
+    if (!result) return;
+    onApply(result);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Timesheet {file?.fileName}</DialogTitle>
+          <DialogDescription>
+            Hours are added up per iteration and replace the actual hours of every iteration they fall into.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="timesheet-preset">Export format</Label>
+              <div className="flex gap-2">
+                <Select value={presetId} onValueChange={handlePresetChange}>
+                  <SelectTrigger id="timesheet-preset">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {presets.map(preset => (
+                      <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedPreset && !selectedPreset.builtIn && (
+                  <Button variant="ghost" onClick={handleDeletePreset}>
+                    Delete
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="timesheet-date-format">Date format</Label>
+              <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as ImportDateFormat)}>
+                <SelectTrigger id="timesheet-date-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_DATE_FORMATS.map(format => (
+                    <SelectItem key={format.value} value={format.value}>{format.value} ({format.label})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Match rows to iterations by</Label>
+            <RadioGroup value={matchBy} onValueChange={(value) => setMatchBy(value as TimesheetMatchBy)} className="flex gap-6">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="dates" id="timesheet-match-dates" />
+                <Label htmlFor="timesheet-match-dates" className="font-normal">Date within the iteration</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="sprint" id="timesheet-match-sprint" />
+                <Label htmlFor="timesheet-match-sprint" className="font-normal">Iteration number in the sprint label</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-lg font-medium">Columns</h3>
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Column in file</TableHead>
+                    <TableHead>First value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {TIMESHEET_IMPORT_FIELDS.map(field => {
+                    const header = mapping[field.key];
+                    return (
+                      <TableRow key={field.key}>
+                        <TableCell className="font-medium">
+                          {field.label}
+                          {unmappedRequired.includes(field) && <span className="text-red-600"> *</span>}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={header ?? NOT_MAPPED}
+                            onValueChange={(value) => setMapping(prev => ({ ...prev, [field.key]: value === NOT_MAPPED ? null : value }))}
+                          >
+                            <SelectTrigger className="h-8 min-w-[180px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                              {headers.map(h => (
+                                <SelectItem key={h} value={h}>{h}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {header ? file?.rows[0]?.[header] || '–' : '–'}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Preset name"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                className="max-w-[240px]"
+              />
+              <Button variant="outline" onClick={handleSavePreset}>
+                Save as Preset
+              </Button>
+            </div>
+          </div>
+
+          {unmappedRequired.length > 0 ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                Map a column to {unmappedRequired.map(field => field.label).join(', ')} to import.
+              </AlertDescription>
+            </Alert>
+          ) : result && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">
+                  {formatHours(result.matchedHours)} of {formatHours(result.totalHours)} hours matched to {result.summaries.length} iterations
+                </Badge>
+                {result.unmatched.length > 0 && (
+                  <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-200">
+                    {result.unmatched.length} {result.unmatched.length === 1 ? 'row' : 'rows'} outside every iteration
+                  </Badge>
+                )}
+                {result.rejected.length > 0 && (
+                  <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">
+                    {result.rejected.length} {result.rejected.length === 1 ? 'row' : 'rows'} rejected
+                  </Badge>
+                )}
+              </div>
+
+              {result.warnings.map(warning => (
+                <Alert key={warning}>
+                  <AlertDescription>{warning}</AlertDescription>
+                </Alert>
+              ))}
+
+              {result.summaries.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-lg font-medium">Reconciliation</h3>
+                  <div className="border rounded-md overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Iteration #</TableHead>
+                          <TableHead>Dates</TableHead>
+                          <TableHead className="text-right">Entries</TableHead>
+                          <TableHead className="text-right">People</TableHead>
+                          <TableHead className="text-right">Planned Hours</TableHead>
+                          <TableHead className="text-right">Current Actual</TableHead>
+                          <TableHead className="text-right">Imported Hours</TableHead>
+                          <TableHead className="text-right">vs Planned</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {result.summaries.map(summary => {
+                          const variance = summary.importedHours - summary.plannedHours;
+                          return (
+                            <TableRow key={summary.iterationNumber}>
+                              <TableCell>{summary.iterationNumber}</TableCell>
+                              <TableCell className="text-sm">{formatDateRange(summary.startDate, summary.endDate) || '–'}</TableCell>
+                              <TableCell className="text-right">{summary.entryCount}</TableCell>
+                              <TableCell className="text-right" title={summary.people.join(', ')}>
+                                {summary.people.length || '–'}
+                              </TableCell>
+                              <TableCell className="text-right">{formatHours(summary.plannedHours)}</TableCell>
+                              <TableCell className="text-right">
+                                {summary.previousActualHours !== undefined ? formatHours(summary.previousActualHours) : '–'}
+                              </TableCell>
+                              <TableCell className="text-right font-medium">{formatHours(summary.importedHours)}</TableCell>
+                              <TableCell className={`text-right ${variance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                {variance > 0 ? '+' : ''}{formatHours(variance)}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+
+              {[...result.unmatched, ...result.rejected].length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-lg font-medium">Rows Not Imported</h3>
+                  <div className="border rounded-md max-h-[240px] overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-[80px]">Row</TableHead>
+                          <TableHead>Reason</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {[...result.unmatched, ...result.rejected]
+                          .sort((a, b) => a.rowNumber - b.rowNumber)
+                          .map(row => (
+                            <TableRow key={row.rowNumber}>
+                              <TableCell>{row.rowNumber}</TableCell>
+                              <TableCell className="text-sm">
+                                {row.reasons.map(reason => (
+                                  <div key={reason}>{reason}</div>
+                                ))}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!result || result.summaries.length === 0}>
+            Fill Actual Hours
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { RetentionSettings } from '@/types/budget';
+import { useAuth } from '@/contexts/AuthContext';
+import { getTrashedStates, restoreFromTrash, deleteFromTrash, TrashedState } from '@/util/stateManager';
+import { getRetentionSettings, saveRetentionSettings } from '@/util/settingsManager';
+
+interface TrashDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: () => void;
+}
+
+const KEEP_FOREVER = 'forever';
+const RETENTION_OPTIONS = [30, 90, 180, 365];
+const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
+const formatDays = (days: number) => (days % 365 === 0 ? `${days / 365} year${days > 365 ? 's' : ''}` : `${days} days`);
+
+export default function TrashDialog({ open, onOpenChange, onRestored }: TrashDialogProps) {
+  const { user } = useAuth();
+  const [trashedStates, setTrashedStates] = useState<TrashedState[]>([]);
+  const [settings, setSettings] = useState<RetentionSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchTrash = async () => {
+      setIsLoading(true);
+      try {
+        const [states, retentionSettings] = await Promise.all([
+          getTrashedStates(user?.id),
+          user ? getRetentionSettings() : Promise.resolve(null),
+        ]);
+        setTrashedStates(states);
+        setSettings(retentionSettings);
+      } catch (error) {
+        console.error('Error loading trash:', error);
+        toast.error('Failed to load trash');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTrash();
+  }, [open, user]);
+
+  const handleRestore = async (state: TrashedState) => {
+    setIsLoading(true);
+    try {
+      if (await restoreFromTrash(state.id, user?.id)) {
+        setTrashedStates(prev => prev.filter(trashedState => trashedState.id !== state.id));
+        onRestored();
+        toast.success(`Restored "${state.name}"`);
+      } else {
+        toast.error('Failed to restore state');
+      }
+    } catch (error) {
+      console.error('Error restoring state:', error);
+      toast.error('Failed to restore state');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteForever = async (state: TrashedState) => {
+    setIsLoading(true);
+    try {
+      if (await deleteFromTrash(state.id, user?.id)) {
+        setTrashedStates(prev => prev.filter(trashedState => trashedState.id !== state.id));
+        toast.success(`Deleted "${state.name}" permanently`);
+      } else {
+        toast.error('Failed to delete state');
+      }
+    } catch (error) {
+      console.error('Error deleting state:', error);
+      toast.error('Failed to delete state');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSettingsChange = async (changes: Partial<RetentionSettings>) => {
+    if (!settings) return;
+
+    try {
+      setSettings(await saveRetentionSettings({ ...settings, ...changes }));
+      toast.success('Retention settings saved');
+    } catch (error) {
+      console.error('Error saving retention settings:', error);
+      toast.error('Failed to save retention settings');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted states stay here until they are deleted permanently, and can be restored until then.
+          </DialogDescription>
+        </DialogHeader>
+
+        {settings && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pb-4 border-b border-border">
+            <div className="space-y-2">
+              <Label htmlFor="retention-days">Move unpinned states to the trash</Label>
+              <Select
+                value={settings.retentionDays === null ? KEEP_FOREVER : settings.retentionDays.toString()}
+                onValueChange={(value) => handleSettingsChange({ retentionDays: value === KEEP_FOREVER ? null : parseInt(value, 10) })}
+              >
+                <SelectTrigger id="retention-days">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP_FOREVER}>Never (keep forever)</SelectItem>
+                  {RETENTION_OPTIONS.map(days => (
+                    <SelectItem key={days} value={days.toString()}>Not saved for {formatDays(days)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trash-retention-days">Delete permanently after</Label>
+              <Select
+                value={settings.trashRetentionDays.toString()}
+                onValueChange={(value) => handleSettingsChange({ trashRetentionDays: parseInt(value, 10) })}
+              >
+                <SelectTrigger id="trash-retention-days">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from(new Set([...TRASH_RETENTION_OPTIONS, settings.trashRetentionDays])).sort((a, b) => a - b).map(days => (
+                    <SelectItem key={days} value={days.toString()}>{formatDays(days)} in the trash</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <div className="py-2 max-h-[400px] overflow-y-auto">
+          {isLoading && trashedStates.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">
+              Loading trash...
+            </p>
+          ) : trashedStates.length > 0 ? (
+            <div className="space-y-2">
+              {trashedStates.map(state => (
+                <div key={state.id} className="p-3 border rounded-md flex justify-between items-center gap-2">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium">{state.name}</h4>
+                      {state.storage === 'local' && <Badge variant="outline" className="text-xs">Local</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Deleted {new Date(state.deletedAt).toLocaleString()}
+                      {state.expiresAt && `, removed after ${new Date(state.expiresAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="outline" size="sm" onClick={() => handleRestore(state)} disabled={isLoading}>
+                      Restore
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteForever(state)} disabled={isLoading}>
+                      Delete Forever
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-muted-foreground py-4">
+              The trash is empty.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { SavedState, restoreSavedStates } from '@/util/stateManager';
+import {
+  ParsedWorkspaceBackup,
+  WORKSPACE_BACKUP_SCHEMA_PATH,
+  createWorkspaceBackup,
+  parseWorkspaceBackup,
+  restoreWorkspaceSettings
+} from '@/util/workspaceBackup';
+
+interface WorkspaceBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  savedStates: SavedState[];
+  onRestored: () => void;
+}
+
+export default function WorkspaceBackupDialog({ open, onOpenChange, savedStates, onRestored }: WorkspaceBackupDialogProps) {
+  const { user } = useAuth();
+  const [backup, setBackup] = useState<ParsedWorkspaceBackup | null>(null);
+  const [selectedIndexes, setSelectedIndexes] = useState<number[]>([]);
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const [includeSettings, setIncludeSettings] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Start over each time the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setBackup(null);
+      setSelectedIndexes([]);
+    }
+  }, [open]);
+
+  const handleDownload = async () => {
+    setIsLoading(true);
+    try {
+      const backupDocument = await createWorkspaceBackup(user?.id);
+      const blob = new Blob([JSON.stringify(backupDocument, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', `budget-workspace-${backupDocument.exportedAt.slice(0, 10)}.json`);
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Backed up ${backupDocument.states.length} saved ${backupDocument.states.length === 1 ? 'state' : 'states'}`);
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create backup');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const parsed = parseWorkspaceBackup(await file.text());
+    setBackup(parsed);
+    setSelectedIndexes(parsed.states.filter(entry => entry.state).map(entry => entry.index));
+    setIncludeSettings(!!parsed.settings);
+    e.target.value = '';
+  };
+
+  const toggleSelected = (index: number, checked: boolean) => {
+    setSelectedIndexes(prev => (checked ? [...prev, index] : prev.filter(i => i !== index)));
+  };
+
+  const existingIds = new Set(savedStates.map(state => state.id));
+  const validEntries = backup?.states.filter(entry => entry.state) ?? [];
+  const hasSettings = !!backup?.settings && (backup.settings.timesheetPresets.length > 0 || !!backup.settings.retention);
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    setIsLoading(true);
+    try {
+      const states = validEntries
+        .filter(entry => selectedIndexes.includes(entry.index))
+        .map(entry => entry.state!);
+      const restored = await restoreSavedStates(states, replaceExisting, user?.id);
+      if (includeSettings && backup.settings) {
+        await restoreWorkspaceSettings(backup.settings, user?.id);
+      }
+
+      onRestored();
+      onOpenChange(false);
+      const localOnly = restored.filter(state => state.storage === 'local').length;
+      toast.success(`Restored ${restored.length} ${restored.length === 1 ? 'state' : 'states'}${includeSettings && hasSettings ? ' and settings' : ''}`);
+      if (user && localOnly > 0) {
+        toast.warning(`${localOnly} restored ${localOnly === 1 ? 'state was' : 'states were'} only saved in this browser`);
+      }
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast.error('Failed to restore backup');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Workspace Backup</DialogTitle>
+          <DialogDescription>
+            Move every saved state and your settings to another browser or account as a single JSON file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-2 pb-4 border-b border-border">
+            <h3 className="text-lg font-medium">Back Up</h3>
+            <p className="text-sm text-muted-foreground">
+              Includes the current version of {savedStates.length} saved {savedStates.length === 1 ? 'state' : 'states'}
+              {user ? ', your retention settings' : ''} and your timesheet presets. Revision history isn&apos;t included.
+              The file follows the <a href={WORKSPACE_BACKUP_SCHEMA_PATH} target="_blank" rel="noreferrer" className="underline">published schema</a>.
+            </p>
+            <Button onClick={handleDownload} disabled={isLoading}>
+              Download Backup
+            </Button>
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium">Restore</h3>
+            <Input type="file" accept=".json,application/json" onChange={handleFileChange} disabled={isLoading} />
+
+            {backup && backup.errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>{backup.errors.join('. ')}</AlertDescription>
+              </Alert>
+            )}
+
+            {backup && backup.errors.length === 0 && (
+              <>
+                {backup.exportedAt && (
+                  <p className="text-sm text-muted-foreground">
+                    Backed up {new Date(backup.exportedAt).toLocaleString()}
+                  </p>
+                )}
+
+                <div className="max-h-[280px] overflow-y-auto space-y-2">
+                  {backup.states.length === 0 && (
+                    <p className="text-center text-muted-foreground py-4">The backup has no saved states.</p>
+                  )}
+                  {backup.states.map(entry => (
+                    <div key={entry.index} className="p-3 border rounded-md flex items-start gap-3">
+                      <Checkbox
+                        id={`backup-state-${entry.index}`}
+                        checked={selectedIndexes.includes(entry.index)}
+                        onCheckedChange={(checked) => toggleSelected(entry.index, checked === true)}
+                        disabled={!entry.state || isLoading}
+                        className="mt-1"
+                      />
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2">
+                          <Label htmlFor={`backup-state-${entry.index}`} className="font-medium">{entry.name}</Label>
+                          {entry.state && existingIds.has(entry.state.id) && (
+                            <Badge variant="outline" className="text-xs">In this workspace</Badge>
+                          )}
+                          {entry.state?.pinned && <Badge variant="secondary" className="text-xs">Pinned</Badge>}
+                        </div>
+                        {entry.state ? (
+                          <p className="text-sm text-muted-foreground">
+                            Saved {new Date(entry.state.date).toLocaleString()}, {entry.state.iterations.length} iterations
+                          </p>
+                        ) : (
+                          <div className="text-sm text-red-600">
+                            {entry.errors.map(error => (
+                              <div key={error}>{error}</div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {validEntries.some(entry => existingIds.has(entry.state!.id)) && (
+                  <div className="space-y-2">
+                    <Label>States already in this workspace</Label>
+                    <RadioGroup
+                      value={replaceExisting ? 'replace' : 'copy'}
+                      onValueChange={(value) => setReplaceExisting(value === 'replace')}
+                    >
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="copy" id="backup-keep-both" />
+                        <Label htmlFor="backup-keep-both" className="font-normal">Keep both, restoring the backup as a copy</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="replace" id="backup-replace" />
+                        <Label htmlFor="backup-replace" className="font-normal">Replace them, keeping the current version in their history</Label>
+                      </div>
+                    </RadioGroup>
+                  </div>
+                )}
+
+                {hasSettings && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="backup-settings"
+                      checked={includeSettings}
+                      onCheckedChange={(checked) => setIncludeSettings(checked === true)}
+                      disabled={isLoading}
+                    />
+                    <Label htmlFor="backup-settings" className="font-normal">
+                      Restore settings ({backup.settings!.timesheetPresets.length} timesheet presets
+                      {backup.settings!.retention ? (user ? ', retention settings' : '; retention settings need you to be logged in') : ''})
+                    </Label>
+                  </div>
+                )}
+                {backup.settingsErrors.length > 0 && (
+                  <Alert>
+                    <AlertDescription>
+                      The settings can&apos;t be restored: {backup.settingsErrors.join(', ')}
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            Close
+          </Button>
+          <Button
+            onClick={handleRestore}
+            disabled={isLoading || !backup || backup.errors.length > 0 || (selectedIndexes.length === 0 && !(includeSettings && hasSettings))}
+          >
+            Restore {selectedIndexes.length} {selectedIndexes.length === 1 ? 'State' : 'States'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
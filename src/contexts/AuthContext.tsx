@@ -2,19 +2,27 @@ import React, { createContext, useContext, useState, useEffect } from 'react';
 
 type User = {
   id: string;
+  username: string;
+};
+
+type RegisterResult = {
+  success: boolean;
+  error?: string;
 };
 
 type AuthContextType = {
   user: User | null;
   login: (username: string, password: string) => Promise<boolean>;
-  logout: () => void;
+  register: (username: string, password: string) => Promise<RegisterResult>;
+  logout: () => Promise<void>;
   isAuthenticated: boolean;
 };
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
   login: async () => false,
-  logout: () => {},
+  register: async () => ({ success: false }),
+  logout: async () => {},
   isAuthenticated: false,
 });
 
@@ -24,41 +32,76 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
 
-  // Check if user is already logged in from localStorage
+  // Restore the user from the session cookie, if there is one
   useEffect(() => {
-    const storedUser = localStorage.getItem('budget-app-user');
-    if (storedUser) {
+    const fetchSessionUser = async () => {
       try {
-        setUser(JSON.parse(storedUser));
-        setIsAuthenticated(true);
+        const response = await fetch('/api/auth/me');
+        if (response.ok) {
+          const result = await response.json();
+          setUser(result.user);
+          setIsAuthenticated(true);
+        }
       } catch (error) {
-        console.error('Error parsing stored user:', error);
-        localStorage.removeItem('budget-app-user');
+        console.error('Error restoring session:', error);
       }
-    }
+    };
+
+    fetchSessionUser();
   }, []);
 
   const login = async (username: string, password: string): Promise<boolean> => {
-    // Hardcoded credentials as requested
-    if (username === 'IziDrop' && password === 'HX6;D]xtyC`YFR"48nr/hv') {
-      const user = { id: 'IziDrop' };
-      setUser(user);
-      setIsAuthenticated(true);
-      localStorage.setItem('budget-app-user', JSON.stringify(user));
-      return true;
+    const response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ username, password }),
+    });
+
+    if (!response.ok) {
+      return false;
+    }
+
+    const result = await response.json();
+    setUser(result.user);
+    setIsAuthenticated(true);
+    return true;
+  };
+
+  const register = async (username: string, password: string): Promise<RegisterResult> => {
+    const response = await fetch('/api/auth/register', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ username, password }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: result.error };
     }
-    return false;
+
+    setUser(result.user);
+    setIsAuthenticated(true);
+    return { success: true };
   };
 
-  const logout = () => {
+  const logout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Error logging out:', error);
+    }
     setUser(null);
     setIsAuthenticated(false);
-    localStorage.removeItem('budget-app-user');
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, logout, isAuthenticated }}>
+    <AuthContext.Provider value={{ user, login, register, logout, isAuthenticated }}>
       {children}
     </AuthContext.Provider>
   );
-};
\ No newline at end of file
+};
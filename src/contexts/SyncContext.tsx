@@ -0,0 +1,125 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { replayPendingOperations } from '@/util/stateManager';
+import { getPendingOperations, SyncConflict, SYNC_CONFLICT_EVENT, SYNC_QUEUE_EVENT } from '@/util/syncQueue';
+
+export type SyncStatus = 'offline' | 'syncing' | 'pending' | 'synced';
+
+type SyncContextType = {
+  status: SyncStatus;
+  pendingCount: number;
+  lastSyncedAt: Date | null;
+  syncNow: () => Promise<void>;
+};
+
+// How often queued changes are retried while the server can't be reached
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+const SyncContext = createContext<SyncContextType>({
+  status: 'synced',
+  pendingCount: 0,
+  lastSyncedAt: null,
+  syncNow: async () => {},
+});
+
+export const useSync = () => useContext(SyncContext);
+
+export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+  const syncingRef = useRef(false);
+
+  const refreshPendingCount = useCallback(async () => {
+    if (!user) {
+      setPendingCount(0);
+      return;
+    }
+
+    try {
+      setPendingCount((await getPendingOperations(user.id)).length);
+    } catch (error) {
+      console.error('Error reading sync queue:', error);
+    }
+  }, [user]);
+
+  // Replay queued changes; only one replay runs at a time
+  const syncNow = useCallback(async () => {
+    if (!user || syncingRef.current || !navigator.onLine) return;
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const { replayed, remaining } = await replayPendingOperations(user.id);
+      if (remaining === 0) {
+        setLastSyncedAt(new Date());
+      }
+      if (replayed > 0 && remaining === 0) {
+        toast.success(`Synced ${replayed} offline ${replayed === 1 ? 'change' : 'changes'}`);
+      }
+    } catch (error) {
+      console.error('Error replaying sync queue:', error);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+      await refreshPendingCount();
+    }
+  }, [user, refreshPendingCount]);
+
+  // Follow the connection and the queue, replaying when back online
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+    const handleQueueChanged = () => {
+      refreshPendingCount();
+    };
+    const handleConflict = (event: Event) => {
+      const conflict = (event as CustomEvent<SyncConflict>).detail;
+      if (conflict.type === 'delete') {
+        toast.warning(`"${conflict.name}" was changed on another device, so it was not deleted`);
+      } else {
+        toast.warning(`"${conflict.name}" was changed on another device. Your version was saved as "${conflict.copyName}"`);
+      }
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener(SYNC_QUEUE_EVENT, handleQueueChanged);
+    window.addEventListener(SYNC_CONFLICT_EVENT, handleConflict);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener(SYNC_QUEUE_EVENT, handleQueueChanged);
+      window.removeEventListener(SYNC_CONFLICT_EVENT, handleConflict);
+    };
+  }, [syncNow, refreshPendingCount]);
+
+  // Replay changes queued in an earlier session after logging in
+  useEffect(() => {
+    syncNow();
+  }, [syncNow]);
+
+  // Keep retrying while changes are queued, e.g. when the server was down
+  useEffect(() => {
+    if (!isOnline || pendingCount === 0) return;
+
+    const interval = setInterval(syncNow, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOnline, pendingCount, syncNow]);
+
+  const status: SyncStatus = !isOnline ? 'offline' : isSyncing ? 'syncing' : pendingCount > 0 ? 'pending' : 'synced';
+
+  return (
+    <SyncContext.Provider value={{ status, pendingCount, lastSyncedAt, syncNow }}>
+      {children}
+    </SyncContext.Provider>
+  );
+};
@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from 'react';
+import { BudgetParams, IterationData, MonteCarloForecast } from '@/types/budget';
+import type { MonteCarloResponse } from '@/workers/monteCarlo.worker';
+
+// Wait for edits to settle before starting a new simulation
+const DEBOUNCE_MS = 300;
+
+const useMonteCarloForecast = (budgetParams: BudgetParams, iterations: IterationData[]) => {
+  const workerRef = useRef<Worker | null>(null);
+  const latestRequestRef = useRef(0);
+  const [forecast, setForecast] = useState<MonteCarloForecast | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') {
+      setError('Forecasts need a browser that supports Web Workers');
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<MonteCarloResponse>) => {
+      // Ignore results of simulations superseded by a newer request
+      if (event.data.requestId !== latestRequestRef.current) return;
+
+      if (event.data.error) {
+        console.error('Monte Carlo forecast failed:', event.data.error);
+      }
+      setError(event.data.error ? 'The forecast could not be calculated' : null);
+      setForecast(event.data.forecast ?? null);
+      setIsRunning(false);
+    };
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // The worker is created by the effect above, which runs first
+  useEffect(() => {
+    if (!workerRef.current) return;
+
+    const requestId = ++latestRequestRef.current;
+    setIsRunning(true);
+
+    const timeout = setTimeout(() => {
+      workerRef.current?.postMessage({ requestId, budgetParams, iterations });
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [budgetParams, iterations]);
+
+  return {
+    forecast,
+    isRunning,
+    error,
+  };
+};
+
+export { useMonteCarloForecast };
@@ -0,0 +1,107 @@
+import { randomBytes, scrypt, timingSafeEqual, createHash } from 'crypto';
+import { promisify } from 'util';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '@/lib/prisma';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'budget-app-session';
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30; // 30 days
+const KEY_LENGTH = 64;
+
+export type SessionUser = {
+  id: string;
+  username: string;
+};
+
+// Hash a password with a random salt. The result is stored as "salt:hash" (hex).
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const derivedKey = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt.toString('hex')}:${derivedKey.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [saltHex, keyHex] = storedHash.split(':');
+  if (!saltHex || !keyHex) return false;
+
+  const storedKey = Buffer.from(keyHex, 'hex');
+  const derivedKey = await scryptAsync(password, Buffer.from(saltHex, 'hex'), storedKey.length);
+  return timingSafeEqual(storedKey, derivedKey);
+}
+
+// Session tokens are only ever stored hashed, so a database leak does not
+// expose usable cookies
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const serializeSessionCookie = (value: string, maxAge: number) => {
+  const parts = [
+    `${SESSION_COOKIE}=${value}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${maxAge}`,
+  ];
+  if (process.env.NODE_ENV === 'production') {
+    parts.push('Secure');
+  }
+  return parts.join('; ');
+};
+
+// Create a session for the user and set the session cookie on the response
+export async function createSession(res: NextApiResponse, userId: string): Promise<void> {
+  const token = randomBytes(32).toString('hex');
+
+  await prisma.session.create({
+    data: {
+      tokenHash: hashToken(token),
+      userId,
+      expiresAt: new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000),
+    },
+  });
+
+  res.setHeader('Set-Cookie', serializeSessionCookie(token, SESSION_MAX_AGE_SECONDS));
+}
+
+// Resolve the user of the session cookie, or null if there is no valid session
+export async function getSessionUser(req: NextApiRequest): Promise<SessionUser | null> {
+  const token = req.cookies[SESSION_COOKIE];
+  if (!token) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+
+  if (!session) return null;
+
+  if (session.expiresAt < new Date()) {
+    await prisma.session.delete({ where: { id: session.id } });
+    return null;
+  }
+
+  return { id: session.user.id, username: session.user.username };
+}
+
+// Delete the current session (if any) and clear the session cookie
+export async function destroySession(req: NextApiRequest, res: NextApiResponse): Promise<void> {
+  const token = req.cookies[SESSION_COOKIE];
+  if (token) {
+    await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+  }
+
+  res.setHeader('Set-Cookie', serializeSessionCookie('', 0));
+}
+
+// Resolve the session user, or respond with 401 and return null. API routes
+// must use this instead of trusting a userId sent by the client.
+export async function requireSessionUser(req: NextApiRequest, res: NextApiResponse): Promise<SessionUser | null> {
+  const user = await getSessionUser(req);
+
+  if (!user) {
+    res.status(401).json({ error: 'Not authenticated' });
+    return null;
+  }
+
+  return user;
+}
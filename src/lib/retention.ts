@@ -0,0 +1,70 @@
+import prisma from '@/lib/prisma';
+import { RetentionSettings } from '@/types/budget';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Users who haven't chosen settings keep their states until they delete them
+export const DEFAULT_RETENTION_SETTINGS: RetentionSettings = {
+  retentionDays: null,
+  trashRetentionDays: 30,
+};
+
+export const MAX_RETENTION_DAYS = 3650;
+
+export async function getRetentionSettings(userId: string): Promise<RetentionSettings> {
+  const settings = await prisma.userSettings.findUnique({ where: { userId } });
+  if (!settings) return DEFAULT_RETENTION_SETTINGS;
+
+  return {
+    retentionDays: settings.retentionDays,
+    trashRetentionDays: settings.trashRetentionDays,
+  };
+}
+
+// When a state moved to the trash at the given time is deleted permanently
+export function getTrashExpiry(deletedAt: Date, settings: RetentionSettings): Date {
+  return new Date(deletedAt.getTime() + settings.trashRetentionDays * DAY_MS);
+}
+
+// Apply every user's retention settings: move unpinned states that haven't been
+// saved within the retention period to the trash, and permanently delete states
+// that have been in the trash longer than the trash retention period.
+export async function runRetentionCleanup(now: Date = new Date()): Promise<{ trashed: number; purged: number }> {
+  const allSettings = await prisma.userSettings.findMany();
+  let trashed = 0;
+  let purged = 0;
+
+  for (const settings of allSettings) {
+    if (settings.retentionDays !== null) {
+      const result = await prisma.savedState.updateMany({
+        where: {
+          userId: settings.userId,
+          pinned: false,
+          deletedAt: null,
+          date: { lt: new Date(now.getTime() - settings.retentionDays * DAY_MS) },
+        },
+        data: { deletedAt: now },
+      });
+      trashed += result.count;
+    }
+
+    const result = await prisma.savedState.deleteMany({
+      where: {
+        userId: settings.userId,
+        deletedAt: { lt: new Date(now.getTime() - settings.trashRetentionDays * DAY_MS) },
+      },
+    });
+    purged += result.count;
+  }
+
+  // Everyone else uses the default trash retention
+  const result = await prisma.savedState.deleteMany({
+    where: {
+      userId: { notIn: allSettings.map(settings => settings.userId) },
+      deletedAt: { lt: new Date(now.getTime() - DEFAULT_RETENTION_SETTINGS.trashRetentionDays * DAY_MS) },
+    },
+  });
+  purged += result.count;
+
+  return { trashed, purged };
+}
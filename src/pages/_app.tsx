@@ -3,6 +3,7 @@ import '../styles/globals.css';
 import { Toaster } from "@/components/ui/toaster"
 import { useEffect, useState } from 'react';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { SyncProvider } from '@/contexts/SyncContext';
 
 export default function App({ Component, pageProps }: AppProps) {
   const [mounted, setMounted] = useState(false);
@@ -27,10 +28,12 @@ export default function App({ Component, pageProps }: AppProps) {
 
   return (
     <AuthProvider>
-      <div className="min-h-screen">
-        <Component {...pageProps} />
-        <Toaster />
-      </div>
+      <SyncProvider>
+        <div className="min-h-screen">
+          <Component {...pageProps} />
+          <Toaster />
+        </div>
+      </SyncProvider>
     </AuthProvider>
   )
 }
\ No newline at end of file
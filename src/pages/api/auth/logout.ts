@@ -0,0 +1,16 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { destroySession } from '@/lib/auth';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    await destroySession(req, res);
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Error logging out:', error);
+    return res.status(500).json({ error: 'Failed to log out' });
+  }
+}
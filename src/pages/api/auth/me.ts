@@ -0,0 +1,21 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getSessionUser } from '@/lib/auth';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await getSessionUser(req);
+
+    if (!user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    return res.status(200).json({ user });
+  } catch (error) {
+    console.error('Error getting session user:', error);
+    return res.status(500).json({ error: 'Failed to get session user' });
+  }
+}
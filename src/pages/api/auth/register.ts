@@ -0,0 +1,48 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '@/lib/prisma';
+import { createSession, hashPassword } from '@/lib/auth';
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { username, password } = req.body;
+
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    if (!USERNAME_PATTERN.test(username)) {
+      return res.status(400).json({ error: 'Username must be 3-32 characters (letters, numbers, _ . -)' });
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const existingUser = await prisma.user.findUnique({ where: { username } });
+    if (existingUser) {
+      return res.status(409).json({ error: 'Username is already taken' });
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        username,
+        passwordHash: await hashPassword(password),
+      },
+    });
+
+    await createSession(res, user.id);
+
+    console.log('User registered successfully:', user.id);
+    return res.status(201).json({ user: { id: user.id, username: user.username } });
+  } catch (error) {
+    console.error('Error registering user:', error);
+    return res.status(500).json({ error: 'Failed to register user' });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { calculateBudget } from '@/util/budgetEngine';
+import { validatePlan } from '@/util/planValidation';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const plan = req.body;
+    if (!plan || typeof plan !== 'object') {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    // Also limits the plan to MAX_ITERATIONS iterations
+    const errors: string[] = [];
+    if (!validatePlan(plan, '', errors)) {
+      return res.status(400).json({ error: 'Invalid plan', details: errors });
+    }
+
+    return res.status(200).json(calculateBudget(plan.budgetParams, plan.iterations));
+  } catch (error) {
+    console.error('Error calculating budget:', error);
+    return res.status(500).json({ error: 'Failed to calculate budget' });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { runRetentionCleanup } from '@/lib/retention';
+
+// Scheduled cleanup of saved states, run daily (see vercel.json). The
+// scheduler authenticates with the CRON_SECRET environment variable.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { trashed, purged } = await runRetentionCleanup();
+
+    console.log(`Retention cleanup moved ${trashed} states to the trash and deleted ${purged} permanently`);
+    return res.status(200).json({ success: true, trashed, purged });
+  } catch (error) {
+    console.error('Error running retention cleanup:', error);
+    return res.status(500).json({ error: 'Failed to run retention cleanup' });
+  }
+}
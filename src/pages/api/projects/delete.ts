@@ -0,0 +1,37 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth';
+
+// Delete a project. Its budgets are kept and become unassigned.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
+
+    const { id } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const result = await prisma.project.deleteMany({
+      where: {
+        id,
+        userId: user.id,
+      },
+    });
+
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Error deleting project:', error);
+    return res.status(500).json({ error: 'Failed to delete project' });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth';
+import { AppState } from '@/util/stateManager';
+import { BudgetSummary } from '@/types/budget';
+import { summarizeBudget, summarizeProject } from '@/util/portfolio';
+
+// Portfolio of the user's projects, each with a summary of its budgets.
+// Budgets that are not assigned to a project are grouped under "Unassigned".
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
+
+    const [projects, savedStates] = await Promise.all([
+      prisma.project.findMany({
+        where: { userId: user.id },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.savedState.findMany({
+        where: { userId: user.id, deletedAt: null },
+        orderBy: { date: 'desc' },
+      }),
+    ]);
+
+    const budgets: BudgetSummary[] = [];
+    savedStates.forEach(savedState => {
+      const state = savedState.data as unknown as AppState;
+      if (!state?.budgetParams || !Array.isArray(state.iterations)) {
+        console.warn(`Skipping saved state ${savedState.id} without budget data`);
+        return;
+      }
+
+      // A malformed state leaves out its own budget, not the whole portfolio
+      try {
+        budgets.push(summarizeBudget({
+          id: savedState.id,
+          name: savedState.name,
+          date: savedState.date.toISOString(),
+          projectId: savedState.projectId,
+        }, state));
+      } catch (error) {
+        console.warn(`Skipping saved state ${savedState.id} that could not be summarized:`, error);
+      }
+    });
+
+    const projectSummaries = projects.map(project => summarizeProject(
+      { id: project.id, name: project.name, description: project.description },
+      budgets.filter(budget => budget.projectId === project.id)
+    ));
+
+    const unassignedBudgets = budgets.filter(budget => budget.projectId === null);
+    if (unassignedBudgets.length > 0) {
+      projectSummaries.push(summarizeProject({ id: null, name: 'Unassigned' }, unassignedBudgets));
+    }
+
+    return res.status(200).json(projectSummaries);
+  } catch (error) {
+    console.error('Error getting projects:', error);
+    return res.status(500).json({ error: 'Failed to get projects' });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth';
+
+// Create a project, or rename one when an id is given
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
+
+    const { id, name, description } = req.body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    if (id) {
+      const result = await prisma.project.updateMany({
+        where: { id, userId: user.id },
+        data: { name: name.trim(), description: description ?? null },
+      });
+
+      if (result.count === 0) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+
+      return res.status(200).json({ success: true, id });
+    }
+
+    const project = await prisma.project.create({
+      data: {
+        userId: user.id,
+        name: name.trim(),
+        description: description ?? null,
+      },
+    });
+
+    return res.status(201).json({ success: true, id: project.id });
+  } catch (error) {
+    console.error('Error saving project:', error);
+    return res.status(500).json({ error: 'Failed to save project' });
+  }
+}
@@ -0,0 +1,106 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth';
+import { BudgetParams } from '@/types/budget';
+import { calculateChartData, normalizeIterationHours } from '@/util/budgetEngine';
+import { createPDFReport } from '@/util/pdfGenerator';
+import { validatePlan } from '@/util/planValidation';
+import { parseReportTemplate } from '@/util/reportTemplates';
+import type { AppState } from '@/util/stateManager';
+
+// Build the PDF report of a saved state, given by its id, or of a state sent
+// in the body. Saved states need a session; a state in the body is reported
+// on without one, like /api/budget/calculate. The template is the id of a
+// built-in template or template settings.
+//
+// POST { id: string, template?, showDates? }
+// POST { state: AppState, template?, showDates? }
+//
+// The state is checked with validatePlan, which also limits it to
+// MAX_ITERATIONS iterations, and the body to 1 MB, enough for a state and a
+// template logo.
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '1mb',
+    },
+  },
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { id, state, template: templateSettings, showDates } = req.body ?? {};
+
+    if (!id && !state) {
+      return res.status(400).json({ error: 'Missing required fields: id or state' });
+    }
+
+    const { template, errors } = parseReportTemplate(templateSettings);
+    if (!template) {
+      return res.status(400).json({ error: 'Invalid template', details: errors });
+    }
+
+    let appState: Partial<AppState>;
+    let fileName = 'budget_report';
+
+    if (id) {
+      if (typeof id !== 'string') {
+        return res.status(400).json({ error: 'Invalid id' });
+      }
+
+      const user = await requireSessionUser(req, res);
+      if (!user) return;
+
+      // States of other users are reported as not found
+      const savedState = await prisma.savedState.findFirst({
+        where: {
+          id,
+          userId: user.id,
+          deletedAt: null,
+        },
+      });
+
+      if (!savedState) {
+        return res.status(404).json({ error: 'State not found' });
+      }
+
+      appState = savedState.data as Partial<AppState>;
+      fileName = savedState.name;
+    } else {
+      appState = state;
+    }
+
+    // A state in the body needs no session, so every number is checked
+    // before the report is built
+    if (!appState || typeof appState !== 'object') {
+      return res.status(400).json({ error: 'State must have budgetParams and iterations' });
+    }
+    const planErrors: string[] = [];
+    if (!validatePlan(appState, '', planErrors)) {
+      return res.status(400).json({ error: 'Invalid state', details: planErrors });
+    }
+    const { budgetParams, iterations, visibleChartItems } = appState;
+
+    const params: BudgetParams = { ...budgetParams, currency: budgetParams.currency || '$' };
+    const normalizedIterations = iterations.map(normalizeIterationHours);
+
+    // Chart data is recalculated rather than trusted from the state
+    const pdf = createPDFReport(params, normalizedIterations, calculateChartData(params, normalizedIterations), {
+      showDates: showDates === true,
+      visibleChartItems: Array.isArray(visibleChartItems) ? visibleChartItems : undefined,
+      template
+    });
+
+    const safeFileName = fileName.replace(/[^\w\- ]+/g, '').trim() || 'budget_report';
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${safeFileName}.pdf"`);
+    return res.status(200).send(Buffer.from(pdf.output('arraybuffer')));
+  } catch (error) {
+    console.error('Error generating PDF report:', error);
+    return res.status(500).json({ error: 'Failed to generate PDF report' });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireSessionUser } from '@/lib/auth';
+import { getRetentionSettings } from '@/lib/retention';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
+
+    return res.status(200).json(await getRetentionSettings(user.id));
+  } catch (error) {
+    console.error('Error getting settings:', error);
+    return res.status(500).json({ error: 'Failed to get settings' });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth';
+import { MAX_RETENTION_DAYS } from '@/lib/retention';
+
+const isValidDays = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_RETENTION_DAYS;
+
+// Save the user's retention settings. A null retentionDays keeps states forever.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
+
+    const { retentionDays, trashRetentionDays } = req.body;
+
+    if ((retentionDays !== null && !isValidDays(retentionDays)) || !isValidDays(trashRetentionDays)) {
+      return res.status(400).json({ error: `Retention periods must be between 1 and ${MAX_RETENTION_DAYS} days` });
+    }
+
+    const settings = await prisma.userSettings.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, retentionDays, trashRetentionDays },
+      update: { retentionDays, trashRetentionDays },
+    });
+
+    return res.status(200).json({
+      retentionDays: settings.retentionDays,
+      trashRetentionDays: settings.trashRetentionDays,
+    });
+  } catch (error) {
+    console.error('Error saving settings:', error);
+    return res.status(500).json({ error: 'Failed to save settings' });
+  }
+}
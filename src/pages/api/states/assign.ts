@@ -0,0 +1,55 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth';
+
+// Move a saved state into a project, or out of any project with a null projectId
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
+
+    const { id, projectId } = req.body;
+
+    if (!id || typeof id !== 'string' || (projectId !== null && typeof projectId !== 'string')) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    // The project must belong to the same user as the state
+    if (projectId) {
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, userId: user.id },
+      });
+
+      if (!project) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+    }
+
+    const result = await prisma.savedState.updateMany({
+      where: {
+        id,
+        userId: user.id,
+        deletedAt: null,
+      },
+      data: { projectId },
+    });
+
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'State not found' });
+    }
+
+    // Moving the state bumps its updatedAt, which the client needs for its next save
+    const updatedState = await prisma.savedState.findUnique({
+      where: { id },
+      select: { updatedAt: true },
+    });
+    return res.status(200).json({ success: true, projectId, updatedAt: updatedState?.updatedAt });
+  } catch (error) {
+    console.error('Error assigning state to project:', error);
+    return res.status(500).json({ error: 'Failed to assign state' });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import prisma from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   console.log('Path: /api/states/delete Request received:', { method: req.method, query: req.query });
@@ -8,25 +9,69 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { id, userId } = req.query;
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
 
-    if (!id || typeof id !== 'string' || !userId || typeof userId !== 'string') {
-      console.log('Missing required fields:', { id, userId });
+    const { id, baseUpdatedAt, permanent } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      console.log('Missing required fields:', { id });
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    // Delete state from database
-    const result = await prisma.savedState.deleteMany({
+    // States are deleted permanently from the trash only
+    if (permanent === 'true') {
+      const result = await prisma.savedState.deleteMany({
+        where: {
+          id,
+          userId: user.id,
+          deletedAt: { not: null },
+        },
+      });
+
+      if (result.count === 0) {
+        return res.status(404).json({ error: 'State not found in trash' });
+      }
+
+      console.log(`Permanently deleted state ${id} for user ${user.id}`);
+      return res.status(200).json({ success: true, count: result.count });
+    }
+
+    // Don't delete a state that was changed since the client last synced it
+    if (typeof baseUpdatedAt === 'string') {
+      const existingState = await prisma.savedState.findFirst({
+        where: {
+          id,
+          userId: user.id,
+          deletedAt: null,
+        },
+      });
+
+      if (existingState && existingState.updatedAt.getTime() > new Date(baseUpdatedAt).getTime()) {
+        return res.status(409).json({ error: 'State was changed since it was last synced', current: existingState });
+      }
+    }
+
+    // Move the state to the trash, if it belongs to the user
+    const result = await prisma.savedState.updateMany({
       where: {
         id,
-        userId, // Ensure the state belongs to the user
+        userId: user.id,
+        deletedAt: null,
+      },
+      data: {
+        deletedAt: new Date(),
       },
     });
 
-    console.log(`Deleted state ${id} for user ${userId}. Result:`, result);
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'State not found' });
+    }
+
+    console.log(`Moved state ${id} to the trash for user ${user.id}. Result:`, result);
     return res.status(200).json({ success: true, count: result.count });
   } catch (error) {
     console.error('Error deleting state:', error);
     return res.status(500).json({ error: 'Failed to delete state' });
   }
-}
\ No newline at end of file
+}
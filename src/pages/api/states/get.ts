@@ -1,5 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import prisma from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -7,27 +8,47 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { userId } = req.query;
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
 
-    if (!userId || typeof userId !== 'string') {
-      console.log('Missing or invalid userId:', userId);
-      return res.status(400).json({ error: 'Missing or invalid userId' });
+    const { id } = req.query;
+
+    // Get a single saved state. States of other users are reported as not found.
+    if (id !== undefined) {
+      if (typeof id !== 'string') {
+        return res.status(400).json({ error: 'Invalid id' });
+      }
+
+      const savedState = await prisma.savedState.findFirst({
+        where: {
+          id,
+          userId: user.id,
+          deletedAt: null,
+        },
+      });
+
+      if (!savedState) {
+        return res.status(404).json({ error: 'State not found' });
+      }
+
+      return res.status(200).json(savedState);
     }
 
-    // Get saved states from database
+    // Get saved states from database, leaving out those in the trash
     const savedStates = await prisma.savedState.findMany({
       where: {
-        userId,
+        userId: user.id,
+        deletedAt: null,
       },
       orderBy: {
         date: 'desc',
       },
     });
 
-    console.log(`Retrieved ${savedStates.length} saved states for user ${userId}`);
+    console.log(`Retrieved ${savedStates.length} saved states for user ${user.id}`);
     return res.status(200).json(savedStates);
   } catch (error) {
     console.error('Error getting saved states:', error);
     return res.status(500).json({ error: 'Failed to get saved states' });
   }
-}
\ No newline at end of file
+}
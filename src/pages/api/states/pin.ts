@@ -0,0 +1,43 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth';
+
+// Pin or unpin a state. Pinned states are kept regardless of retention settings.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
+
+    const { id, pinned } = req.body;
+
+    if (!id || typeof id !== 'string' || typeof pinned !== 'boolean') {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const result = await prisma.savedState.updateMany({
+      where: {
+        id,
+        userId: user.id,
+        deletedAt: null,
+      },
+      data: { pinned },
+    });
+
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'State not found' });
+    }
+
+    const updatedState = await prisma.savedState.findUnique({
+      where: { id },
+      select: { updatedAt: true },
+    });
+    return res.status(200).json({ success: true, pinned, updatedAt: updatedState?.updatedAt });
+  } catch (error) {
+    console.error('Error pinning state:', error);
+    return res.status(500).json({ error: 'Failed to pin state' });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth';
+
+// Make an earlier revision the current version of a saved state. The version
+// it replaces is kept as a new revision, so a restore can itself be undone.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
+
+    const { id, revisionId } = req.body;
+
+    if (!id || typeof id !== 'string' || !revisionId || typeof revisionId !== 'string') {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const revision = await prisma.savedStateRevision.findFirst({
+      where: {
+        id: revisionId,
+        savedState: {
+          id,
+          userId: user.id,
+          deletedAt: null,
+        },
+      },
+      include: {
+        savedState: true,
+      },
+    });
+
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    const [, restoredState] = await prisma.$transaction([
+      prisma.savedStateRevision.create({
+        data: {
+          savedStateId: id,
+          data: revision.savedState.data ?? {},
+          createdAt: revision.savedState.date,
+        },
+      }),
+      prisma.savedState.update({
+        where: { id },
+        data: {
+          data: revision.data ?? {},
+          date: new Date(),
+        },
+      }),
+    ]);
+
+    return res.status(200).json(restoredState);
+  } catch (error) {
+    console.error('Error restoring state revision:', error);
+    return res.status(500).json({ error: 'Failed to restore state revision' });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth';
+
+// List the earlier versions of a saved state, newest first
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
+
+    const { id } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const savedState = await prisma.savedState.findFirst({
+      where: {
+        id,
+        userId: user.id,
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+      },
+    });
+
+    if (!savedState) {
+      return res.status(404).json({ error: 'State not found' });
+    }
+
+    const revisions = await prisma.savedStateRevision.findMany({
+      where: {
+        savedStateId: id,
+      },
+      select: {
+        id: true,
+        createdAt: true,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return res.status(200).json(revisions.map(revision => ({
+      id: revision.id,
+      date: revision.createdAt.toISOString(),
+    })));
+  } catch (error) {
+    console.error('Error getting state revisions:', error);
+    return res.status(500).json({ error: 'Failed to get state revisions' });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import prisma from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -7,26 +8,85 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { userId, name, data } = req.body;
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
 
-    if (!userId || !name || !data) {
-      console.log('Missing required fields:', { userId, name, data: !!data });
+    const { id, name, data, date, baseUpdatedAt } = req.body;
+
+    if (!name || !data) {
+      console.log('Missing required fields:', { name, data: !!data });
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
+    // States saved with a stable id are matched by it, older clients by name.
+    // Saving over an existing state keeps the previous version as a revision.
+    const existingState = id
+      ? await prisma.savedState.findUnique({
+          where: { id },
+        })
+      : await prisma.savedState.findFirst({
+          where: {
+            userId: user.id,
+            name,
+            deletedAt: null,
+          },
+          orderBy: {
+            date: 'desc',
+          },
+        });
+
+    // The id belongs to another account's state, which isn't revealed; the
+    // client saves the state under a new id instead
+    if (existingState && existingState.userId !== user.id) {
+      return res.status(404).json({ error: 'State not found' });
+    }
+
+    // Changes made on an older version than the stored one would overwrite
+    // edits from another device; report the stored version instead
+    if (existingState && baseUpdatedAt && existingState.updatedAt.getTime() > new Date(baseUpdatedAt).getTime()) {
+      return res.status(409).json({ error: 'State was changed since it was last synced', current: existingState });
+    }
+
+    if (existingState) {
+      const [, updatedState] = await prisma.$transaction([
+        prisma.savedStateRevision.create({
+          data: {
+            savedStateId: existingState.id,
+            data: existingState.data ?? {},
+            createdAt: existingState.date,
+          },
+        }),
+        prisma.savedState.update({
+          where: { id: existingState.id },
+          data: {
+            name,
+            data,
+            date: date ? new Date(date) : new Date(),
+            // Saving a state that is in the trash brings it back
+            deletedAt: null,
+          },
+        }),
+      ]);
+
+      console.log('State revision saved successfully:', updatedState.id);
+      return res.status(200).json({ success: true, id: updatedState.id, updatedAt: updatedState.updatedAt, revised: true });
+    }
+
     // Save state to database
     const savedState = await prisma.savedState.create({
       data: {
-        userId,
+        ...(id ? { id } : {}),
+        userId: user.id,
         name,
         data,
+        ...(date ? { date: new Date(date) } : {}),
       },
     });
 
     console.log('State saved successfully:', savedState.id);
-    return res.status(200).json({ success: true, id: savedState.id });
+    return res.status(200).json({ success: true, id: savedState.id, updatedAt: savedState.updatedAt, revised: false });
   } catch (error) {
     console.error('Error saving state:', error);
     return res.status(500).json({ error: 'Failed to save state' });
   }
-}
\ No newline at end of file
+}
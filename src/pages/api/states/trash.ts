@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth';
+import { getRetentionSettings, getTrashExpiry } from '@/lib/retention';
+
+// List the states in the user's trash, most recently deleted first, with the
+// date each one will be deleted permanently
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
+
+    const [trashedStates, settings] = await Promise.all([
+      prisma.savedState.findMany({
+        where: {
+          userId: user.id,
+          deletedAt: { not: null },
+        },
+        select: {
+          id: true,
+          name: true,
+          date: true,
+          deletedAt: true,
+        },
+        orderBy: {
+          deletedAt: 'desc',
+        },
+      }),
+      getRetentionSettings(user.id),
+    ]);
+
+    return res.status(200).json(trashedStates.map(state => ({
+      ...state,
+      expiresAt: state.deletedAt ? getTrashExpiry(state.deletedAt, settings) : null,
+    })));
+  } catch (error) {
+    console.error('Error getting trash:', error);
+    return res.status(500).json({ error: 'Failed to get trash' });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '@/lib/prisma';
+import { requireSessionUser } from '@/lib/auth';
+
+// Move a state out of the trash and return it
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const user = await requireSessionUser(req, res);
+    if (!user) return;
+
+    const { id } = req.body;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const result = await prisma.savedState.updateMany({
+      where: {
+        id,
+        userId: user.id,
+        deletedAt: { not: null },
+      },
+      data: {
+        deletedAt: null,
+      },
+    });
+
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'State not found in trash' });
+    }
+
+    const restoredState = await prisma.savedState.findUnique({ where: { id } });
+    return res.status(200).json(restoredState);
+  } catch (error) {
+    console.error('Error restoring state from trash:', error);
+    return res.status(500).json({ error: 'Failed to restore state from trash' });
+  }
+}
@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from "react";
 import Head from "next/head";
+import { useRouter } from "next/router";
 import Header from "@/components/Header";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
@@ -14,15 +15,60 @@ import * as RechartsPrimitive from "recharts";
 import Papa from "papaparse";
 import { toast } from "sonner";
 import { generatePDFReport } from "@/util/pdfGenerator";
-import { BudgetParams, IterationData, ChartData } from "@/types/budget";
+import { createHTMLReport, createMarkdownReport } from "@/util/reportExport";
+import { ChartMode, ROLE_COLORS, getChartMode, getChartPointLabel, getChartRoleIds, setChartMode } from "@/util/chartLayout";
+import { createBudgetWorkbook, parseBudgetWorkbook } from "@/util/workbook";
+import { BudgetParams, IterationData, ChartData, ReportFormat, ReportTemplate, SprintImportResult, TimesheetImportResult } from "@/types/budget";
 import SaveStateManager from "@/components/SaveStateManager";
-import { AppState } from "@/util/stateManager";
+import CsvImportDialog, { CsvImportFile } from "@/components/CsvImportDialog";
+import TimesheetImportDialog from "@/components/TimesheetImportDialog";
+import SprintImportDialog from "@/components/SprintImportDialog";
+import ReportBuilderDialog from "@/components/ReportBuilderDialog";
+import { AppState, loadState } from "@/util/stateManager";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  calculateChartData,
+  calculateBudgetMetrics,
+  generateIterationsToFullBudget,
+  ensureActualCumulativeCrossesTotalBudget,
+  getPlannedHours,
+  getDefaultIterationHours,
+  getIterationCost,
+  getActualHours,
+  normalizeIterationHours,
+  hasRateCard,
+  getRoleName,
+  calculateEarnedValueData,
+  calculateEVMMetrics,
+  calculateBurnChartData
+} from "@/util/budgetEngine";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { assignIterationDates, formatDateRange, formatShortDate, DEFAULT_WEEKEND_DAYS, WEEKDAY_LABELS } from "@/util/calendar";
+import { HOLIDAY_CALENDARS } from "@/util/holidays";
+import RateCardEditor from "@/components/RateCardEditor";
+import RoleHeadcountPopover from "@/components/RoleHeadcountPopover";
+import EarnedValuePanel from "@/components/EarnedValuePanel";
+import BurnChart from "@/components/BurnChart";
+import ScenarioPanel from "@/components/ScenarioPanel";
+import { createScenario } from "@/util/scenarios";
+import { RateCardEntry, ExhaustionForecast, Scenario } from "@/types/budget";
+import { useMonteCarloForecast } from "@/hooks/useMonteCarloForecast";
+
+// Chart point with the Monte Carlo forecast cone ranges
+type ForecastConeData = ChartData & {
+  forecastP50?: number;
+  forecastRange85?: [number, number];
+  forecastRange95?: [number, number];
+};
 
 // Component implementation
 
 export default function Home() {
-  // Reference for the chart component (used for PDF generation)
+  const router = useRouter();
+  const { user } = useAuth();
+
+  // Reference for the chart component (used for saving the chart as PNG)
   const chartRef = useRef<HTMLDivElement>(null);
   // State for budget parameters
   const [budgetParams, setBudgetParams] = useState<BudgetParams>({
@@ -39,22 +85,38 @@ export default function Home() {
     iterationNumber: 1,
     iterationDays: 10,
     teamSize: 5,
-    totalHours: 10 * 5 * 8 // Default: days * team size * 8 hours
+    plannedHours: 10 * 5 * 8 // Default: days * team size * 8 hours
   });
   
   // Flag to track if iterations have been pre-filled
   const [iterationsPreFilled, setIterationsPreFilled] = useState<boolean>(false);
 
+  // CSV file waiting in the import dialog
+  const [csvImportFile, setCsvImportFile] = useState<CsvImportFile | null>(null);
+  const [timesheetImportFile, setTimesheetImportFile] = useState<CsvImportFile | null>(null);
+  const [sprintImportFile, setSprintImportFile] = useState<CsvImportFile | null>(null);
+  const [reportBuilderOpen, setReportBuilderOpen] = useState(false);
+
   // State for chart data
   const [chartData, setChartData] = useState<ChartData[]>([]);
 
   // State for chart visibility toggles
   const [visibleChartItems, setVisibleChartItems] = useState<string[]>([
-    "standardCumulative", 
+    "plannedCumulative",
     "actualCumulative", 
+    "forecastCumulative",
+    "forecastCone",
     "individualCost"
   ]);
 
+  // What-if scenarios. The editor always shows the active scenario; its
+  // entry in the list is only brought up to date when switching or saving.
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
+
+  // X axis labels: iteration names or iteration end dates
+  const [xAxisMode, setXAxisMode] = useState<"iteration" | "date">("iteration");
+
   // File input ref
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -62,12 +124,17 @@ export default function Home() {
   const handleParamChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     
-    // Handle currency as a string, all other parameters as numbers
+    // Handle currency and project start date as strings, all other parameters as numbers
     if (name === 'currency') {
       setBudgetParams(prev => ({
         ...prev,
         [name]: value
       }));
+    } else if (name === 'projectStartDate') {
+      setBudgetParams(prev => ({
+        ...prev,
+        projectStartDate: value || undefined
+      }));
     } else {
       setBudgetParams(prev => {
         const updatedParams = {
@@ -96,16 +163,70 @@ export default function Home() {
         [name]: numValue
       };
       
-      // Auto-calculate total hours when days or team size changes
-      // Only if we're not directly editing the totalHours field
-      if (name !== 'totalHours' && (name === 'iterationDays' || name === 'teamSize')) {
-        updated.totalHours = updated.iterationDays * updated.teamSize * 8;
+      // Auto-calculate planned hours when days or team size changes
+      // Only if we're not directly editing the plannedHours field
+      if (name === 'iterationDays' || name === 'teamSize') {
+        updated.plannedHours = updated.iterationDays * updated.teamSize * 8;
       }
       
       return updated;
     });
   };
 
+  // Update the rate card in the budget parameters
+  const handleRateCardChange = (rateCard: RateCardEntry[]) => {
+    setBudgetParams(prev => ({
+      ...prev,
+      rateCard
+    }));
+  };
+
+  // Remove a role from the rate card and from every iteration's headcount
+  const handleRemoveRole = (roleId: string) => {
+    handleRateCardChange((budgetParams.rateCard ?? []).filter(entry => entry.id !== roleId));
+    setIterations(prev => prev.map(iteration => {
+      if (!iteration.roleHeadcount || !(roleId in iteration.roleHeadcount)) return iteration;
+      const { [roleId]: removed, ...roleHeadcount } = iteration.roleHeadcount;
+      return withRoleHeadcount(iteration, roleHeadcount);
+    }));
+  };
+
+  // Apply a headcount breakdown to an iteration. Team size follows the total
+  // headcount, and planned hours follow team size unless they were set manually.
+  const withRoleHeadcount = (iteration: IterationData, roleHeadcount: Record<string, number>): IterationData => {
+    const totalHeadcount = Object.values(roleHeadcount).reduce((sum, count) => sum + count, 0);
+    const teamSize = totalHeadcount > 0 ? totalHeadcount : iteration.teamSize;
+    const wasManuallySet = getPlannedHours(iteration) !== getDefaultIterationHours(iteration);
+
+    return {
+      ...iteration,
+      roleHeadcount,
+      teamSize,
+      ...(!wasManuallySet && {
+        plannedHours: iteration.iterationDays * teamSize * 8
+      })
+    };
+  };
+
+  const handleRoleHeadcountChange = (iterationNumber: number, roleHeadcount: Record<string, number>) => {
+    setIterations(prev => prev.map(iteration =>
+      iteration.iterationNumber === iterationNumber ? withRoleHeadcount(iteration, roleHeadcount) : iteration
+    ));
+  };
+
+  // Copy an iteration's headcount breakdown to all later iterations
+  const applyRoleHeadcountToFollowing = (iterationNumber: number) => {
+    const source = iterations.find(it => it.iterationNumber === iterationNumber);
+    if (!source) return;
+
+    setIterations(prev => prev.map(iteration =>
+      iteration.iterationNumber > iterationNumber
+        ? withRoleHeadcount(iteration, { ...source.roleHeadcount })
+        : iteration
+    ));
+    toast.success(`Applied headcount of iteration ${iterationNumber} to following iterations`);
+  };
+
   // Add a new iteration
   const addIteration = () => {
     if (iterations.length >= 100) {
@@ -124,183 +245,185 @@ export default function Home() {
       return;
     }
 
-    // Ensure totalHours is calculated if not set
+    // Ensure plannedHours is calculated if not set; zero hours is a valid plan
     const iterationToAdd = { ...newIteration };
-    if (!iterationToAdd.totalHours || iterationToAdd.totalHours <= 0) {
-      iterationToAdd.totalHours = iterationToAdd.iterationDays * iterationToAdd.teamSize * 8;
+    if (iterationToAdd.plannedHours === undefined || iterationToAdd.plannedHours < 0) {
+      iterationToAdd.plannedHours = getDefaultIterationHours(iterationToAdd);
     }
 
     setIterations(prev => [...prev, iterationToAdd]);
     
-    // Set next iteration number and recalculate total hours for the new iteration
+    // Set next iteration number and recalculate planned hours for the new iteration
     setNewIteration(prev => {
       const nextIteration = {
         ...prev,
         iterationNumber: prev.iterationNumber + 1
       };
       
-      // Recalculate total hours for the new iteration
-      nextIteration.totalHours = nextIteration.iterationDays * nextIteration.teamSize * 8;
+      // Recalculate planned hours for the new iteration
+      nextIteration.plannedHours = getDefaultIterationHours(nextIteration);
       
       return nextIteration;
     });
   };
 
-  // Handle CSV file import
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    Papa.parse(file, {
+  // Parse a CSV file with a header row for one of the import dialogs
+  const readCsvFile = (file: File, onRead: (csvFile: CsvImportFile) => void) => {
+    Papa.parse<Record<string, string>>(file, {
       header: true,
       skipEmptyLines: true,
       complete: (results) => {
-        try {
-          const parsedData = results.data;
-          
-          // Check if this is a parameters file or iterations file
-          if (parsedData.length > 0 && typeof parsedData[0] === 'object' && parsedData[0] !== null && 'costPerHour' in parsedData[0]) {
-            // Parameters file
-            const params = parsedData[0] as any;
-            setBudgetParams({
-              costPerHour: parseFloat(params.costPerHour) || 50,
-              budgetSize: parseFloat(params.budgetSize) || 100000,
-              teamSize: parseFloat(params.teamSize) || 5,
-              workingDaysPerIteration: parseFloat(params.workingDaysPerIteration) || 10,
-              currency: params.currency || "$"
-            });
-            // Reset pre-filled flag to allow regeneration of iterations with new parameters
-            setIterationsPreFilled(false);
-            toast.success("Budget parameters imported successfully");
-          } else if (parsedData.length > 0 && typeof parsedData[0] === 'object' && parsedData[0] !== null && 'iterationNumber' in parsedData[0]) {
-            // Iterations file
-            if (parsedData.length > 100) {
-              toast.error("CSV contains more than 100 iterations. Only the first 100 will be imported.");
-            }
-            
-            const newIterations = parsedData.slice(0, 100).map((item: any) => {
-              const iteration = {
-                iterationNumber: parseFloat(item.iterationNumber) || 0,
-                iterationDays: parseFloat(item.iterationDays) || 0,
-                teamSize: parseFloat(item.teamSize) || 0,
-                totalHours: parseFloat(item.totalHours) || 0,
-                isCurrent: item.isCurrent === "true"
-              };
-              
-              // If totalHours is not provided or is zero, calculate it
-              if (!iteration.totalHours) {
-                iteration.totalHours = iteration.iterationDays * iteration.teamSize * 8;
-              }
-              
-              return iteration;
-            });
-            
-            // Validate data
-            const validIterations = newIterations.filter(it => 
-              it.iterationNumber > 0 && it.iterationDays > 0 && it.teamSize > 0
-            );
-            
-            if (validIterations.length !== newIterations.length) {
-              toast.warning("Some iterations had invalid data and were skipped");
-            }
-            
-            setIterations(validIterations);
-            setIterationsPreFilled(true); // Mark as pre-filled since we've imported data
-            toast.success(`${validIterations.length} iterations imported successfully`);
-          } else {
-            toast.error("Invalid CSV format. Please check the template.");
-          }
-        } catch (error) {
-          toast.error("Error parsing CSV file");
-          console.error(error);
+        const headers = (results.meta.fields ?? []).filter(header => header.trim() !== "");
+        if (headers.length === 0 || results.data.length === 0) {
+          toast.error("The CSV file has no header row or no data rows");
+          return;
         }
+
+        onRead({ fileName: file.name, headers, rows: results.data });
       },
       error: (error) => {
         toast.error("Error parsing CSV file");
         console.error(error);
       }
     });
+  };
+
+  // Handle CSV file import: the rows are mapped and checked in the import dialog before they are applied
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    readCsvFile(file, setCsvImportFile);
     
     // Reset file input
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
+    e.target.value = "";
+  };
+
+  // Handle timesheet import: rows of person, date and hours fill in the actual hours of iterations
+  const handleTimesheetUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    readCsvFile(file, setTimesheetImportFile);
+    e.target.value = "";
+  };
+
+  const handleApplyTimesheet = (result: TimesheetImportResult) => {
+    setIterations(result.iterations);
+    setIterationsPreFilled(true);
+    toast.success(`Filled in actual hours for ${result.summaries.length} iterations (${result.matchedHours} hours)`);
+    if (result.unmatched.length + result.rejected.length > 0) {
+      toast.warning(`${result.unmatched.length + result.rejected.length} timesheet rows were not imported`);
+    }
+  };
+
+  // Handle sprint import: sprints from an issue-tracker export become iterations
+  const handleSprintUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    readCsvFile(file, setSprintImportFile);
+    e.target.value = "";
+  };
+
+  const handleApplySprints = (result: SprintImportResult, projectStartDate?: string) => {
+    if (projectStartDate) {
+      setBudgetParams(prev => ({ ...prev, projectStartDate }));
+    }
+    setIterations(result.iterations);
+    setIterationsPreFilled(true); // Mark as pre-filled since we've imported data
+    setNewIteration(prev => ({
+      ...prev,
+      iterationNumber: Math.max(0, ...result.iterations.map(it => it.iterationNumber)) + 1
+    }));
+    toast.success(`${result.sprints.length} sprints imported as iterations`);
+  };
+
+  const handleApplyImportedIterations = (importedIterations: IterationData[], importedCount: number) => {
+    setIterations(importedIterations);
+    setIterationsPreFilled(true); // Mark as pre-filled since we've imported data
+    setNewIteration(prev => ({
+      ...prev,
+      iterationNumber: Math.max(0, ...importedIterations.map(it => it.iterationNumber)) + 1
+    }));
+    toast.success(`${importedCount} iterations imported successfully`);
+  };
+
+  const handleApplyImportedParameters = (importedParams: BudgetParams) => {
+    setBudgetParams(importedParams);
+    // Reset pre-filled flag to allow regeneration of iterations with new parameters
+    setIterationsPreFilled(false);
+    toast.success("Budget parameters imported successfully");
+  };
+
+  // Handle Excel workbook import: parameters, rate card and iterations in one file
+  const handleWorkbookUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const { budgetParams: importedParams, iterations: importedIterations, warnings } = await parseBudgetWorkbook(await file.arrayBuffer());
+
+      setBudgetParams(importedParams);
+      setIterations(importedIterations);
+      setIterationsPreFilled(true); // Mark as pre-filled since we've imported data
+      setNewIteration(prev => ({
+        ...prev,
+        iterationNumber: Math.max(0, ...importedIterations.map(it => it.iterationNumber)) + 1
+      }));
+
+      warnings.forEach(warning => toast.warning(warning));
+      toast.success(`Imported budget parameters and ${importedIterations.length} iterations`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Error reading Excel file");
+      console.error(error);
+    }
+
+    // Reset file input
+    e.target.value = "";
+  };
+
+  // Export parameters, iterations and chart data as an Excel workbook
+  const handleExportWorkbook = async () => {
+    try {
+      const blob = await createBudgetWorkbook(budgetParams, iterations);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.setAttribute("href", url);
+      link.setAttribute("download", "budget.xlsx");
+      link.style.visibility = "hidden";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error("Failed to export Excel workbook");
+      console.error(error);
+    }
   };
 
   // Calculate chart data whenever parameters or iterations change
   useEffect(() => {
-    const { costPerHour, teamSize, workingDaysPerIteration } = budgetParams;
-    const standardHoursPerIteration = 8 * teamSize * workingDaysPerIteration;
-    const standardIterationCost = costPerHour * standardHoursPerIteration;
-    
-    // Sort iterations by iteration number
-    const sortedIterations = [...iterations].sort((a, b) => a.iterationNumber - b.iterationNumber);
-    
-    // Find the current iteration (if any)
-    const currentIteration = sortedIterations.find(it => it.isCurrent);
-    const currentIterationIndex = currentIteration 
-      ? sortedIterations.findIndex(it => it.iterationNumber === currentIteration.iterationNumber)
-      : sortedIterations.length - 1; // If no current iteration, use the last one
-    
-    let cumulativeStandard = 0;
-    let cumulativeActual = 0;
-    
-    // Start with an initial data point at 0
-    const data: ChartData[] = [
-      {
-        name: "Start",
-        iterationCost: 0,
-        cumulativeStandard: 0,
-        cumulativeActual: 0
-      }
-    ];
-    
-    // Add data points for each iteration
-    sortedIterations.forEach((iteration, index) => {
-      // Get total hours (use calculated value if not set)
-      const totalHours = iteration.totalHours || (iteration.iterationDays * iteration.teamSize * 8);
-      
-      // Calculate the cost for this iteration using total hours
-      const iterationCost = costPerHour * totalHours;
-      
-      // Always calculate standard cumulative
-      cumulativeStandard += standardIterationCost;
-      
-      // For actual cumulative, use actual data up to current iteration
-      // After current iteration, follow standard data pattern
-      if (index <= currentIterationIndex) {
-        // Up to current iteration, use actual data
-        cumulativeActual += iterationCost;
-      } else {
-        // After current iteration, follow standard data pattern
-        cumulativeActual += standardIterationCost;
-      }
-      
-      data.push({
-        name: `Iteration ${iteration.iterationNumber}`,
-        // Only show iteration cost up to current iteration
-        iterationCost: index <= currentIterationIndex ? iterationCost : 0,
-        cumulativeStandard,
-        cumulativeActual
-      });
-    });
-    
-    setChartData(data);
+    setChartData(calculateChartData(budgetParams, iterations));
   }, [budgetParams, iterations]);
 
   // Generate CSV template for download
   const generateParametersTemplate = () => {
-    const headers = "costPerHour,budgetSize,teamSize,workingDaysPerIteration,currency\n";
-    const values = `${budgetParams.costPerHour},${budgetParams.budgetSize},${budgetParams.teamSize},${budgetParams.workingDaysPerIteration},${budgetParams.currency}`;
+    const headers = "costPerHour,budgetSize,teamSize,workingDaysPerIteration,currency,projectStartDate,weekendDays,holidayCountry,totalScope\n";
+    const weekendDays = (budgetParams.weekendDays ?? DEFAULT_WEEKEND_DAYS).join(";");
+    const values = `${budgetParams.costPerHour},${budgetParams.budgetSize},${budgetParams.teamSize},${budgetParams.workingDaysPerIteration},${budgetParams.currency},${budgetParams.projectStartDate ?? ""},${weekendDays},${budgetParams.holidayCountry ?? ""},${budgetParams.totalScope ?? ""}`;
     return headers + values;
   };
 
   const generateIterationsTemplate = () => {
-    const headers = "iterationNumber,iterationDays,teamSize,totalHours,isCurrent\n";
+    const headers = "iterationNumber,iterationDays,teamSize,plannedHours,actualHours,isCurrent,percentComplete,deliveredScope\n";
     const values = iterations.map(it => 
-      `${it.iterationNumber},${it.iterationDays},${it.teamSize},${it.totalHours || it.iterationDays * it.teamSize * 8},${it.isCurrent ? "true" : "false"}`
+      `${it.iterationNumber},${it.iterationDays},${it.teamSize},${getPlannedHours(it)},${it.actualHours ?? ""},${it.isCurrent ? "true" : "false"},${it.percentComplete ?? ""},${it.deliveredScope ?? ""}`
     ).join("\n");
-    return headers + (values || "1,10,5,400,false");
+    return headers + (values || "1,10,5,400,,false,,");
   };
 
   const downloadTemplate = (type: "parameters" | "iterations") => {
@@ -318,129 +441,11 @@ export default function Home() {
     document.body.removeChild(link);
   };
 
-  // Generate iterations up to 100% budget consumption
-  const generateIterationsToFullBudget = () => {
-    const { costPerHour, budgetSize, teamSize, workingDaysPerIteration } = budgetParams;
-    
-    // Calculate hours per iteration
-    const hoursPerIteration = 8 * teamSize * workingDaysPerIteration;
-    
-    // Calculate cost per iteration with default parameters
-    const costPerIteration = costPerHour * hoursPerIteration;
-    
-    // Skip if cost per iteration is zero (invalid parameters)
-    if (costPerIteration <= 0 || budgetSize <= 0) return [];
-    
-    // Calculate how many iterations needed to consume the budget
-    const iterationsNeeded = Math.ceil(budgetSize / costPerIteration);
-    
-    // Limit to 100 iterations maximum
-    const iterationCount = Math.min(iterationsNeeded, 100);
-    
-    // Generate iterations
-    const generatedIterations: IterationData[] = [];
-    for (let i = 1; i <= iterationCount; i++) {
-      generatedIterations.push({
-        iterationNumber: i,
-        iterationDays: workingDaysPerIteration,
-        teamSize: teamSize,
-        totalHours: hoursPerIteration,
-        isCurrent: i === iterationCount // Mark the last iteration as current by default
-      });
-    }
-    
-    return generatedIterations;
-  };
-  
-  // Check if actual cumulative crosses total budget and adjust iterations as needed
-  const ensureActualCumulativeCrossesTotalBudget = () => {
-    if (iterations.length === 0) return iterations;
-    
-    const { costPerHour, budgetSize, teamSize, workingDaysPerIteration } = budgetParams;
-    const hoursPerIteration = 8 * teamSize * workingDaysPerIteration;
-    const costPerIteration = costPerHour * hoursPerIteration;
-    
-    // Skip if cost per iteration is zero (invalid parameters)
-    if (costPerIteration <= 0 || budgetSize <= 0) return iterations;
-    
-    // Sort iterations by iteration number
-    const sortedIterations = [...iterations].sort((a, b) => a.iterationNumber - b.iterationNumber);
-    
-    // Find the current iteration (if any)
-    const currentIteration = sortedIterations.find(it => it.isCurrent);
-    const currentIterationIndex = currentIteration 
-      ? sortedIterations.findIndex(it => it.iterationNumber === currentIteration.iterationNumber)
-      : sortedIterations.length - 1; // If no current iteration, use the last one
-    
-    // Calculate cumulative actual cost up to current iteration
-    let cumulativeActual = 0;
-    for (let i = 0; i <= currentIterationIndex; i++) {
-      const iteration = sortedIterations[i];
-      const totalHours = iteration.totalHours || (iteration.iterationDays * iteration.teamSize * 8);
-      cumulativeActual += costPerHour * totalHours;
-    }
-    
-    // Calculate standard cost per iteration for projections
-    const standardIterationCost = costPerHour * hoursPerIteration;
-    
-    // Calculate how many iterations are needed to reach the budget
-    const iterationsNeededFromStart = Math.ceil(budgetSize / standardIterationCost);
-    
-    // If we already have more iterations than needed, we need to regenerate
-    // This happens when budget parameters change significantly
-    if (budgetSize < cumulativeActual || Math.abs(iterationsNeededFromStart - sortedIterations.length) > 3) {
-      // Generate completely new iterations based on current parameters
-      const generatedIterations = generateIterationsToFullBudget();
-      return generatedIterations;
-    }
-    
-    // Calculate projected cumulative cost with existing iterations
-    let projectedCumulative = cumulativeActual;
-    for (let i = currentIterationIndex + 1; i < sortedIterations.length; i++) {
-      projectedCumulative += standardIterationCost;
-    }
-    
-    // If projected cumulative already exceeds or equals budget, no need to add more iterations
-    if (projectedCumulative >= budgetSize) {
-      return sortedIterations;
-    }
-    
-    // Calculate exactly how many iterations are needed to just exceed the budget
-    const remainingBudget = budgetSize - projectedCumulative;
-    const additionalIterationsNeeded = Math.ceil(remainingBudget / standardIterationCost);
-    
-    const maxIterationNumber = sortedIterations.length > 0 
-      ? Math.max(...sortedIterations.map(it => it.iterationNumber))
-      : 0;
-    
-    // Limit total iterations to 100
-    const iterationsToAdd = Math.min(additionalIterationsNeeded, 100 - sortedIterations.length);
-    
-    if (iterationsToAdd <= 0) return sortedIterations; // No more iterations can be added
-    
-    // Add new iterations
-    const newIterations = [...sortedIterations];
-    
-    // Add additional iterations while preserving current iteration state
-    for (let i = 1; i <= iterationsToAdd; i++) {
-      const newIterationNumber = maxIterationNumber + i;
-      newIterations.push({
-        iterationNumber: newIterationNumber,
-        iterationDays: workingDaysPerIteration,
-        teamSize: teamSize,
-        totalHours: hoursPerIteration,
-        isCurrent: false // Don't mark new iterations as current
-      });
-    }
-    
-    return newIterations;
-  };
-  
   // Pre-fill iterations when budget parameters change
   useEffect(() => {
     // Only pre-fill if no iterations exist yet and we haven't pre-filled before
     if (iterations.length === 0 && !iterationsPreFilled) {
-      const generatedIterations = generateIterationsToFullBudget();
+      const generatedIterations = generateIterationsToFullBudget(budgetParams);
       if (generatedIterations.length > 0) {
         setIterations(generatedIterations);
         setIterationsPreFilled(true);
@@ -460,7 +465,7 @@ export default function Home() {
     if (iterations.length > 0) {
       // Use a timeout to ensure this runs after the state has been updated
       const timeoutId = setTimeout(() => {
-        const updatedIterations = ensureActualCumulativeCrossesTotalBudget();
+        const updatedIterations = ensureActualCumulativeCrossesTotalBudget(budgetParams, iterations);
         
         // Check if we need to add or regenerate iterations
         if (updatedIterations.length !== iterations.length) {
@@ -497,54 +502,97 @@ export default function Home() {
     }
   }, [budgetParams]);
 
-  // Calculate budget consumption percentage and consumed budget based on current iteration
-  const calculateBudgetMetrics = () => {
-    if (chartData.length === 0 || budgetParams.budgetSize === 0) return { percentage: 0, consumed: 0 };
-    
-    // Find the current iteration in chart data
-    const sortedIterations = [...iterations].sort((a, b) => a.iterationNumber - b.iterationNumber);
-    const currentIteration = sortedIterations.find(it => it.isCurrent);
-    
-    if (!currentIteration) {
-      // If no current iteration, use the last data point
-      const latestData = chartData[chartData.length - 1];
-      return {
-        percentage: (latestData.cumulativeActual / budgetParams.budgetSize) * 100,
-        consumed: latestData.cumulativeActual
-      };
-    }
-    
-    // Find the chart data point corresponding to the current iteration
-    const currentDataPoint = chartData.find(data => data.name === `Iteration ${currentIteration.iterationNumber}`);
-    
-    if (!currentDataPoint) {
-      // Fallback to last data point if current iteration not found in chart data
-      const latestData = chartData[chartData.length - 1];
-      return {
-        percentage: (latestData.cumulativeActual / budgetParams.budgetSize) * 100,
-        consumed: latestData.cumulativeActual
-      };
+  const {
+    percentage: budgetConsumptionPercentage,
+    consumed: consumedBudget,
+    exhaustionIterationNumber,
+    exhaustionDate
+  } = calculateBudgetMetrics(budgetParams, iterations, chartData);
+
+  // Earned value metrics at the current iteration
+  const earnedValueData = calculateEarnedValueData(budgetParams, iterations);
+  const evm = calculateEVMMetrics(budgetParams, iterations, earnedValueData);
+
+  // Monte Carlo forecast of budget exhaustion, simulated in a Web Worker
+  const { forecast: monteCarloForecast, isRunning: isForecastRunning, error: forecastError } = useMonteCarloForecast(budgetParams, iterations);
+  const forecastBands = monteCarloForecast?.bands ?? [];
+
+  // Chart data with the forecast cone ranges. The cone starts at the last
+  // actual point so it fans out from the actual cumulative line.
+  const lastActualIndex = chartData.reduce((last, data, index) => (data.cumulativeActual !== null ? index : last), -1);
+  const coneChartData: ForecastConeData[] = chartData.map((data, index) => {
+    if (forecastBands.length === 0) return data;
+    if (index === lastActualIndex && data.cumulativeActual !== null) {
+      const actual = data.cumulativeActual;
+      return { ...data, forecastP50: actual, forecastRange85: [actual, actual], forecastRange95: [actual, actual] };
     }
-    
-    return {
-      percentage: (currentDataPoint.cumulativeActual / budgetParams.budgetSize) * 100,
-      consumed: currentDataPoint.cumulativeActual
-    };
+    const band = forecastBands.find(b => b.iterationNumber === data.iterationNumber);
+    if (!band) return data;
+    return { ...data, forecastP50: band.p50, forecastRange85: [band.p15, band.p85], forecastRange95: [band.p5, band.p95] };
+  });
+
+  const formatExhaustionForecast = (exhaustion?: ExhaustionForecast) => {
+    if (!exhaustion) return "Not reached";
+    return exhaustion.date ? formatShortDate(exhaustion.date) : `Iteration ${exhaustion.iterationNumber}`;
   };
 
-  const { percentage: budgetConsumptionPercentage, consumed: consumedBudget } = calculateBudgetMetrics();
+  const chartRoleIds = getChartRoleIds(budgetParams, chartData);
+
+  // Cumulative cost, burn-down or burn-up chart, saved with the visible chart items
+  const chartMode = getChartMode(visibleChartItems);
+  const burnChartData = calculateBurnChartData(budgetParams, chartData, earnedValueData);
+
+  // Delivered scope can only be turned into progress against a total scope
+  const hasTotalScope = (budgetParams.totalScope ?? 0) > 0;
 
-  // Handle PDF report generation
-  const handleGeneratePDF = async () => {
+  // Iterations with start/end dates derived from the project start date
+  const datedIterations = assignIterationDates(budgetParams, iterations);
+  const hasIterationDates = datedIterations.some(it => it.startDate);
+
+  // Label a chart data point by iteration name or by calendar date
+  const getChartLabel = (name: string) => {
+    const dataPoint = chartData.find(data => data.name === name);
+    return dataPoint ? getChartPointLabel(dataPoint, budgetParams, xAxisMode === "date") : name;
+  };
+
+  // Open the report builder to choose what the report shows
+  const handleOpenReportBuilder = () => {
     if (chartData.length <= 1) {
       toast.error("No data to generate report. Please add iterations first.");
       return;
     }
-    
+    setReportBuilderOpen(true);
+  };
+
+  // Handle report generation as a PDF, a standalone HTML page or Markdown
+  const handleGenerateReport = async (template: ReportTemplate, format: ReportFormat) => {
+    const reportOptions = {
+      showDates: xAxisMode === "date" && hasIterationDates,
+      visibleChartItems,
+      template
+    };
+
+    if (format !== "pdf") {
+      const content = format === "html"
+        ? createHTMLReport(budgetParams, iterations, chartData, reportOptions)
+        : createMarkdownReport(budgetParams, iterations, chartData, reportOptions);
+      const blob = new Blob([content], { type: format === "html" ? "text/html;charset=utf-8;" : "text/markdown;charset=utf-8;" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.setAttribute("href", url);
+      link.setAttribute("download", format === "html" ? "budget_report.html" : "budget_report.md");
+      link.style.visibility = "hidden";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      return;
+    }
+
     toast.info("Generating PDF report...");
     
     try {
-      await generatePDFReport(budgetParams, iterations, chartData, chartRef);
+      await generatePDFReport(budgetParams, iterations, chartData, reportOptions);
       toast.success("PDF report generated successfully");
     } catch (error) {
       console.error("Error generating PDF:", error);
@@ -552,13 +600,76 @@ export default function Home() {
     }
   };
 
+  // Copy the Markdown summary for pasting into wikis and pull requests
+  const handleCopyMarkdownReport = async (template: ReportTemplate) => {
+    try {
+      await navigator.clipboard.writeText(createMarkdownReport(budgetParams, iterations, chartData, {
+        showDates: xAxisMode === "date" && hasIterationDates,
+        template
+      }));
+      toast.success("Markdown report copied to clipboard");
+    } catch (error) {
+      console.error("Error copying report:", error);
+      toast.error("Failed to copy report");
+    }
+  };
+
+  // Scenarios with the active one reflecting the editor
+  const liveScenarios = scenarios.map(scenario =>
+    scenario.id === activeScenarioId ? { ...scenario, budgetParams, iterations } : scenario
+  );
+
+  // Fork the plan in the editor into a new scenario and start editing it.
+  // The first fork also keeps the current plan as the baseline scenario.
+  const handleForkScenario = (name: string) => {
+    const existingScenarios = liveScenarios.length > 0
+      ? liveScenarios
+      : [createScenario("Baseline", budgetParams, iterations, "baseline")];
+    const scenario = createScenario(name, budgetParams, iterations);
+
+    setScenarios([...existingScenarios, scenario]);
+    setActiveScenarioId(scenario.id);
+    toast.success(`Created scenario "${name}"`);
+  };
+
+  const handleSwitchScenario = (id: string) => {
+    const scenario = liveScenarios.find(s => s.id === id);
+    if (!scenario) return;
+
+    setScenarios(liveScenarios);
+    setActiveScenarioId(id);
+    setBudgetParams(scenario.budgetParams);
+    setIterations(scenario.iterations);
+    setIterationsPreFilled(true);
+    toast.info(`Editing scenario "${scenario.name}"`);
+  };
+
+  const handleRenameScenario = (id: string, name: string) => {
+    setScenarios(prev => prev.map(scenario => (scenario.id === id ? { ...scenario, name } : scenario)));
+  };
+
+  const handleDeleteScenario = (id: string) => {
+    setScenarios(prev => prev.filter(scenario => scenario.id !== id));
+  };
+
+  // Changes to the active scenario go through the editor state
+  const handleUpdateScenario = (updated: Scenario) => {
+    if (updated.id === activeScenarioId) {
+      setBudgetParams(updated.budgetParams);
+      setIterations(updated.iterations);
+    } else {
+      setScenarios(prev => prev.map(scenario => (scenario.id === updated.id ? updated : scenario)));
+    }
+  };
+
   // Get current application state for saving/loading
   const getCurrentAppState = (): AppState => {
     return {
       budgetParams,
       iterations,
       chartData,
-      visibleChartItems
+      visibleChartItems,
+      ...(liveScenarios.length > 0 && { scenarios: liveScenarios, activeScenarioId })
     };
   };
 
@@ -571,7 +682,7 @@ export default function Home() {
     };
     
     setBudgetParams(updatedBudgetParams);
-    setIterations(state.iterations);
+    setIterations(state.iterations.map(normalizeIterationHours));
     setChartData(state.chartData);
     setIterationsPreFilled(true);
     
@@ -580,6 +691,10 @@ export default function Home() {
       setVisibleChartItems(state.visibleChartItems);
     }
     
+    // Older states have no scenarios
+    setScenarios(state.scenarios ?? []);
+    setActiveScenarioId(state.scenarios?.length ? state.activeScenarioId ?? null : null);
+    
     // Update the next iteration number for manual additions
     if (state.iterations.length > 0) {
       const maxIterationNumber = Math.max(...state.iterations.map(it => it.iterationNumber));
@@ -590,6 +705,22 @@ export default function Home() {
     }
   };
 
+  // Open a saved state passed in the URL, e.g. when drilling down from the portfolio
+  useEffect(() => {
+    const { stateId } = router.query;
+    if (!router.isReady || typeof stateId !== "string" || !user) return;
+
+    loadState(stateId, user.id).then(state => {
+      if (state) {
+        handleLoadState(state);
+        toast.success("Budget loaded");
+      } else {
+        toast.error("Saved budget not found");
+      }
+      router.replace("/", undefined, { shallow: true });
+    });
+  }, [router.isReady, router.query, user]);
+
   return (
     <>
       <Head>
@@ -606,15 +737,16 @@ export default function Home() {
             <SaveStateManager 
               currentState={getCurrentAppState()} 
               onLoadState={handleLoadState}
-              onGeneratePDF={handleGeneratePDF}
+              onGeneratePDF={handleOpenReportBuilder}
             />
           </div>
           
           <Tabs defaultValue="parameters" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="parameters">Budget Parameters</TabsTrigger>
               <TabsTrigger value="iterations">Iterations</TabsTrigger>
               <TabsTrigger value="visualization">Visualization</TabsTrigger>
+              <TabsTrigger value="scenarios">Scenarios</TabsTrigger>
             </TabsList>
             
             {/* Budget Parameters Tab */}
@@ -685,6 +817,95 @@ export default function Home() {
                     />
                     <p className="text-xs text-muted-foreground">Enter up to 3 letters for currency (e.g., USD, EUR, GBP)</p>
                   </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="totalScope">Total Scope (optional)</Label>
+                    <Input
+                      id="totalScope"
+                      name="totalScope"
+                      type="number"
+                      value={budgetParams.totalScope || ""}
+                      onChange={handleParamChange}
+                      min="0"
+                      placeholder="e.g. 240 story points"
+                    />
+                    <p className="text-xs text-muted-foreground">Record delivered scope per iteration to derive percent complete for earned value metrics</p>
+                  </div>
+
+                  <div className="pt-4 border-t border-border space-y-4">
+                    <div>
+                      <h3 className="text-lg font-medium">Calendar</h3>
+                      <p className="text-sm text-muted-foreground">
+                        Set a project start date to derive iteration dates from working days, skipping weekends and public holidays.
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="projectStartDate">Project Start Date</Label>
+                        <Input
+                          id="projectStartDate"
+                          name="projectStartDate"
+                          type="date"
+                          value={budgetParams.projectStartDate ?? ""}
+                          onChange={handleParamChange}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="holidayCountry">Public Holidays</Label>
+                        <Select
+                          value={budgetParams.holidayCountry ?? "none"}
+                          onValueChange={(value) => setBudgetParams(prev => ({
+                            ...prev,
+                            holidayCountry: value === "none" ? undefined : value
+                          }))}
+                        >
+                          <SelectTrigger id="holidayCountry">
+                            <SelectValue placeholder="No holiday calendar" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No holiday calendar</SelectItem>
+                            {Object.entries(HOLIDAY_CALENDARS).map(([code, calendar]) => (
+                              <SelectItem key={code} value={code}>{calendar.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Non-working Days</Label>
+                      <ToggleGroup
+                        type="multiple"
+                        className="justify-start flex-wrap"
+                        value={(budgetParams.weekendDays ?? DEFAULT_WEEKEND_DAYS).map(String)}
+                        onValueChange={(value) => setBudgetParams(prev => ({
+                          ...prev,
+                          weekendDays: value.map(day => parseInt(day, 10)).sort()
+                        }))}
+                      >
+                        {WEEKDAY_LABELS.map((label, day) => (
+                          <ToggleGroupItem key={label} value={String(day)} aria-label={`Toggle ${label}`}>
+                            {label}
+                          </ToggleGroupItem>
+                        ))}
+                      </ToggleGroup>
+                    </div>
+                  </div>
+
+                  <div className="pt-4 border-t border-border space-y-4">
+                    <div>
+                      <h3 className="text-lg font-medium">Rate Card</h3>
+                      <p className="text-sm text-muted-foreground">
+                        Define hourly rates per role and set the headcount per role on each iteration. Hours without a role use the cost per hour above.
+                      </p>
+                    </div>
+                    <RateCardEditor
+                      rateCard={budgetParams.rateCard ?? []}
+                      currency={budgetParams.currency}
+                      defaultRate={budgetParams.costPerHour}
+                      onChange={handleRateCardChange}
+                      onRemoveRole={handleRemoveRole}
+                    />
+                  </div>
                 </CardContent>
               </Card>
             </TabsContent>
@@ -698,9 +919,12 @@ export default function Home() {
                     Iterations are pre-filled based on initial parameters up to 100% budget consumption.
                     You can add, regenerate, or import custom iterations. The table below is editable - click on any Days or Team Size value to modify it.
                     <p className="mt-2 font-medium">
-                      <span className="text-primary">Total Hours</span> can be calculated automatically from Days and Team Size (8 hours per day), 
+                      <span className="text-primary">Planned Hours</span> can be calculated automatically from Days and Team Size (8 hours per day), 
                       but can also be manually overridden for more precise control.
                     </p>
+                    <p className="mt-2">
+                      Record <span className="font-medium">Actual Hours</span> as iterations complete. Iterations up to the current one are costed from their actual hours (or the plan if none were recorded).
+                    </p>
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -739,12 +963,12 @@ export default function Home() {
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="totalHours" className="text-primary font-bold">Total Hours</Label>
+                      <Label htmlFor="plannedHours" className="text-primary font-bold">Planned Hours</Label>
                       <Input
-                        id="totalHours"
-                        name="totalHours"
+                        id="plannedHours"
+                        name="plannedHours"
                         type="number"
-                        value={newIteration.totalHours}
+                        value={newIteration.plannedHours}
                         onChange={handleIterationChange}
                         min="1"
                         placeholder={`Default: ${newIteration.iterationDays * newIteration.teamSize * 8}`}
@@ -758,11 +982,11 @@ export default function Home() {
                       <Button 
                         variant="outline" 
                         onClick={() => {
-                          setIterations(generateIterationsToFullBudget());
+                          setIterations(generateIterationsToFullBudget(budgetParams));
                           setIterationsPreFilled(true);
                           
                           // Update the next iteration number for manual additions
-                          const generatedIterations = generateIterationsToFullBudget();
+                          const generatedIterations = generateIterationsToFullBudget(budgetParams);
                           setNewIteration(prev => ({
                             ...prev,
                             iterationNumber: generatedIterations.length + 1
@@ -776,7 +1000,7 @@ export default function Home() {
                       <Button 
                         variant="outline" 
                         onClick={() => {
-                          const updatedIterations = ensureActualCumulativeCrossesTotalBudget();
+                          const updatedIterations = ensureActualCumulativeCrossesTotalBudget(budgetParams, iterations);
                           if (updatedIterations.length > iterations.length) {
                             // Preserve the current iteration state
                             const currentIteration = iterations.find(it => it.isCurrent);
@@ -819,140 +1043,234 @@ export default function Home() {
                         <TableHeader>
                           <TableRow>
                             <TableHead>Iteration #</TableHead>
+                            {hasIterationDates && <TableHead>Dates</TableHead>}
                             <TableHead>Days</TableHead>
                             <TableHead>Team Size</TableHead>
-                            <TableHead className="text-primary font-bold">Total Hours</TableHead>
+                            {hasRateCard(budgetParams) && <TableHead>Roles</TableHead>}
+                            <TableHead className="text-primary font-bold">Planned Hours</TableHead>
+                            <TableHead>Actual Hours</TableHead>
+                            <TableHead className="text-right">Variance</TableHead>
+                            <TableHead>% Complete</TableHead>
+                            {hasTotalScope && <TableHead>Delivered Scope</TableHead>}
                             <TableHead className="text-right">Est. Cost ({budgetParams.currency})</TableHead>
                             <TableHead className="text-center">Current</TableHead>
                           </TableRow>
                         </TableHeader>
                         <TableBody>
-                          {[...iterations]
-                            .sort((a, b) => a.iterationNumber - b.iterationNumber)
-                            .map((iteration, index) => {
-                              // Calculate total hours if not set
-                              const totalHours = iteration.totalHours || iteration.iterationDays * iteration.teamSize * 8;
-                              // Use total hours for cost calculation
-                              const cost = budgetParams.costPerHour * totalHours;
-                              return (
-                                <TableRow key={iteration.iterationNumber}>
-                                  <TableCell>{iteration.iterationNumber}</TableCell>
+                          {datedIterations.map((iteration, index) => {
+                            const plannedHours = getPlannedHours(iteration);
+                            const plannedCost = getIterationCost(iteration, budgetParams);
+                            const cost = getIterationCost(iteration, budgetParams, getActualHours(iteration));
+                            const hasActual = iteration.actualHours !== undefined;
+                            const hoursVariance = getActualHours(iteration) - plannedHours;
+                            const costVariance = cost - plannedCost;
+                            const hasRoleHeadcount = Object.values(iteration.roleHeadcount ?? {}).some(count => count > 0);
+                            return (
+                              <TableRow key={iteration.iterationNumber}>
+                                <TableCell>{iteration.iterationNumber}</TableCell>
+                                {hasIterationDates && (
+                                  <TableCell className="whitespace-nowrap text-sm">
+                                    {formatDateRange(iteration.startDate, iteration.endDate)}
+                                  </TableCell>
+                                )}
+                                <TableCell>
+                                  <Input
+                                    type="number"
+                                    min="1"
+                                    value={iteration.iterationDays}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value) || 0;
+                                      if (value <= 0) {
+                                        toast.error("Days must be greater than zero");
+                                        return;
+                                      }
+                                      const updatedIterations = [...iterations];
+                                      const sortedIndex = updatedIterations
+                                        .sort((a, b) => a.iterationNumber - b.iterationNumber)
+                                        .findIndex(it => it.iterationNumber === iteration.iterationNumber);
+                                      if (sortedIndex !== -1) {
+                                        // Update days and recalculate planned hours if it wasn't manually set
+                                        const currentIteration = updatedIterations[sortedIndex];
+                                        const wasManuallySet = getPlannedHours(currentIteration) !== getDefaultIterationHours(currentIteration);
+                                        
+                                        updatedIterations[sortedIndex] = {
+                                          ...currentIteration,
+                                          iterationDays: value,
+                                          // Only auto-update planned hours if it wasn't manually set
+                                          ...(!wasManuallySet && {
+                                            plannedHours: value * currentIteration.teamSize * 8
+                                          })
+                                        };
+                                        setIterations(updatedIterations);
+                                        toast.success(`Updated days for iteration ${iteration.iterationNumber}`);
+                                      }
+                                    }}
+                                    className="h-8 w-20 transition-colors hover:border-primary focus:border-primary"
+                                  />
+                                </TableCell>
+                                <TableCell>
+                                  <Input
+                                    type="number"
+                                    min="1"
+                                    value={iteration.teamSize}
+                                    disabled={hasRoleHeadcount}
+                                    title={hasRoleHeadcount ? "Team size follows the headcount per role" : undefined}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value) || 0;
+                                      if (value <= 0) {
+                                        toast.error("Team size must be greater than zero");
+                                        return;
+                                      }
+                                      const updatedIterations = [...iterations];
+                                      const sortedIndex = updatedIterations
+                                        .sort((a, b) => a.iterationNumber - b.iterationNumber)
+                                        .findIndex(it => it.iterationNumber === iteration.iterationNumber);
+                                      if (sortedIndex !== -1) {
+                                        // Update team size and recalculate planned hours if it wasn't manually set
+                                        const currentIteration = updatedIterations[sortedIndex];
+                                        const wasManuallySet = getPlannedHours(currentIteration) !== getDefaultIterationHours(currentIteration);
+                                        
+                                        updatedIterations[sortedIndex] = {
+                                          ...currentIteration,
+                                          teamSize: value,
+                                          // Only auto-update planned hours if it wasn't manually set
+                                          ...(!wasManuallySet && {
+                                            plannedHours: currentIteration.iterationDays * value * 8
+                                          })
+                                        };
+                                        setIterations(updatedIterations);
+                                        toast.success(`Updated team size for iteration ${iteration.iterationNumber}`);
+                                      }
+                                    }}
+                                    className="h-8 w-20 transition-colors hover:border-primary focus:border-primary"
+                                  />
+                                </TableCell>
+                                {hasRateCard(budgetParams) && (
                                   <TableCell>
-                                    <Input
-                                      type="number"
-                                      min="1"
-                                      value={iteration.iterationDays}
-                                      onChange={(e) => {
-                                        const value = parseFloat(e.target.value) || 0;
-                                        if (value <= 0) {
-                                          toast.error("Days must be greater than zero");
-                                          return;
-                                        }
-                                        const updatedIterations = [...iterations];
-                                        const sortedIndex = updatedIterations
-                                          .sort((a, b) => a.iterationNumber - b.iterationNumber)
-                                          .findIndex(it => it.iterationNumber === iteration.iterationNumber);
-                                        if (sortedIndex !== -1) {
-                                          // Update days and recalculate total hours if it wasn't manually set
-                                          const currentIteration = updatedIterations[sortedIndex];
-                                          const wasManuallySet = currentIteration.totalHours !== currentIteration.iterationDays * currentIteration.teamSize * 8;
-                                          
-                                          updatedIterations[sortedIndex] = {
-                                            ...currentIteration,
-                                            iterationDays: value,
-                                            // Only auto-update total hours if it wasn't manually set
-                                            ...(!wasManuallySet && {
-                                              totalHours: value * currentIteration.teamSize * 8
-                                            })
-                                          };
-                                          setIterations(updatedIterations);
-                                          toast.success(`Updated days for iteration ${iteration.iterationNumber}`);
-                                        }
-                                      }}
-                                      className="h-8 w-20 transition-colors hover:border-primary focus:border-primary"
+                                    <RoleHeadcountPopover
+                                      rateCard={budgetParams.rateCard ?? []}
+                                      roleHeadcount={iteration.roleHeadcount}
+                                      onChange={(roleHeadcount) => handleRoleHeadcountChange(iteration.iterationNumber, roleHeadcount)}
+                                      onApplyToFollowing={() => applyRoleHeadcountToFollowing(iteration.iterationNumber)}
                                     />
                                   </TableCell>
+                                )}
+                                <TableCell className="text-primary">
+                                  <Input
+                                    type="number"
+                                    min="1"
+                                    value={plannedHours}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value) || 0;
+                                      if (value <= 0) {
+                                        toast.error("Planned hours must be greater than zero");
+                                        return;
+                                      }
+                                      const updatedIterations = [...iterations];
+                                      const sortedIndex = updatedIterations
+                                        .sort((a, b) => a.iterationNumber - b.iterationNumber)
+                                        .findIndex(it => it.iterationNumber === iteration.iterationNumber);
+                                      if (sortedIndex !== -1) {
+                                        updatedIterations[sortedIndex] = {
+                                          ...updatedIterations[sortedIndex],
+                                          plannedHours: value
+                                        };
+                                        setIterations(updatedIterations);
+                                        toast.success(`Updated planned hours for iteration ${iteration.iterationNumber}`);
+                                      }
+                                    }}
+                                    className="h-8 w-20 transition-colors border-primary hover:border-primary focus:border-primary"
+                                  />
+                                </TableCell>
+                                <TableCell>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    value={iteration.actualHours ?? ""}
+                                    placeholder={plannedHours.toString()}
+                                    onChange={(e) => {
+                                      // An empty field clears the recorded actual hours
+                                      const value = e.target.value === "" ? undefined : parseFloat(e.target.value);
+                                      if (value !== undefined && (isNaN(value) || value < 0)) {
+                                        toast.error("Actual hours cannot be negative");
+                                        return;
+                                      }
+                                      setIterations(prev => prev.map(it =>
+                                        it.iterationNumber === iteration.iterationNumber ? { ...it, actualHours: value } : it
+                                      ));
+                                    }}
+                                    className="h-8 w-20 transition-colors hover:border-primary focus:border-primary"
+                                  />
+                                </TableCell>
+                                <TableCell className={`text-right whitespace-nowrap text-sm ${!hasActual || hoursVariance === 0 ? "text-muted-foreground" : hoursVariance > 0 ? "text-red-600" : "text-green-600"}`}>
+                                  {hasActual ? (
+                                    <>
+                                      {hoursVariance > 0 ? "+" : ""}{hoursVariance.toLocaleString()} h
+                                      <span className="block text-xs">
+                                        {costVariance > 0 ? "+" : costVariance < 0 ? "-" : ""}{budgetParams.currency}{Math.abs(costVariance).toLocaleString()}
+                                      </span>
+                                    </>
+                                  ) : "–"}
+                                </TableCell>
+                                <TableCell>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    max="100"
+                                    value={iteration.percentComplete ?? ""}
+                                    onChange={(e) => {
+                                      // An empty field clears the recorded progress
+                                      const value = e.target.value === "" ? undefined : parseFloat(e.target.value);
+                                      if (value !== undefined && (isNaN(value) || value < 0 || value > 100)) {
+                                        toast.error("Percent complete must be between 0 and 100");
+                                        return;
+                                      }
+                                      setIterations(prev => prev.map(it =>
+                                        it.iterationNumber === iteration.iterationNumber ? { ...it, percentComplete: value } : it
+                                      ));
+                                    }}
+                                    className="h-8 w-20 transition-colors hover:border-primary focus:border-primary"
+                                  />
+                                </TableCell>
+                                {hasTotalScope && (
                                   <TableCell>
                                     <Input
                                       type="number"
-                                      min="1"
-                                      value={iteration.teamSize}
+                                      min="0"
+                                      value={iteration.deliveredScope ?? ""}
                                       onChange={(e) => {
-                                        const value = parseFloat(e.target.value) || 0;
-                                        if (value <= 0) {
-                                          toast.error("Team size must be greater than zero");
+                                        const value = e.target.value === "" ? undefined : parseFloat(e.target.value);
+                                        if (value !== undefined && (isNaN(value) || value < 0)) {
+                                          toast.error("Delivered scope cannot be negative");
                                           return;
                                         }
-                                        const updatedIterations = [...iterations];
-                                        const sortedIndex = updatedIterations
-                                          .sort((a, b) => a.iterationNumber - b.iterationNumber)
-                                          .findIndex(it => it.iterationNumber === iteration.iterationNumber);
-                                        if (sortedIndex !== -1) {
-                                          // Update team size and recalculate total hours if it wasn't manually set
-                                          const currentIteration = updatedIterations[sortedIndex];
-                                          const wasManuallySet = currentIteration.totalHours !== currentIteration.iterationDays * currentIteration.teamSize * 8;
-                                          
-                                          updatedIterations[sortedIndex] = {
-                                            ...currentIteration,
-                                            teamSize: value,
-                                            // Only auto-update total hours if it wasn't manually set
-                                            ...(!wasManuallySet && {
-                                              totalHours: currentIteration.iterationDays * value * 8
-                                            })
-                                          };
-                                          setIterations(updatedIterations);
-                                          toast.success(`Updated team size for iteration ${iteration.iterationNumber}`);
-                                        }
+                                        setIterations(prev => prev.map(it =>
+                                          it.iterationNumber === iteration.iterationNumber ? { ...it, deliveredScope: value } : it
+                                        ));
                                       }}
                                       className="h-8 w-20 transition-colors hover:border-primary focus:border-primary"
                                     />
                                   </TableCell>
-                                  <TableCell className="text-primary">
-                                    <Input
-                                      type="number"
-                                      min="1"
-                                      value={totalHours}
-                                      onChange={(e) => {
-                                        const value = parseFloat(e.target.value) || 0;
-                                        if (value <= 0) {
-                                          toast.error("Total hours must be greater than zero");
-                                          return;
-                                        }
-                                        const updatedIterations = [...iterations];
-                                        const sortedIndex = updatedIterations
-                                          .sort((a, b) => a.iterationNumber - b.iterationNumber)
-                                          .findIndex(it => it.iterationNumber === iteration.iterationNumber);
-                                        if (sortedIndex !== -1) {
-                                          updatedIterations[sortedIndex] = {
-                                            ...updatedIterations[sortedIndex],
-                                            totalHours: value
-                                          };
-                                          setIterations(updatedIterations);
-                                          toast.success(`Updated total hours for iteration ${iteration.iterationNumber}`);
-                                        }
-                                      }}
-                                      className="h-8 w-20 transition-colors border-primary hover:border-primary focus:border-primary"
-                                    />
-                                  </TableCell>
-                                  <TableCell className="text-right">{cost.toLocaleString()}</TableCell>
-                                  <TableCell className="text-center">
-                                    <input
-                                      type="checkbox"
-                                      checked={iteration.isCurrent || false}
-                                      onChange={() => {
-                                        const updatedIterations = [...iterations].map(it => ({
-                                          ...it,
-                                          isCurrent: it.iterationNumber === iteration.iterationNumber
-                                        }));
-                                        setIterations(updatedIterations);
-                                        toast.success(`Iteration ${iteration.iterationNumber} marked as current`);
-                                      }}
-                                      className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
-                                    />
-                                  </TableCell>
-                                </TableRow>
-                              );
-                            })}
+                                )}
+                                <TableCell className="text-right">{cost.toLocaleString()}</TableCell>
+                                <TableCell className="text-center">
+                                  <input
+                                    type="checkbox"
+                                    checked={iteration.isCurrent || false}
+                                    onChange={() => {
+                                      const updatedIterations = [...iterations].map(it => ({
+                                        ...it,
+                                        isCurrent: it.iterationNumber === iteration.iterationNumber
+                                      }));
+                                      setIterations(updatedIterations);
+                                      toast.success(`Iteration ${iteration.iterationNumber} marked as current`);
+                                    }}
+                                    className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                                  />
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })}
                         </TableBody>
                       </Table>
                     </div>
@@ -966,7 +1284,7 @@ export default function Home() {
                   
                   <div className="pt-4 border-t border-border">
                     <h3 className="text-lg font-medium mb-2">Import/Export Iterations</h3>
-                    <div className="flex flex-col sm:flex-row gap-2">
+                    <div className="flex flex-col sm:flex-row sm:flex-wrap gap-2">
                       <Button variant="outline" onClick={() => downloadTemplate("iterations")}>
                         Download Template
                       </Button>
@@ -982,7 +1300,51 @@ export default function Home() {
                           Import CSV
                         </Button>
                       </div>
+                      <Button variant="outline" onClick={handleExportWorkbook}>
+                        Export Excel
+                      </Button>
+                      <div className="relative">
+                        <Input
+                          type="file"
+                          accept=".xlsx"
+                          onChange={handleWorkbookUpload}
+                          className="hidden"
+                          id="budget-xlsx-upload"
+                        />
+                        <Button variant="outline" onClick={() => document.getElementById("budget-xlsx-upload")?.click()}>
+                          Import Excel
+                        </Button>
+                      </div>
+                      <div className="relative">
+                        <Input
+                          type="file"
+                          accept=".csv"
+                          onChange={handleTimesheetUpload}
+                          className="hidden"
+                          id="timesheet-csv-upload"
+                        />
+                        <Button variant="outline" onClick={() => document.getElementById("timesheet-csv-upload")?.click()}>
+                          Import Timesheet
+                        </Button>
+                      </div>
+                      <div className="relative">
+                        <Input
+                          type="file"
+                          accept=".csv"
+                          onChange={handleSprintUpload}
+                          className="hidden"
+                          id="sprints-csv-upload"
+                        />
+                        <Button variant="outline" onClick={() => document.getElementById("sprints-csv-upload")?.click()}>
+                          Import Sprints
+                        </Button>
+                      </div>
                     </div>
+                    <p className="text-sm text-muted-foreground mt-2">
+                      The Excel workbook holds the parameters, rate card, iterations and chart data in one file, with formulas for the cost columns.
+                      Timesheet exports (person, date and hours per row) fill in the actual hours of the iterations they fall into.
+                      Sprint exports from an issue tracker (sprint, start, end, completed points and assignees) become iterations.
+                    </p>
                   </div>
                 </CardContent>
                 <CardFooter>
@@ -1005,7 +1367,7 @@ export default function Home() {
                 <CardContent className="space-y-6">
                   {chartData.length > 0 ? (
                     <>
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                         <Card>
                           <CardContent className="pt-6">
                             <div className="text-center">
@@ -1040,148 +1402,344 @@ export default function Home() {
                             </div>
                           </CardContent>
                         </Card>
+                        <Card>
+                          <CardContent className="pt-6">
+                            <div className="text-center">
+                              <p className="text-sm font-medium text-muted-foreground">Budget Runs Out</p>
+                              <h3 className="text-2xl font-bold">
+                                {exhaustionIterationNumber !== undefined
+                                  ? (exhaustionDate ? formatShortDate(exhaustionDate) : `Iteration ${exhaustionIterationNumber}`)
+                                  : "Not reached"}
+                              </h3>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {exhaustionIterationNumber !== undefined && exhaustionDate
+                                  ? `(end of iteration ${exhaustionIterationNumber})`
+                                  : "(actual cumulative vs total budget)"}
+                              </p>
+                            </div>
+                          </CardContent>
+                        </Card>
                       </div>
+
+                      <Card>
+                        <CardHeader className="pb-2">
+                          <CardTitle className="text-base">Budget Exhaustion Forecast</CardTitle>
+                          <CardDescription>
+                            {monteCarloForecast && monteCarloForecast.runs > 0
+                              ? `Monte Carlo simulation of ${monteCarloForecast.runs.toLocaleString()} runs, based on the cost variance of ${monteCarloForecast.sampleSize} past iterations.`
+                              : "Record actual hours for at least two iterations up to the current one to simulate when the budget runs out."}
+                            {isForecastRunning && " Updating..."}
+                            {forecastError && ` ${forecastError}.`}
+                          </CardDescription>
+                        </CardHeader>
+                        {monteCarloForecast && monteCarloForecast.runs > 0 && (
+                          <CardContent>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                              {([
+                                ["P50", "50%", monteCarloForecast.exhaustion.p50],
+                                ["P85", "85%", monteCarloForecast.exhaustion.p85],
+                                ["P95", "95%", monteCarloForecast.exhaustion.p95]
+                              ] as const).map(([label, share, exhaustion]) => (
+                                <div key={label} className="text-center">
+                                  <p className="text-sm font-medium text-muted-foreground">{label}</p>
+                                  <h3 className="text-2xl font-bold">{formatExhaustionForecast(exhaustion)}</h3>
+                                  <p className="text-xs text-muted-foreground mt-1">
+                                    {exhaustion?.date
+                                      ? `(end of iteration ${exhaustion.iterationNumber}, ${share} of runs)`
+                                      : `(budget exhausted by then in ${share} of runs)`}
+                                  </p>
+                                </div>
+                              ))}
+                            </div>
+                          </CardContent>
+                        )}
+                      </Card>
                       
                       <div className="space-y-4">
-                        <div className="flex justify-center">
-                          <ToggleGroup 
-                            type="multiple" 
-                            value={visibleChartItems}
+                        <div className="flex flex-wrap justify-center gap-4">
+                          <ToggleGroup
+                            type="single"
+                            value={chartMode}
                             onValueChange={(value) => {
-                              // Ensure at least one item is always visible
-                              if (value.length > 0) {
-                                setVisibleChartItems(value);
+                              if (value) {
+                                setVisibleChartItems(prev => setChartMode(prev, value as ChartMode));
                               }
                             }}
                           >
-                            <ToggleGroupItem value="standardCumulative" aria-label="Toggle Standard Cumulative">
-                              <span className="flex items-center gap-2">
-                                <span className="w-3 h-3 rounded-full bg-[#10b981]"></span>
-                                Standard Cumulative
-                              </span>
+                            <ToggleGroupItem value="cost" aria-label="Show cumulative cost chart">
+                              Cumulative Cost
                             </ToggleGroupItem>
-                            <ToggleGroupItem value="actualCumulative" aria-label="Toggle Actual Cumulative">
-                              <span className="flex items-center gap-2">
-                                <span className="w-3 h-3 rounded-full bg-[#f59e0b]"></span>
-                                Actual Cumulative
-                              </span>
+                            <ToggleGroupItem value="burnDown" aria-label="Show burn-down chart">
+                              Burn-down
                             </ToggleGroupItem>
-                            <ToggleGroupItem value="individualCost" aria-label="Toggle Individual Cost">
-                              <span className="flex items-center gap-2">
-                                <span className="w-3 h-3 rounded-full bg-[#4f46e5]"></span>
-                                Individual Cost
-                              </span>
+                            <ToggleGroupItem value="burnUp" aria-label="Show burn-up chart">
+                              Burn-up
                             </ToggleGroupItem>
                           </ToggleGroup>
+                          {chartMode === "cost" && (
+                            <ToggleGroup 
+                              type="multiple" 
+                              value={visibleChartItems}
+                              onValueChange={(value) => {
+                                // Ensure at least one item is always visible
+                                if (value.length > 0) {
+                                  setVisibleChartItems(value);
+                                }
+                              }}
+                            >
+                              <ToggleGroupItem value="standardCumulative" aria-label="Toggle Standard Cumulative">
+                                <span className="flex items-center gap-2">
+                                  <span className="w-3 h-3 rounded-full bg-[#10b981]"></span>
+                                  Standard Cumulative
+                                </span>
+                              </ToggleGroupItem>
+                              <ToggleGroupItem value="plannedCumulative" aria-label="Toggle Planned Cumulative">
+                                <span className="flex items-center gap-2">
+                                  <span className="w-3 h-3 rounded-full bg-[#0891b2]"></span>
+                                  Planned Cumulative
+                                </span>
+                              </ToggleGroupItem>
+                              <ToggleGroupItem value="actualCumulative" aria-label="Toggle Actual Cumulative">
+                                <span className="flex items-center gap-2">
+                                  <span className="w-3 h-3 rounded-full bg-[#f59e0b]"></span>
+                                  Actual Cumulative
+                                </span>
+                              </ToggleGroupItem>
+                              <ToggleGroupItem value="forecastCumulative" aria-label="Toggle Forecast Cumulative">
+                                <span className="flex items-center gap-2">
+                                  <span className="w-3 h-3 rounded-full border-2 border-dashed border-[#f59e0b]"></span>
+                                  Forecast
+                                </span>
+                              </ToggleGroupItem>
+                              <ToggleGroupItem value="forecastCone" aria-label="Toggle Forecast Cone">
+                                <span className="flex items-center gap-2">
+                                  <span className="w-3 h-3 rounded-full bg-[#f59e0b]/30"></span>
+                                  Forecast Cone
+                                </span>
+                              </ToggleGroupItem>
+                              <ToggleGroupItem value="individualCost" aria-label="Toggle Individual Cost">
+                                <span className="flex items-center gap-2">
+                                  <span className="w-3 h-3 rounded-full bg-[#4f46e5]"></span>
+                                  Individual Cost
+                                </span>
+                              </ToggleGroupItem>
+                            </ToggleGroup>
+                          )}
+                          {hasIterationDates && (
+                            <ToggleGroup
+                              type="single"
+                              value={xAxisMode}
+                              onValueChange={(value) => {
+                                if (value) {
+                                  setXAxisMode(value as "iteration" | "date");
+                                }
+                              }}
+                            >
+                              <ToggleGroupItem value="iteration" aria-label="Show iterations on X axis">
+                                Iterations
+                              </ToggleGroupItem>
+                              <ToggleGroupItem value="date" aria-label="Show dates on X axis">
+                                Dates
+                              </ToggleGroupItem>
+                            </ToggleGroup>
+                          )}
                         </div>
                         
                         <div className="h-auto min-h-[500px] w-full overflow-visible p-4" ref={chartRef}>
-                          <ChartContainer
-                            config={{
-                              individualCost: { label: "Individual Cost", color: "#4f46e5" },
-                              cumulativeStandard: { label: "Standard Cumulative", color: "#10b981" },
-                              cumulativeActual: { label: "Actual Cumulative", color: "#f59e0b" },
-                            }}
-                            className="min-h-[500px]"
-                          >
-                            <ResponsiveContainer width="100%" height="100%" minHeight={500}>
-                              <ComposedChart
-                                data={chartData}
-                                margin={{ top: 10, right: 30, left: 0, bottom: 70 }}
-                              >
-                              <CartesianGrid strokeDasharray="3 3" />
-                              <XAxis 
-                                dataKey="name" 
-                                allowDataOverflow={false}
-                                angle={-45}
-                                textAnchor="end"
-                                height={80}
-                                interval={chartData.length > 20 ? Math.floor(chartData.length / 20) : 0}
-                                tick={{ fontSize: 10 }}
-                              />
-                              {/* Primary Y-axis for cumulative costs */}
-                              <YAxis 
-                                yAxisId="right"
-                                orientation="right"
-                                domain={[0, 'auto']}
-                                label={{ value: `Cumulative Cost (${budgetParams.currency})`, angle: -90, position: 'insideRight' }}
-                                tickFormatter={(value) => {
-                                  if (value >= 1000000) {
-                                    return `${(value / 1000000).toFixed(1)}M`;
-                                  } else if (value >= 1000) {
-                                    return `${(value / 1000).toFixed(1)}K`;
-                                  }
-                                  return value;
-                                }}
-                              />
-                              {/* Secondary Y-axis for individual iteration costs */}
-                              <YAxis 
-                                yAxisId="left"
-                                orientation="left"
-                                domain={[0, 250000]}
-                                label={{ value: `Iteration Cost (${budgetParams.currency})`, angle: -90, position: 'insideLeft' }}
-                                tickFormatter={(value) => {
-                                  if (value >= 1000000) {
-                                    return `${(value / 1000000).toFixed(1)}M`;
-                                  } else if (value >= 1000) {
-                                    return `${(value / 1000).toFixed(1)}K`;
-                                  }
-                                  return value;
-                                }}
-                              />
-                              <ChartTooltip content={<ChartTooltipContent />} />
-                              {/* Red dotted horizontal line at total budget level */}
-                              <RechartsPrimitive.ReferenceLine 
-                                y={budgetParams.budgetSize} 
-                                yAxisId="right" 
-                                stroke="red" 
-                                strokeDasharray="5 5" 
-                                label={{ 
-                                  value: "Total Budget", 
-                                  position: "insideTopRight",
-                                  fill: "red",
-                                  fontSize: 12
-                                }} 
-                              />
-                              {visibleChartItems.includes("standardCumulative") && (
-                                <Area
-                                  yAxisId="right"
-                                  type="monotone"
-                                  dataKey="cumulativeStandard"
-                                  stroke="#10b981"
-                                  fill="#10b981"
-                                  fillOpacity={0.1}
-                                  strokeWidth={2}
-                                  name="Standard Cumulative"
+                          {chartMode === "cost" ? (
+                            <ChartContainer
+                              config={{
+                                individualCost: { label: "Individual Cost", color: "#4f46e5" },
+                                cumulativeStandard: { label: "Standard Cumulative", color: "#10b981" },
+                                cumulativePlanned: { label: "Planned Cumulative", color: "#0891b2" },
+                                cumulativeActual: { label: "Actual Cumulative", color: "#f59e0b" },
+                                cumulativeForecast: { label: "Forecast", color: "#f59e0b" },
+                                forecastP50: { label: "Forecast P50", color: "#d97706" },
+                                forecastRange85: { label: "Forecast P15–P85", color: "#f59e0b" },
+                                forecastRange95: { label: "Forecast P5–P95", color: "#f59e0b" },
+                              }}
+                              className="min-h-[500px]"
+                            >
+                              <ResponsiveContainer width="100%" height="100%" minHeight={500}>
+                                <ComposedChart
+                                  data={coneChartData}
+                                  margin={{ top: 10, right: 30, left: 0, bottom: 70 }}
+                                >
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis 
+                                  dataKey="name" 
+                                  allowDataOverflow={false}
+                                  angle={-45}
+                                  textAnchor="end"
+                                  height={80}
+                                  interval={chartData.length > 20 ? Math.floor(chartData.length / 20) : 0}
+                                  tick={{ fontSize: 10 }}
+                                  tickFormatter={getChartLabel}
                                 />
-                              )}
-                              {visibleChartItems.includes("actualCumulative") && (
-                                <Area
+                                {/* Primary Y-axis for cumulative costs */}
+                                <YAxis 
                                   yAxisId="right"
-                                  type="monotone"
-                                  dataKey="cumulativeActual"
-                                  stroke="#f59e0b"
-                                  fill="#f59e0b"
-                                  fillOpacity={0.1}
-                                  strokeWidth={2}
-                                  name="Actual Cumulative"
+                                  orientation="right"
+                                  domain={[0, 'auto']}
+                                  label={{ value: `Cumulative Cost (${budgetParams.currency})`, angle: -90, position: 'insideRight' }}
+                                  tickFormatter={(value) => {
+                                    if (value >= 1000000) {
+                                      return `${(value / 1000000).toFixed(1)}M`;
+                                    } else if (value >= 1000) {
+                                      return `${(value / 1000).toFixed(1)}K`;
+                                    }
+                                    return value;
+                                  }}
                                 />
-                              )}
-                              {/* Blue bars for individual iteration costs */}
-                              {visibleChartItems.includes("individualCost") && (
-                                <Bar
+                                {/* Secondary Y-axis for individual iteration costs */}
+                                <YAxis 
                                   yAxisId="left"
-                                  dataKey="iterationCost"
-                                  fill="#4f46e5"
-                                  fillOpacity={0.6}
-                                  name="Individual Cost"
-                                  barSize={20}
+                                  orientation="left"
+                                  domain={[0, 250000]}
+                                  label={{ value: `Iteration Cost (${budgetParams.currency})`, angle: -90, position: 'insideLeft' }}
+                                  tickFormatter={(value) => {
+                                    if (value >= 1000000) {
+                                      return `${(value / 1000000).toFixed(1)}M`;
+                                    } else if (value >= 1000) {
+                                      return `${(value / 1000).toFixed(1)}K`;
+                                    }
+                                    return value;
+                                  }}
+                                />
+                                <ChartTooltip content={<ChartTooltipContent labelFormatter={(label) => getChartLabel(String(label))} />} />
+                                {/* Red dotted horizontal line at total budget level */}
+                                <RechartsPrimitive.ReferenceLine 
+                                  y={budgetParams.budgetSize} 
+                                  yAxisId="right" 
+                                  stroke="red" 
+                                  strokeDasharray="5 5" 
+                                  label={{ 
+                                    value: "Total Budget", 
+                                    position: "insideTopRight",
+                                    fill: "red",
+                                    fontSize: 12
+                                  }} 
                                 />
-                              )}
-                              <Legend />
-                            </ComposedChart>
-                            </ResponsiveContainer>
-                          </ChartContainer>
+                                {visibleChartItems.includes("standardCumulative") && (
+                                  <Area
+                                    yAxisId="right"
+                                    type="monotone"
+                                    dataKey="cumulativeStandard"
+                                    stroke="#10b981"
+                                    fill="#10b981"
+                                    fillOpacity={0.1}
+                                    strokeWidth={2}
+                                    name="Standard Cumulative"
+                                  />
+                                )}
+                                {visibleChartItems.includes("actualCumulative") && (
+                                  <Area
+                                    yAxisId="right"
+                                    type="monotone"
+                                    dataKey="cumulativeActual"
+                                    stroke="#f59e0b"
+                                    fill="#f59e0b"
+                                    fillOpacity={0.1}
+                                    strokeWidth={2}
+                                    name="Actual Cumulative"
+                                  />
+                                )}
+                                {visibleChartItems.includes("plannedCumulative") && (
+                                  <Line
+                                    yAxisId="right"
+                                    type="monotone"
+                                    dataKey="cumulativePlanned"
+                                    stroke="#0891b2"
+                                    strokeWidth={2}
+                                    dot={false}
+                                    name="Planned Cumulative"
+                                  />
+                                )}
+                                {visibleChartItems.includes("forecastCumulative") && (
+                                  <Line
+                                    yAxisId="right"
+                                    type="monotone"
+                                    dataKey="cumulativeForecast"
+                                    stroke="#f59e0b"
+                                    strokeWidth={2}
+                                    strokeDasharray="6 4"
+                                    dot={false}
+                                    name="Forecast"
+                                  />
+                                )}
+                                {/* Shaded Monte Carlo cone: P5–P95 outer band, P15–P85 inner band and median */}
+                                {visibleChartItems.includes("forecastCone") && forecastBands.length > 0 && (
+                                  <Area
+                                    yAxisId="right"
+                                    type="monotone"
+                                    dataKey="forecastRange95"
+                                    stroke="none"
+                                    fill="#f59e0b"
+                                    fillOpacity={0.1}
+                                    name="Forecast P5–P95"
+                                  />
+                                )}
+                                {visibleChartItems.includes("forecastCone") && forecastBands.length > 0 && (
+                                  <Area
+                                    yAxisId="right"
+                                    type="monotone"
+                                    dataKey="forecastRange85"
+                                    stroke="none"
+                                    fill="#f59e0b"
+                                    fillOpacity={0.2}
+                                    name="Forecast P15–P85"
+                                  />
+                                )}
+                                {visibleChartItems.includes("forecastCone") && forecastBands.length > 0 && (
+                                  <Line
+                                    yAxisId="right"
+                                    type="monotone"
+                                    dataKey="forecastP50"
+                                    stroke="#d97706"
+                                    strokeWidth={1}
+                                    strokeDasharray="2 2"
+                                    dot={false}
+                                    name="Forecast P50"
+                                  />
+                                )}
+                                {/* Stacked bars for iteration costs broken down by role */}
+                                {visibleChartItems.includes("individualCost") && chartRoleIds.map((roleId, index) => (
+                                  <Bar
+                                    key={roleId}
+                                    yAxisId="left"
+                                    dataKey={`roleCosts.${roleId}`}
+                                    stackId="roleCosts"
+                                    fill={ROLE_COLORS[index % ROLE_COLORS.length]}
+                                    fillOpacity={0.6}
+                                    name={getRoleName(roleId, budgetParams)}
+                                    barSize={20}
+                                  />
+                                ))}
+                                {/* Blue bars for individual iteration costs */}
+                                {visibleChartItems.includes("individualCost") && chartRoleIds.length === 0 && (
+                                  <Bar
+                                    yAxisId="left"
+                                    dataKey="iterationCost"
+                                    fill="#4f46e5"
+                                    fillOpacity={0.6}
+                                    name="Individual Cost"
+                                    barSize={20}
+                                  />
+                                )}
+                                <Legend />
+                              </ComposedChart>
+                              </ResponsiveContainer>
+                            </ChartContainer>
+                          ) : (
+                            <BurnChart
+                              mode={chartMode}
+                              burnChartData={burnChartData}
+                              budgetSize={budgetParams.budgetSize}
+                              totalScope={budgetParams.totalScope}
+                              currency={budgetParams.currency}
+                              getChartLabel={getChartLabel}
+                            />
+                          )}
                         </div>
                       </div>
                       
@@ -1239,8 +1797,62 @@ export default function Home() {
                   )}
                 </CardContent>
               </Card>
+              {chartData.length > 0 && (
+                <EarnedValuePanel
+                  earnedValueData={earnedValueData}
+                  evm={evm}
+                  currency={budgetParams.currency}
+                  getChartLabel={getChartLabel}
+                />
+              )}
+            </TabsContent>
+
+            {/* Scenarios Tab */}
+            <TabsContent value="scenarios" className="space-y-4">
+              <ScenarioPanel
+                scenarios={liveScenarios}
+                activeScenarioId={activeScenarioId}
+                currency={budgetParams.currency}
+                onFork={handleForkScenario}
+                onSwitch={handleSwitchScenario}
+                onRename={handleRenameScenario}
+                onDelete={handleDeleteScenario}
+                onUpdate={handleUpdateScenario}
+              />
             </TabsContent>
           </Tabs>
+
+          <CsvImportDialog
+            file={csvImportFile}
+            onOpenChange={(open) => !open && setCsvImportFile(null)}
+            budgetParams={budgetParams}
+            iterations={iterations}
+            onApplyIterations={handleApplyImportedIterations}
+            onApplyParameters={handleApplyImportedParameters}
+          />
+
+          <TimesheetImportDialog
+            file={timesheetImportFile}
+            onOpenChange={(open) => !open && setTimesheetImportFile(null)}
+            budgetParams={budgetParams}
+            iterations={iterations}
+            onApply={handleApplyTimesheet}
+          />
+
+          <SprintImportDialog
+            file={sprintImportFile}
+            onOpenChange={(open) => !open && setSprintImportFile(null)}
+            budgetParams={budgetParams}
+            iterations={iterations}
+            onApply={handleApplySprints}
+          />
+
+          <ReportBuilderDialog
+            open={reportBuilderOpen}
+            onOpenChange={setReportBuilderOpen}
+            onGenerate={handleGenerateReport}
+            onCopyMarkdown={handleCopyMarkdownReport}
+          />
         </main>
       </div>
     </>
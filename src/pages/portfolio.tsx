@@ -0,0 +1,401 @@
+import React, { useState, useEffect, Fragment } from "react";
+import Head from "next/head";
+import { useRouter } from "next/router";
+import Header from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { BudgetHealth, ProjectSummary } from "@/types/budget";
+import { HEALTH_LABELS, getWorstHealth } from "@/util/portfolio";
+import { getPortfolio, saveProject, deleteProject, assignStateToProject } from "@/util/projectManager";
+import { formatShortDate } from "@/util/calendar";
+
+type SortKey = "name" | "totalBudget" | "consumed" | "percentage" | "health";
+
+const HEALTH_ORDER: Record<BudgetHealth, number> = {
+  "on-track": 0,
+  "at-risk": 1,
+  "over-budget": 2
+};
+
+const HEALTH_CLASSES: Record<BudgetHealth, string> = {
+  "on-track": "bg-green-100 text-green-800 border-green-200",
+  "at-risk": "bg-amber-100 text-amber-800 border-amber-200",
+  "over-budget": "bg-red-100 text-red-800 border-red-200"
+};
+
+const UNASSIGNED = "unassigned";
+
+const HealthBadge = ({ health }: { health: BudgetHealth }) => (
+  <Badge variant="outline" className={HEALTH_CLASSES[health]}>{HEALTH_LABELS[health]}</Badge>
+);
+
+export default function Portfolio() {
+  const router = useRouter();
+  const { isAuthenticated } = useAuth();
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [newProjectName, setNewProjectName] = useState("");
+  const [expandedProjectKeys, setExpandedProjectKeys] = useState<string[]>([]);
+  const [sortKey, setSortKey] = useState<SortKey>("health");
+  const [sortAscending, setSortAscending] = useState(false);
+
+  const fetchPortfolio = async () => {
+    setIsLoading(true);
+    try {
+      setProjects(await getPortfolio());
+    } catch (error) {
+      console.error("Error loading portfolio:", error);
+      toast.error("Failed to load portfolio");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchPortfolio();
+    } else {
+      setProjects([]);
+    }
+  }, [isAuthenticated]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(key === "name");
+    }
+  };
+
+  const sortedProjects = [...projects].sort((a, b) => {
+    const compare = sortKey === "name"
+      ? a.name.localeCompare(b.name)
+      : sortKey === "health"
+        ? HEALTH_ORDER[a.health] - HEALTH_ORDER[b.health] || a.percentage - b.percentage
+        : a[sortKey] - b[sortKey];
+    return sortAscending ? compare : -compare;
+  });
+
+  const handleCreateProject = async () => {
+    if (!newProjectName.trim()) {
+      toast.error("Please enter a name for the project");
+      return;
+    }
+
+    try {
+      await saveProject(newProjectName.trim());
+      setNewProjectName("");
+      toast.success("Project created");
+      fetchPortfolio();
+    } catch (error) {
+      console.error("Error creating project:", error);
+      toast.error("Failed to create project");
+    }
+  };
+
+  const handleRenameProject = async (id: string, currentName: string) => {
+    const name = window.prompt("Project name", currentName);
+    if (!name?.trim() || name.trim() === currentName) return;
+
+    try {
+      await saveProject(name.trim(), id);
+      fetchPortfolio();
+    } catch (error) {
+      console.error("Error renaming project:", error);
+      toast.error("Failed to rename project");
+    }
+  };
+
+  const handleDeleteProject = async (id: string, name: string) => {
+    if (!window.confirm(`Delete project "${name}"? Its budgets will be kept as unassigned.`)) return;
+
+    if (await deleteProject(id)) {
+      toast.success("Project deleted");
+      fetchPortfolio();
+    } else {
+      toast.error("Failed to delete project");
+    }
+  };
+
+  const handleAssignBudget = async (stateId: string, value: string) => {
+    if (await assignStateToProject(stateId, value === UNASSIGNED ? null : value)) {
+      fetchPortfolio();
+    } else {
+      toast.error("Failed to move budget");
+    }
+  };
+
+  const toggleExpanded = (key: string) => {
+    setExpandedProjectKeys(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+  };
+
+  const totalBudget = projects.reduce((sum, project) => sum + project.totalBudget, 0);
+  const totalConsumed = projects.reduce((sum, project) => sum + project.consumed, 0);
+  const budgetCount = projects.reduce((sum, project) => sum + project.budgets.length, 0);
+  const mixedCurrency = new Set(projects.filter(p => p.budgets.length > 0).map(p => p.currency)).size > 1
+    || projects.some(project => project.mixedCurrency);
+  const portfolioCurrency = projects.find(project => project.budgets.length > 0)?.currency ?? "$";
+  const portfolioHealth = getWorstHealth(projects.map(project => project.health));
+  const assignableProjects = projects.filter(project => project.id !== null);
+
+  const sortIndicator = (key: SortKey) => (sortKey === key ? (sortAscending ? " ▲" : " ▼") : "");
+
+  return (
+    <>
+      <Head>
+        <title>Portfolio | Budget Visualization</title>
+        <meta name="description" content="Budget portfolio across projects" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <div className="bg-background min-h-screen flex flex-col">
+        <Header />
+        <main className="flex-1 container mx-auto py-6 px-4 space-y-6">
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+            <h1 className="text-3xl font-bold">Portfolio</h1>
+            <Button variant="outline" onClick={() => router.push("/")}>
+              Back to Budget Tool
+            </Button>
+          </div>
+
+          {!isAuthenticated ? (
+            <Alert>
+              <AlertDescription>
+                Log in to see the budgets you have saved, grouped by project.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-center">
+                      <p className="text-sm font-medium text-muted-foreground">Total Budget</p>
+                      <h3 className="text-2xl font-bold">{portfolioCurrency}{Math.round(totalBudget).toLocaleString()}</h3>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        ({budgetCount} budgets in {assignableProjects.length} projects)
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-center">
+                      <p className="text-sm font-medium text-muted-foreground">Consumed Budget</p>
+                      <h3 className="text-2xl font-bold">{portfolioCurrency}{Math.round(totalConsumed).toLocaleString()}</h3>
+                      <p className="text-xs text-muted-foreground mt-1">(up to each budget&apos;s current iteration)</p>
+                    </div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-center">
+                      <p className="text-sm font-medium text-muted-foreground">Consumption Rate</p>
+                      <h3 className="text-2xl font-bold">
+                        {(totalBudget > 0 ? (totalConsumed / totalBudget) * 100 : 0).toFixed(1)}%
+                      </h3>
+                      {mixedCurrency && (
+                        <p className="text-xs text-muted-foreground mt-1">(budgets use different currencies)</p>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-center space-y-2">
+                      <p className="text-sm font-medium text-muted-foreground">Portfolio Health</p>
+                      <HealthBadge health={portfolioHealth} />
+                      <p className="text-xs text-muted-foreground">
+                        {(["over-budget", "at-risk", "on-track"] as BudgetHealth[])
+                          .map(health => `${projects.filter(p => p.health === health).length} ${HEALTH_LABELS[health].toLowerCase()}`)
+                          .join(", ")}
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Projects</CardTitle>
+                  <CardDescription>
+                    Health compares each budget&apos;s cost to date with its plan: more than 5% over plan or 90% consumed is at risk, more than 15% over plan or fully consumed is over budget. A project takes the health of its worst budget.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      value={newProjectName}
+                      onChange={(e) => setNewProjectName(e.target.value)}
+                      placeholder="New project name"
+                      className="sm:max-w-sm"
+                    />
+                    <Button onClick={handleCreateProject}>Create Project</Button>
+                  </div>
+
+                  {isLoading && projects.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Loading portfolio...</p>
+                  ) : projects.length === 0 ? (
+                    <Alert>
+                      <AlertDescription>
+                        No projects or saved budgets yet. Save a budget in the budget tool and create a project to group it.
+                      </AlertDescription>
+                    </Alert>
+                  ) : (
+                    <div className="border rounded-md overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="cursor-pointer select-none" onClick={() => handleSort("name")}>
+                              Project{sortIndicator("name")}
+                            </TableHead>
+                            <TableHead className="cursor-pointer select-none text-right" onClick={() => handleSort("totalBudget")}>
+                              Total Budget{sortIndicator("totalBudget")}
+                            </TableHead>
+                            <TableHead className="cursor-pointer select-none text-right" onClick={() => handleSort("consumed")}>
+                              Consumed{sortIndicator("consumed")}
+                            </TableHead>
+                            <TableHead className="cursor-pointer select-none w-[200px]" onClick={() => handleSort("percentage")}>
+                              Consumption{sortIndicator("percentage")}
+                            </TableHead>
+                            <TableHead className="cursor-pointer select-none" onClick={() => handleSort("health")}>
+                              Health{sortIndicator("health")}
+                            </TableHead>
+                            <TableHead className="w-[1%]"></TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {sortedProjects.map(project => {
+                            const projectKey = project.id ?? UNASSIGNED;
+                            const isExpanded = expandedProjectKeys.includes(projectKey);
+
+                            return (
+                              <Fragment key={projectKey}>
+                                <TableRow className="cursor-pointer" onClick={() => toggleExpanded(projectKey)}>
+                                  <TableCell className="font-medium">
+                                    {isExpanded ? "▾" : "▸"} {project.name}
+                                    <span className="ml-2 text-xs text-muted-foreground">
+                                      ({project.budgets.length} {project.budgets.length === 1 ? "budget" : "budgets"})
+                                    </span>
+                                  </TableCell>
+                                  <TableCell className="text-right">{project.currency}{Math.round(project.totalBudget).toLocaleString()}</TableCell>
+                                  <TableCell className="text-right">{project.currency}{Math.round(project.consumed).toLocaleString()}</TableCell>
+                                  <TableCell>
+                                    <div className="flex items-center gap-2">
+                                      <Progress value={Math.min(project.percentage, 100)} className="h-2" />
+                                      <span className="text-xs w-12 text-right">{project.percentage.toFixed(1)}%</span>
+                                    </div>
+                                  </TableCell>
+                                  <TableCell><HealthBadge health={project.health} /></TableCell>
+                                  <TableCell onClick={(e) => e.stopPropagation()}>
+                                    {project.id && (
+                                      <div className="flex gap-2">
+                                        <Button variant="ghost" size="sm" onClick={() => handleRenameProject(project.id!, project.name)}>
+                                          Rename
+                                        </Button>
+                                        <Button variant="ghost" size="sm" onClick={() => handleDeleteProject(project.id!, project.name)}>
+                                          Delete
+                                        </Button>
+                                      </div>
+                                    )}
+                                  </TableCell>
+                                </TableRow>
+                                {isExpanded && (
+                                  <TableRow className="hover:bg-transparent">
+                                    <TableCell colSpan={6} className="bg-muted/30">
+                                      {project.budgets.length > 0 ? (
+                                        <Table>
+                                          <TableHeader>
+                                            <TableRow>
+                                              <TableHead>Budget</TableHead>
+                                              <TableHead>Saved</TableHead>
+                                              <TableHead className="text-right">Total</TableHead>
+                                              <TableHead className="text-right">Consumed</TableHead>
+                                              <TableHead className="text-right">vs Plan</TableHead>
+                                              <TableHead>Runs Out</TableHead>
+                                              <TableHead>Health</TableHead>
+                                              <TableHead>Project</TableHead>
+                                              <TableHead className="w-[1%]"></TableHead>
+                                            </TableRow>
+                                          </TableHeader>
+                                          <TableBody>
+                                            {project.budgets.map(budget => (
+                                              <TableRow key={budget.id}>
+                                                <TableCell className="font-medium">{budget.name}</TableCell>
+                                                <TableCell>{new Date(budget.date).toLocaleDateString()}</TableCell>
+                                                <TableCell className="text-right">{budget.currency}{Math.round(budget.totalBudget).toLocaleString()}</TableCell>
+                                                <TableCell className="text-right">
+                                                  {budget.currency}{Math.round(budget.consumed).toLocaleString()}
+                                                  <span className="block text-xs text-muted-foreground">{budget.percentage.toFixed(1)}%</span>
+                                                </TableCell>
+                                                <TableCell className={`text-right ${budget.costVariancePercentage > 0 ? "text-red-600" : budget.costVariancePercentage < 0 ? "text-green-600" : "text-muted-foreground"}`}>
+                                                  {budget.costVariancePercentage > 0 ? "+" : ""}{budget.costVariancePercentage.toFixed(1)}%
+                                                </TableCell>
+                                                <TableCell>
+                                                  {budget.exhaustionIterationNumber !== undefined
+                                                    ? (budget.exhaustionDate ? formatShortDate(budget.exhaustionDate) : `Iteration ${budget.exhaustionIterationNumber}`)
+                                                    : "Not reached"}
+                                                </TableCell>
+                                                <TableCell><HealthBadge health={budget.health} /></TableCell>
+                                                <TableCell>
+                                                  <Select
+                                                    value={budget.projectId ?? UNASSIGNED}
+                                                    onValueChange={(value) => handleAssignBudget(budget.id, value)}
+                                                  >
+                                                    <SelectTrigger className="h-8 w-40">
+                                                      <SelectValue />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                                                      {assignableProjects.map(p => (
+                                                        <SelectItem key={p.id} value={p.id!}>{p.name}</SelectItem>
+                                                      ))}
+                                                    </SelectContent>
+                                                  </Select>
+                                                </TableCell>
+                                                <TableCell>
+                                                  <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() => router.push(`/?stateId=${encodeURIComponent(budget.id)}`)}
+                                                  >
+                                                    Open
+                                                  </Button>
+                                                </TableCell>
+                                              </TableRow>
+                                            ))}
+                                          </TableBody>
+                                        </Table>
+                                      ) : (
+                                        <p className="text-sm text-muted-foreground py-2">
+                                          No budgets in this project yet. Move a budget here from another project or from the unassigned budgets.
+                                        </p>
+                                      )}
+                                    </TableCell>
+                                  </TableRow>
+                                )}
+                              </Fragment>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -1,22 +1,336 @@
+export interface RateCardEntry {
+  id: string;
+  role: string;
+  hourlyRate: number;
+  currency?: string; // Currency the rate is quoted in, for display. Rates are not converted.
+}
+
 export interface BudgetParams {
   costPerHour: number;
   budgetSize: number;
   teamSize: number;
   workingDaysPerIteration: number;
   currency: string;
+  projectStartDate?: string; // ISO date (yyyy-MM-dd) on which the first iteration starts
+  weekendDays?: number[]; // Non-working days of the week (0 = Sunday), defaults to Saturday and Sunday
+  holidayCountry?: string; // Country code of the bundled public-holiday calendar to skip
+  rateCard?: RateCardEntry[]; // Hourly rates per role, costPerHour is used for anyone without a role
+  totalScope?: number; // Total scope (e.g. story points), used to turn delivered scope into percent complete
 }
 
 export interface IterationData {
   iterationNumber: number;
   iterationDays: number;
   teamSize: number;
-  totalHours?: number; // Optional to maintain backward compatibility
+  totalHours?: number; // Legacy single hours field, read as plannedHours when that is not set
+  plannedHours?: number; // Defaults to iterationDays * teamSize * 8
+  actualHours?: number; // Recorded hours, used up to the current iteration
   isCurrent?: boolean; // Flag to mark an iteration as the current one
+  startDate?: string; // ISO date, derived from projectStartDate and working days
+  endDate?: string; // ISO date, derived from projectStartDate and working days
+  roleHeadcount?: Record<string, number>; // Headcount per rate card entry id
+  percentComplete?: number; // Cumulative percent of the total scope complete at the end of the iteration
+  deliveredScope?: number; // Scope delivered in the iteration, used when percentComplete is not set
 }
 
 export interface ChartData {
   name: string;
+  iterationNumber?: number; // Not set on the "Start" data point
   iterationCost: number;
   cumulativeStandard: number;
-  cumulativeActual: number;
-}
\ No newline at end of file
+  cumulativePlanned: number;
+  cumulativeActual: number | null; // Only set up to the current iteration
+  cumulativeForecast: number | null; // Actual at the current iteration plus planned cost after it
+  startDate?: string;
+  endDate?: string;
+  roleCosts?: Record<string, number>; // Iteration cost per rate card entry id, only set when a rate card is used
+}
+
+export interface BudgetMetrics {
+  consumed: number; // Cumulative actual cost up to the current iteration
+  percentage: number; // Consumed budget as a percentage of budgetSize
+  remaining: number;
+  exhaustionIterationNumber?: number; // First iteration at which actual or forecast cost reaches budgetSize
+  exhaustionDate?: string; // End date of that iteration, if iterations have dates
+}
+
+export interface IterationBudgetData extends IterationData {
+  totalHours: number; // Actual hours up to the current iteration, planned hours after it
+  plannedHours: number;
+  plannedCost: number;
+  isActual: boolean; // Whether the iteration is costed from recorded hours
+  hoursVariance?: number; // Actual minus planned hours, if actual hours were recorded
+  costVariance?: number; // Actual minus planned cost, if actual hours were recorded
+  iterationCost: number;
+  cumulativeCost: number;
+  remainingBudget: number;
+  budgetConsumed: number; // Percentage of budgetSize consumed after this iteration
+  budgetExceeded: boolean;
+  roleCosts: Record<string, number>;
+}
+
+export interface EarnedValueData {
+  name: string;
+  iterationNumber?: number; // Not set on the "Start" data point
+  endDate?: string;
+  plannedValue: number; // Budgeted cost of the work scheduled so far
+  earnedValue: number | null; // Budgeted cost of the work completed so far, only set up to the current iteration
+  actualCost: number | null; // Actual cost so far, only set up to the current iteration
+  percentComplete: number | null;
+}
+
+// Burn-down and burn-up chart series, one data point per chart data point
+export interface BurnChartData {
+  name: string;
+  idealRemaining: number; // Budget left if it were spent evenly over the iterations
+  remaining: number | null; // Budget left after the actual cost, only set up to the current iteration
+  remainingForecast: number | null; // Budget left after the forecast cost, from the current iteration on
+  consumed: number | null; // Actual cumulative cost, only set up to the current iteration
+  consumedForecast: number | null; // Forecast cumulative cost, from the current iteration on
+  completedScope: number | null; // Scope complete so far, only set up to the current iteration with a total scope
+}
+
+export interface EVMMetrics {
+  hasProgress: boolean; // Whether any iteration up to the current one records progress
+  budgetAtCompletion: number; // BAC, the total budget
+  percentComplete: number;
+  plannedValue: number; // PV
+  earnedValue: number; // EV
+  actualCost: number; // AC
+  costVariance: number; // CV = EV - AC
+  scheduleVariance: number; // SV = EV - PV
+  costPerformanceIndex?: number; // CPI = EV / AC, undefined while AC is 0
+  schedulePerformanceIndex?: number; // SPI = EV / PV, undefined while PV is 0
+  estimateAtCompletion?: number; // EAC = BAC / CPI
+  estimateToComplete?: number; // ETC = EAC - AC
+  varianceAtCompletion?: number; // VAC = BAC - EAC
+}
+
+export interface BudgetCalculation {
+  chartData: ChartData[];
+  metrics: BudgetMetrics;
+  iterationBudgetData: IterationBudgetData[];
+  earnedValueData: EarnedValueData[];
+  evm: EVMMetrics;
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  budgetParams: BudgetParams;
+  iterations: IterationData[];
+}
+
+export interface ScenarioSummary {
+  scenarioId: string;
+  name: string;
+  endCost: number; // Cumulative actual and forecast cost after the last iteration
+  iterationCount: number;
+  exhaustionIterationNumber?: number;
+  exhaustionDate?: string;
+  endCostDelta: number; // Difference in end cost from the baseline scenario
+  exhaustionIterationDelta?: number; // Difference in exhaustion iteration from the baseline, if both run out
+}
+
+export interface ForecastBand {
+  iterationNumber: number;
+  p5: number; // Cumulative cost percentiles across simulated runs
+  p15: number;
+  p50: number;
+  p85: number;
+  p95: number;
+}
+
+export interface ExhaustionForecast {
+  iterationNumber: number;
+  date?: string; // End date of that iteration, if iterations have dates
+}
+
+export interface MonteCarloForecast {
+  runs: number; // 0 if there were too few past iterations to simulate
+  sampleSize: number; // Past iterations with actual hours used to estimate variance
+  exhaustedShare: number; // Share of runs that exhaust the budget within the horizon
+  bands: ForecastBand[]; // One per remaining iteration after the current one
+  exhaustion: {
+    p50?: ExhaustionForecast; // Iteration by which the budget is exhausted in 50% of runs
+    p85?: ExhaustionForecast;
+    p95?: ExhaustionForecast;
+  };
+}
+
+export type BudgetHealth = "on-track" | "at-risk" | "over-budget";
+
+export interface BudgetSummary {
+  id: string;
+  name: string;
+  date: string;
+  projectId: string | null;
+  currency: string;
+  totalBudget: number;
+  consumed: number; // Cumulative actual cost up to the current iteration
+  percentage: number; // Consumed budget as a percentage of the total budget
+  plannedToDate: number; // Cumulative planned cost up to the current iteration
+  costVariancePercentage: number; // Consumed vs planned to date, positive when over plan
+  exhaustionIterationNumber?: number;
+  exhaustionDate?: string;
+  health: BudgetHealth;
+}
+
+export interface ProjectSummary {
+  id: string | null; // null for budgets not assigned to a project
+  name: string;
+  description?: string | null;
+  currency: string;
+  mixedCurrency: boolean; // Budgets use different currencies, so totals add up unconverted amounts
+  totalBudget: number;
+  consumed: number;
+  percentage: number;
+  health: BudgetHealth; // Worst health of the project's budgets
+  budgets: BudgetSummary[];
+}
+
+export interface ParamChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface IterationChange {
+  iterationNumber: number;
+  status: "added" | "removed" | "modified";
+  changedFields: string[]; // Labels of the changed fields of a modified iteration
+  hoursBefore?: number; // Actual hours up to the current iteration, planned hours after it
+  hoursAfter?: number;
+  hoursDelta: number;
+  costBefore?: number;
+  costAfter?: number;
+  costDelta: number;
+}
+
+export interface StateDiffChartData {
+  name: string;
+  before: number | null; // Cumulative actual cost of the earlier state
+  after: number | null; // Cumulative actual cost of the later state
+}
+
+export interface StateDiff {
+  paramChanges: ParamChange[];
+  iterationChanges: IterationChange[];
+  chartData: StateDiffChartData[];
+}
+
+export interface RetentionSettings {
+  retentionDays: number | null; // Unpinned states not saved for this long go to the trash; null keeps them forever
+  trashRetentionDays: number; // States are deleted permanently after this long in the trash
+}
+
+export type ImportTarget = "iterations" | "parameters";
+
+// Merge updates matching iterations (or the given parameters) and keeps the
+// rest; replace discards the current data
+export type ImportMode = "merge" | "replace";
+
+export interface ImportField {
+  key: string; // Field of IterationData or BudgetParams
+  label: string;
+  required: boolean; // Required for new iterations, or for parameters when replacing
+  aliases: string[]; // Other header names the field is recognized by
+}
+
+export type ColumnMapping = Record<string, string | null>; // Field key to CSV header
+
+// How dates are written in an imported file
+export type ImportDateFormat = "yyyy-MM-dd" | "MM/dd/yyyy" | "dd/MM/yyyy" | "dd.MM.yyyy";
+
+export interface RejectedRow {
+  rowNumber: number; // Line in the file, the header being line 1
+  reasons: string[];
+  values: Record<string, string>;
+}
+
+export interface IterationImportResult {
+  iterations: IterationData[]; // Iterations after the import is applied
+  importedCount: number;
+  rejected: RejectedRow[];
+}
+
+export interface ParameterImportResult {
+  budgetParams: BudgetParams | null; // Parameters after the import is applied, null if the row was rejected
+  rejected: RejectedRow[];
+}
+
+// Timesheet rows are matched to iterations by their date or by a sprint label
+// that contains the iteration number
+export type TimesheetMatchBy = "dates" | "sprint";
+
+export interface TimesheetPreset {
+  id: string;
+  name: string;
+  mapping: ColumnMapping; // Header for each of person, date, hours and sprint
+  dateFormat: ImportDateFormat;
+  builtIn?: boolean; // Bundled presets can't be deleted
+}
+
+export interface TimesheetIterationSummary {
+  iterationNumber: number;
+  startDate?: string;
+  endDate?: string;
+  entryCount: number;
+  people: string[];
+  importedHours: number; // Becomes the iteration's actual hours
+  previousActualHours?: number;
+  plannedHours: number;
+}
+
+export interface TimesheetImportResult {
+  iterations: IterationData[]; // Iterations with the imported actual hours filled in
+  summaries: TimesheetIterationSummary[];
+  unmatched: RejectedRow[]; // Valid rows that don't belong to any iteration
+  rejected: RejectedRow[];
+  totalHours: number; // Hours across all valid rows
+  matchedHours: number;
+  warnings: string[];
+}
+
+export interface SprintSummary {
+  iterationNumber: number; // Sprints are numbered in order of their start date
+  name: string;
+  startDate: string;
+  endDate: string;
+  iterationDays: number; // Working days from the start to the end of the sprint
+  assignees: string[];
+  deliveredScope?: number; // Story points completed, if the file has them
+  rowCount: number;
+}
+
+export interface SprintImportResult {
+  iterations: IterationData[]; // Iterations after the import is applied
+  sprints: SprintSummary[];
+  rejected: RejectedRow[];
+  projectStartDate?: string; // Start of the first sprint
+  warnings: string[];
+}
+
+// Parts of the PDF report, drawn in this order
+export type ReportSection = "parameters" | "metrics" | "chart" | "iterations" | "notes" | "roleCosts" | "earnedValue";
+
+// Columns of the iteration table in the PDF report
+export type ReportColumn = "iteration" | "days" | "teamSize" | "hours" | "variance" | "cost" | "cumulative" | "remaining" | "consumed";
+
+export type ReportOrientation = "portrait" | "landscape";
+
+// File formats the report can be exported as
+export type ReportFormat = "pdf" | "html" | "markdown";
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  title: string;
+  footer: string; // Printed with the page number at the bottom of every page, empty for none
+  logo?: string; // Data URL of a PNG or JPEG image shown next to the title
+  orientation: ReportOrientation;
+  sections: ReportSection[];
+  columns: ReportColumn[];
+  builtIn?: boolean; // Bundled templates can't be deleted
+}
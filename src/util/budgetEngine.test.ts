@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import { BudgetParams, IterationData } from "@/types/budget";
+import {
+  calculateBudgetMetrics,
+  calculateChartData,
+  calculateIterationBudgetData,
+  ensureActualCumulativeCrossesTotalBudget
+} from "@/util/budgetEngine";
+
+// 2 people for 10 days at 100 an hour: 160 hours and 16,000 per standard iteration
+const budgetParams: BudgetParams = {
+  costPerHour: 100,
+  budgetSize: 64000,
+  teamSize: 2,
+  workingDaysPerIteration: 10,
+  currency: "$"
+};
+
+const iteration = (iterationNumber: number, overrides: Partial<IterationData> = {}): IterationData => ({
+  iterationNumber,
+  iterationDays: 10,
+  teamSize: 2,
+  plannedHours: 160,
+  ...overrides
+});
+
+// Four planned iterations; the first overran by 40 hours and the second is current
+const iterations: IterationData[] = [
+  iteration(1, { actualHours: 200 }),
+  iteration(2, { isCurrent: true }),
+  iteration(3),
+  iteration(4)
+];
+
+describe("calculateChartData", () => {
+  it("starts with a zero data point", () => {
+    const [start] = calculateChartData(budgetParams, iterations);
+    expect(start).toEqual({
+      name: "Start",
+      iterationCost: 0,
+      cumulativeStandard: 0,
+      cumulativePlanned: 0,
+      cumulativeActual: 0,
+      cumulativeForecast: null
+    });
+  });
+
+  it("shows actual cost up to the current iteration and the forecast from it", () => {
+    const chartData = calculateChartData(budgetParams, iterations).slice(1);
+    expect(chartData.map(data => data.iterationCost)).toEqual([20000, 16000, 0, 0]);
+    expect(chartData.map(data => data.cumulativeActual)).toEqual([20000, 36000, null, null]);
+    expect(chartData.map(data => data.cumulativeForecast)).toEqual([null, 36000, 52000, 68000]);
+  });
+
+  it("treats the last iteration as current if none is flagged", () => {
+    const chartData = calculateChartData(budgetParams, iterations.map(it => ({ ...it, isCurrent: false })));
+    expect(chartData.map(data => data.cumulativeActual)).toEqual([0, 20000, 36000, 52000, 68000]);
+    expect(chartData[chartData.length - 1].cumulativeForecast).toBe(68000);
+  });
+
+  it("sorts iterations by number", () => {
+    const chartData = calculateChartData(budgetParams, [...iterations].reverse());
+    expect(chartData.map(data => data.name)).toEqual(["Start", "Iteration 1", "Iteration 2", "Iteration 3", "Iteration 4"]);
+  });
+
+  it("keeps the standard line on the budget parameters and the plan on the planned hours", () => {
+    const chartData = calculateChartData(budgetParams, [
+      iteration(1, { plannedHours: 80, isCurrent: true }),
+      iteration(2, { teamSize: 4, plannedHours: 320 })
+    ]);
+    expect(chartData.map(data => data.cumulativeStandard)).toEqual([0, 16000, 32000]);
+    expect(chartData.map(data => data.cumulativePlanned)).toEqual([0, 8000, 40000]);
+  });
+
+  it("keeps a planned zero-hour iteration at zero", () => {
+    const chartData = calculateChartData(budgetParams, [iteration(1, { plannedHours: 0, isCurrent: true })]);
+    expect(chartData[1].cumulativePlanned).toBe(0);
+    expect(chartData[1].cumulativeActual).toBe(0);
+  });
+});
+
+describe("calculateBudgetMetrics", () => {
+  it("measures consumption at the current iteration", () => {
+    expect(calculateBudgetMetrics(budgetParams, iterations)).toEqual({
+      consumed: 36000,
+      percentage: 56.25,
+      remaining: 28000,
+      exhaustionIterationNumber: 4,
+      exhaustionDate: undefined
+    });
+  });
+
+  it("reports a negative remaining budget once it is overspent", () => {
+    const metrics = calculateBudgetMetrics({ ...budgetParams, budgetSize: 30000 }, iterations);
+    expect(metrics.consumed).toBe(36000);
+    expect(metrics.percentage).toBe(120);
+    expect(metrics.remaining).toBe(-6000);
+    expect(metrics.exhaustionIterationNumber).toBe(2);
+  });
+
+  it("has no exhaustion point while the forecast stays within budget", () => {
+    const metrics = calculateBudgetMetrics({ ...budgetParams, budgetSize: 100000 }, iterations);
+    expect(metrics.exhaustionIterationNumber).toBeUndefined();
+  });
+
+  it("falls back to the last data point if the current iteration is not in the chart data", () => {
+    const chartData = calculateChartData(budgetParams, iterations.slice(0, 1));
+    expect(calculateBudgetMetrics(budgetParams, iterations, chartData).consumed).toBe(20000);
+  });
+
+  it("reports nothing consumed without a budget", () => {
+    expect(calculateBudgetMetrics({ ...budgetParams, budgetSize: 0 }, iterations)).toEqual({
+      consumed: 0,
+      percentage: 0,
+      remaining: 0
+    });
+  });
+});
+
+describe("calculateIterationBudgetData", () => {
+  it("costs iterations up to the current one from their actual hours", () => {
+    const [first, second, third] = calculateIterationBudgetData(budgetParams, iterations);
+
+    expect(first).toMatchObject({
+      isActual: true,
+      totalHours: 200,
+      plannedHours: 160,
+      hoursVariance: 40,
+      costVariance: 4000,
+      iterationCost: 20000,
+      cumulativeCost: 20000,
+      remainingBudget: 44000,
+      budgetConsumed: 31.25,
+      budgetExceeded: false
+    });
+    // No hours recorded, so it went to plan and has no variance
+    expect(second).toMatchObject({ isActual: true, totalHours: 160, hoursVariance: undefined, costVariance: undefined });
+    expect(third).toMatchObject({ isActual: false, totalHours: 160, cumulativeCost: 52000 });
+  });
+
+  it("flags the iterations that exceed the budget", () => {
+    const data = calculateIterationBudgetData({ ...budgetParams, budgetSize: 30000 }, iterations);
+    expect(data.map(d => d.budgetExceeded)).toEqual([false, true, true, true]);
+    expect(data[1].remainingBudget).toBe(-6000);
+    expect(data[1].budgetConsumed).toBe(120);
+  });
+});
+
+describe("ensureActualCumulativeCrossesTotalBudget", () => {
+  it("leaves an empty plan alone", () => {
+    expect(ensureActualCumulativeCrossesTotalBudget(budgetParams, [])).toEqual([]);
+  });
+
+  it("adds standard iterations until the forecast reaches the budget", () => {
+    const result = ensureActualCumulativeCrossesTotalBudget(budgetParams, [
+      iteration(1),
+      iteration(2, { isCurrent: true })
+    ]);
+    expect(result).toHaveLength(4);
+    expect(result.slice(2)).toEqual([
+      { iterationNumber: 3, iterationDays: 10, teamSize: 2, plannedHours: 160, isCurrent: false },
+      { iterationNumber: 4, iterationDays: 10, teamSize: 2, plannedHours: 160, isCurrent: false }
+    ]);
+  });
+
+  it("keeps the iterations, sorted, if the forecast already reaches the budget", () => {
+    const result = ensureActualCumulativeCrossesTotalBudget(budgetParams, [...iterations].reverse());
+    expect(result.map(it => it.iterationNumber)).toEqual([1, 2, 3, 4]);
+    expect(result[0].actualHours).toBe(200);
+  });
+
+  it("regenerates the plan if the actual cost is already over budget", () => {
+    const result = ensureActualCumulativeCrossesTotalBudget({ ...budgetParams, budgetSize: 10000 }, iterations);
+    expect(result).toEqual([
+      { iterationNumber: 1, iterationDays: 10, teamSize: 2, plannedHours: 160, isCurrent: true }
+    ]);
+  });
+
+  it("regenerates the plan if it has far more iterations than the budget needs", () => {
+    const result = ensureActualCumulativeCrossesTotalBudget(
+      budgetParams,
+      Array.from({ length: 10 }, (_, index) => iteration(index + 1, { isCurrent: index === 0 }))
+    );
+    expect(result).toHaveLength(4);
+    expect(result[3].isCurrent).toBe(true);
+  });
+
+  it("does nothing with parameters that cost nothing", () => {
+    const result = ensureActualCumulativeCrossesTotalBudget({ ...budgetParams, costPerHour: 0 }, iterations);
+    expect(result).toBe(iterations);
+  });
+});
@@ -0,0 +1,492 @@
+import {
+  BudgetParams,
+  IterationData,
+  ChartData,
+  BudgetMetrics,
+  IterationBudgetData,
+  BudgetCalculation,
+  BurnChartData,
+  EarnedValueData,
+  EVMMetrics,
+  RateCardEntry
+} from "@/types/budget";
+import { MAX_ITERATION_DAYS, assignIterationDates } from "@/util/calendar";
+
+export const HOURS_PER_DAY = 8;
+export const MAX_ITERATIONS = 100;
+
+// Upper bounds for plans from outside the app (API requests, imports and
+// backups), far beyond any real plan
+export const MAX_TEAM_SIZE = 1000;
+export const MAX_ITERATION_HOURS = MAX_ITERATION_DAYS * MAX_TEAM_SIZE * 24;
+export const MAX_AMOUNT = 1e12; // Budgets, rates and scope
+
+// Role key for hours that are not assigned to a rate card role and are
+// costed at costPerHour
+export const DEFAULT_RATE_ROLE_ID = "default";
+
+// Sort iterations by iteration number without mutating the input
+export const sortIterations = (iterations: IterationData[]): IterationData[] => {
+  return [...iterations].sort((a, b) => a.iterationNumber - b.iterationNumber);
+};
+
+// Hours of an iteration derived from its days and team size
+export const getDefaultIterationHours = (iteration: IterationData): number => {
+  return iteration.iterationDays * iteration.teamSize * HOURS_PER_DAY;
+};
+
+// Get planned hours for an iteration (use calculated value if not set).
+// Older saves only have totalHours, which is read as the plan.
+export const getPlannedHours = (iteration: IterationData): number => {
+  return iteration.plannedHours ?? iteration.totalHours ?? getDefaultIterationHours(iteration);
+};
+
+// Get actual hours for an iteration. Iterations without recorded hours are
+// assumed to have gone to plan.
+export const getActualHours = (iteration: IterationData): number => {
+  return iteration.actualHours ?? getPlannedHours(iteration);
+};
+
+export const hasActualHours = (iteration: IterationData): boolean => {
+  return iteration.actualHours !== undefined;
+};
+
+// Move the legacy totalHours field of older saves and imports to plannedHours
+export const normalizeIterationHours = (iteration: IterationData): IterationData => {
+  const { totalHours, ...rest } = iteration;
+  return {
+    ...rest,
+    plannedHours: iteration.plannedHours ?? totalHours ?? getDefaultIterationHours(iteration)
+  };
+};
+
+export const hasRateCard = (budgetParams: BudgetParams): boolean => {
+  return (budgetParams.rateCard?.length ?? 0) > 0;
+};
+
+// Display name of a role key used in roleCosts
+export const getRoleName = (roleId: string, budgetParams: BudgetParams): string => {
+  if (roleId === DEFAULT_RATE_ROLE_ID) return "Default rate";
+  return budgetParams.rateCard?.find(entry => entry.id === roleId)?.role || "Unknown role";
+};
+
+// Split the cost of an iteration by role. Hours are shared between roles in
+// proportion to their headcount. Iterations without a headcount breakdown,
+// and roles that are no longer on the rate card, use costPerHour.
+export const getIterationRoleCosts = (
+  iteration: IterationData,
+  budgetParams: BudgetParams,
+  hours: number = getPlannedHours(iteration)
+): Record<string, number> => {
+  const headcount = Object.entries(iteration.roleHeadcount ?? {}).filter(([, count]) => count > 0);
+  const totalHeadcount = headcount.reduce((sum, [, count]) => sum + count, 0);
+
+  if (totalHeadcount === 0) {
+    return { [DEFAULT_RATE_ROLE_ID]: budgetParams.costPerHour * hours };
+  }
+
+  const ratesById = new Map<string, RateCardEntry>((budgetParams.rateCard ?? []).map(entry => [entry.id, entry]));
+  const roleCosts: Record<string, number> = {};
+
+  headcount.forEach(([roleId, count]) => {
+    const rateCardEntry = ratesById.get(roleId);
+    const key = rateCardEntry ? roleId : DEFAULT_RATE_ROLE_ID;
+    const rate = rateCardEntry ? rateCardEntry.hourlyRate : budgetParams.costPerHour;
+    roleCosts[key] = (roleCosts[key] ?? 0) + hours * (count / totalHeadcount) * rate;
+  });
+
+  return roleCosts;
+};
+
+// Calculate the cost of a single iteration for the given hours (planned by default)
+export const getIterationCost = (
+  iteration: IterationData,
+  budgetParams: BudgetParams,
+  hours: number = getPlannedHours(iteration)
+): number => {
+  const roleCosts = getIterationRoleCosts(iteration, budgetParams, hours);
+  return Object.values(roleCosts).reduce((sum, cost) => sum + cost, 0);
+};
+
+export const getPlannedCost = (iteration: IterationData, budgetParams: BudgetParams): number => {
+  return getIterationCost(iteration, budgetParams, getPlannedHours(iteration));
+};
+
+export const getActualCost = (iteration: IterationData, budgetParams: BudgetParams): number => {
+  return getIterationCost(iteration, budgetParams, getActualHours(iteration));
+};
+
+// Hours of an iteration that follows the default budget parameters
+export const getStandardIterationHours = (budgetParams: BudgetParams): number => {
+  return HOURS_PER_DAY * budgetParams.teamSize * budgetParams.workingDaysPerIteration;
+};
+
+// Cost of an iteration that follows the default budget parameters
+export const getStandardIterationCost = (budgetParams: BudgetParams): number => {
+  return budgetParams.costPerHour * getStandardIterationHours(budgetParams);
+};
+
+// Index of the current iteration in a sorted list. If no iteration is
+// flagged as current, the last one is treated as current.
+export const getCurrentIterationIndex = (sortedIterations: IterationData[]): number => {
+  const currentIndex = sortedIterations.findIndex(it => it.isCurrent);
+  return currentIndex !== -1 ? currentIndex : sortedIterations.length - 1;
+};
+
+// Build the chart series. Plan follows the planned hours of every iteration,
+// actual follows the recorded hours up to the current iteration, and the
+// forecast continues from the current actual with the planned hours after it.
+export const calculateChartData = (budgetParams: BudgetParams, iterations: IterationData[]): ChartData[] => {
+  const standardIterationCost = getStandardIterationCost(budgetParams);
+  const sortedIterations = assignIterationDates(budgetParams, iterations);
+  const currentIterationIndex = getCurrentIterationIndex(sortedIterations);
+
+  let cumulativeStandard = 0;
+  let cumulativePlanned = 0;
+  let cumulativeCost = 0;
+
+  // Start with an initial data point at 0
+  const data: ChartData[] = [
+    {
+      name: "Start",
+      iterationCost: 0,
+      cumulativeStandard: 0,
+      cumulativePlanned: 0,
+      cumulativeActual: 0,
+      cumulativeForecast: null
+    }
+  ];
+
+  const includeRoleCosts = hasRateCard(budgetParams);
+
+  sortedIterations.forEach((iteration, index) => {
+    const isActual = index <= currentIterationIndex;
+    const plannedCost = getPlannedCost(iteration, budgetParams);
+    const actualCost = getActualCost(iteration, budgetParams);
+
+    cumulativeStandard += standardIterationCost;
+    cumulativePlanned += plannedCost;
+    cumulativeCost += isActual ? actualCost : plannedCost;
+
+    data.push({
+      name: `Iteration ${iteration.iterationNumber}`,
+      iterationNumber: iteration.iterationNumber,
+      // Only show iteration cost up to current iteration
+      iterationCost: isActual ? actualCost : 0,
+      cumulativeStandard,
+      cumulativePlanned,
+      cumulativeActual: isActual ? cumulativeCost : null,
+      // The forecast starts at the current iteration so both lines join up
+      cumulativeForecast: index >= currentIterationIndex ? cumulativeCost : null,
+      startDate: iteration.startDate,
+      endDate: iteration.endDate,
+      ...(includeRoleCosts && {
+        roleCosts: isActual ? getIterationRoleCosts(iteration, budgetParams, getActualHours(iteration)) : {}
+      })
+    });
+  });
+
+  return data;
+};
+
+// Actual cost up to the current iteration, followed by the forecast
+export const getCumulativeCost = (data: ChartData): number => {
+  return data.cumulativeActual ?? data.cumulativeForecast ?? 0;
+};
+
+// Consumed budget and consumption percentage at the current iteration
+export const calculateBudgetMetrics = (
+  budgetParams: BudgetParams,
+  iterations: IterationData[],
+  chartData: ChartData[] = calculateChartData(budgetParams, iterations)
+): BudgetMetrics => {
+  if (chartData.length === 0 || budgetParams.budgetSize === 0) {
+    return { consumed: 0, percentage: 0, remaining: budgetParams.budgetSize };
+  }
+
+  const sortedIterations = sortIterations(iterations);
+  const currentIteration = sortedIterations.find(it => it.isCurrent);
+
+  // Fall back to the last data point if there is no current iteration or it
+  // is missing from the chart data (e.g. a stale chart loaded from a save)
+  const currentDataPoint = currentIteration
+    ? chartData.find(data => data.name === `Iteration ${currentIteration.iterationNumber}`)
+    : undefined;
+  const consumed = getCumulativeCost(currentDataPoint ?? chartData[chartData.length - 1]);
+
+  // Find where the actual (or forecast) cumulative line crosses the total budget
+  const exhaustionDataPoint = chartData.find(
+    data => data.iterationNumber !== undefined && getCumulativeCost(data) >= budgetParams.budgetSize
+  );
+
+  return {
+    consumed,
+    percentage: (consumed / budgetParams.budgetSize) * 100,
+    remaining: budgetParams.budgetSize - consumed,
+    exhaustionIterationNumber: exhaustionDataPoint?.iterationNumber,
+    exhaustionDate: exhaustionDataPoint?.endDate
+  };
+};
+
+// Per-iteration consumption used by the report table. Iterations up to the
+// current one are costed from their actual hours, later ones from the plan.
+export const calculateIterationBudgetData = (
+  budgetParams: BudgetParams,
+  iterations: IterationData[]
+): IterationBudgetData[] => {
+  const sortedIterations = assignIterationDates(budgetParams, iterations);
+  const currentIterationIndex = getCurrentIterationIndex(sortedIterations);
+  let cumulativeCost = 0;
+
+  return sortedIterations.map((iteration, index) => {
+    const isActual = index <= currentIterationIndex;
+    const plannedHours = getPlannedHours(iteration);
+    const plannedCost = getPlannedCost(iteration, budgetParams);
+    const totalHours = isActual ? getActualHours(iteration) : plannedHours;
+    const roleCosts = getIterationRoleCosts(iteration, budgetParams, totalHours);
+    const iterationCost = Object.values(roleCosts).reduce((sum, cost) => sum + cost, 0);
+    const hasVariance = isActual && hasActualHours(iteration);
+
+    cumulativeCost += iterationCost;
+    const remainingBudget = budgetParams.budgetSize - cumulativeCost;
+
+    return {
+      ...iteration,
+      totalHours,
+      plannedHours,
+      plannedCost,
+      isActual,
+      hoursVariance: hasVariance ? totalHours - plannedHours : undefined,
+      costVariance: hasVariance ? iterationCost - plannedCost : undefined,
+      iterationCost,
+      cumulativeCost,
+      remainingBudget,
+      budgetConsumed: (cumulativeCost / budgetParams.budgetSize) * 100,
+      budgetExceeded: remainingBudget < 0,
+      roleCosts
+    };
+  });
+};
+
+// Whether an iteration records progress, either directly as a percentage or
+// as delivered scope against the total scope
+export const hasProgress = (iteration: IterationData, budgetParams: BudgetParams): boolean => {
+  return iteration.percentComplete !== undefined ||
+    (iteration.deliveredScope !== undefined && (budgetParams.totalScope ?? 0) > 0);
+};
+
+// Earned value series. Planned value spreads the total budget (BAC) over the
+// planned cost of the iterations; earned value is BAC times the cumulative
+// percent complete, which carries over iterations that record no progress.
+export const calculateEarnedValueData = (budgetParams: BudgetParams, iterations: IterationData[]): EarnedValueData[] => {
+  const sortedIterations = assignIterationDates(budgetParams, iterations);
+  const currentIterationIndex = getCurrentIterationIndex(sortedIterations);
+  const budgetAtCompletion = budgetParams.budgetSize;
+  const totalPlannedCost = sortedIterations.reduce((sum, iteration) => sum + getPlannedCost(iteration, budgetParams), 0);
+  const totalScope = budgetParams.totalScope ?? 0;
+
+  let cumulativePlanned = 0;
+  let cumulativeActual = 0;
+  let cumulativeScope = 0;
+  let percentComplete = 0;
+
+  const data: EarnedValueData[] = [
+    { name: "Start", plannedValue: 0, earnedValue: 0, actualCost: 0, percentComplete: 0 }
+  ];
+
+  sortedIterations.forEach((iteration, index) => {
+    const isActual = index <= currentIterationIndex;
+
+    cumulativePlanned += getPlannedCost(iteration, budgetParams);
+    cumulativeActual += isActual ? getActualCost(iteration, budgetParams) : 0;
+    cumulativeScope += iteration.deliveredScope ?? 0;
+
+    if (iteration.percentComplete !== undefined) {
+      percentComplete = iteration.percentComplete;
+    } else if (iteration.deliveredScope !== undefined && totalScope > 0) {
+      percentComplete = (cumulativeScope / totalScope) * 100;
+    }
+    percentComplete = Math.min(Math.max(percentComplete, 0), 100);
+
+    data.push({
+      name: `Iteration ${iteration.iterationNumber}`,
+      iterationNumber: iteration.iterationNumber,
+      endDate: iteration.endDate,
+      plannedValue: totalPlannedCost > 0 ? budgetAtCompletion * (cumulativePlanned / totalPlannedCost) : 0,
+      earnedValue: isActual ? budgetAtCompletion * (percentComplete / 100) : null,
+      actualCost: isActual ? cumulativeActual : null,
+      percentComplete: isActual ? percentComplete : null
+    });
+  });
+
+  return data;
+};
+
+// Burn-down and burn-up series. Remaining budget is the total budget less
+// the actual (or forecast) cumulative cost, and the ideal burn-down spends
+// the budget evenly over the iterations. Completed scope is the total scope
+// times the percent complete from the earned value data.
+export const calculateBurnChartData = (
+  budgetParams: BudgetParams,
+  chartData: ChartData[],
+  earnedValueData: EarnedValueData[]
+): BurnChartData[] => {
+  const { budgetSize } = budgetParams;
+  const totalScope = budgetParams.totalScope ?? 0;
+  const iterationCount = chartData.length - 1;
+
+  return chartData.map((data, index) => {
+    const percentComplete = earnedValueData.find(point => point.name === data.name)?.percentComplete ?? null;
+
+    return {
+      name: data.name,
+      idealRemaining: iterationCount > 0 ? budgetSize * (1 - index / iterationCount) : budgetSize,
+      remaining: data.cumulativeActual !== null ? budgetSize - data.cumulativeActual : null,
+      remainingForecast: data.cumulativeForecast !== null ? budgetSize - data.cumulativeForecast : null,
+      consumed: data.cumulativeActual,
+      consumedForecast: data.cumulativeForecast,
+      completedScope: totalScope > 0 && percentComplete !== null ? (totalScope * percentComplete) / 100 : null
+    };
+  });
+};
+
+// Earned value metrics at the current iteration
+export const calculateEVMMetrics = (
+  budgetParams: BudgetParams,
+  iterations: IterationData[],
+  earnedValueData: EarnedValueData[] = calculateEarnedValueData(budgetParams, iterations)
+): EVMMetrics => {
+  const sortedIterations = sortIterations(iterations);
+  const currentIterationIndex = getCurrentIterationIndex(sortedIterations);
+  const budgetAtCompletion = budgetParams.budgetSize;
+
+  // The data point of the current iteration is the last one with an actual cost
+  const currentDataPoint = [...earnedValueData].reverse().find(data => data.actualCost !== null) ?? earnedValueData[0];
+  const plannedValue = currentDataPoint?.plannedValue ?? 0;
+  const earnedValue = currentDataPoint?.earnedValue ?? 0;
+  const actualCost = currentDataPoint?.actualCost ?? 0;
+
+  const costPerformanceIndex = actualCost > 0 ? earnedValue / actualCost : undefined;
+  const schedulePerformanceIndex = plannedValue > 0 ? earnedValue / plannedValue : undefined;
+  const estimateAtCompletion = costPerformanceIndex ? budgetAtCompletion / costPerformanceIndex : undefined;
+
+  return {
+    hasProgress: sortedIterations
+      .slice(0, currentIterationIndex + 1)
+      .some(iteration => hasProgress(iteration, budgetParams)),
+    budgetAtCompletion,
+    percentComplete: currentDataPoint?.percentComplete ?? 0,
+    plannedValue,
+    earnedValue,
+    actualCost,
+    costVariance: earnedValue - actualCost,
+    scheduleVariance: earnedValue - plannedValue,
+    costPerformanceIndex,
+    schedulePerformanceIndex,
+    estimateAtCompletion,
+    estimateToComplete: estimateAtCompletion !== undefined ? estimateAtCompletion - actualCost : undefined,
+    varianceAtCompletion: estimateAtCompletion !== undefined ? budgetAtCompletion - estimateAtCompletion : undefined
+  };
+};
+
+// Run the whole calculation for a set of parameters and iterations
+export const calculateBudget = (budgetParams: BudgetParams, iterations: IterationData[]): BudgetCalculation => {
+  const chartData = calculateChartData(budgetParams, iterations);
+  const earnedValueData = calculateEarnedValueData(budgetParams, iterations);
+
+  return {
+    chartData,
+    metrics: calculateBudgetMetrics(budgetParams, iterations, chartData),
+    iterationBudgetData: calculateIterationBudgetData(budgetParams, iterations),
+    earnedValueData,
+    evm: calculateEVMMetrics(budgetParams, iterations, earnedValueData)
+  };
+};
+
+// Generate iterations up to 100% budget consumption
+export const generateIterationsToFullBudget = (budgetParams: BudgetParams): IterationData[] => {
+  const { budgetSize, teamSize, workingDaysPerIteration } = budgetParams;
+  const hoursPerIteration = getStandardIterationHours(budgetParams);
+  const costPerIteration = getStandardIterationCost(budgetParams);
+
+  // Skip if cost per iteration is zero (invalid parameters)
+  if (costPerIteration <= 0 || budgetSize <= 0) return [];
+
+  const iterationCount = Math.min(Math.ceil(budgetSize / costPerIteration), MAX_ITERATIONS);
+
+  const generatedIterations: IterationData[] = [];
+  for (let i = 1; i <= iterationCount; i++) {
+    generatedIterations.push({
+      iterationNumber: i,
+      iterationDays: workingDaysPerIteration,
+      teamSize: teamSize,
+      plannedHours: hoursPerIteration,
+      isCurrent: i === iterationCount // Mark the last iteration as current by default
+    });
+  }
+
+  return generatedIterations;
+};
+
+// Check if actual cumulative crosses total budget and add (or regenerate)
+// iterations as needed
+export const ensureActualCumulativeCrossesTotalBudget = (
+  budgetParams: BudgetParams,
+  iterations: IterationData[]
+): IterationData[] => {
+  if (iterations.length === 0) return iterations;
+
+  const { budgetSize, teamSize, workingDaysPerIteration } = budgetParams;
+  const hoursPerIteration = getStandardIterationHours(budgetParams);
+  const standardIterationCost = getStandardIterationCost(budgetParams);
+
+  // Skip if cost per iteration is zero (invalid parameters)
+  if (standardIterationCost <= 0 || budgetSize <= 0) return iterations;
+
+  const sortedIterations = sortIterations(iterations);
+  const currentIterationIndex = getCurrentIterationIndex(sortedIterations);
+
+  // Calculate cumulative actual cost up to current iteration
+  let cumulativeActual = 0;
+  for (let i = 0; i <= currentIterationIndex; i++) {
+    cumulativeActual += getActualCost(sortedIterations[i], budgetParams);
+  }
+
+  // If we already have far more or fewer iterations than needed, regenerate.
+  // This happens when budget parameters change significantly.
+  const iterationsNeededFromStart = Math.ceil(budgetSize / standardIterationCost);
+  if (budgetSize < cumulativeActual || Math.abs(iterationsNeededFromStart - sortedIterations.length) > 3) {
+    return generateIterationsToFullBudget(budgetParams);
+  }
+
+  // Calculate projected cumulative cost with the plan of the remaining iterations
+  const projectedCumulative = sortedIterations
+    .slice(currentIterationIndex + 1)
+    .reduce((sum, iteration) => sum + getPlannedCost(iteration, budgetParams), cumulativeActual);
+
+  // If projected cumulative already exceeds or equals budget, no need to add more iterations
+  if (projectedCumulative >= budgetSize) {
+    return sortedIterations;
+  }
+
+  // Calculate exactly how many iterations are needed to just exceed the budget
+  const additionalIterationsNeeded = Math.ceil((budgetSize - projectedCumulative) / standardIterationCost);
+  const iterationsToAdd = Math.min(additionalIterationsNeeded, MAX_ITERATIONS - sortedIterations.length);
+
+  if (iterationsToAdd <= 0) return sortedIterations; // No more iterations can be added
+
+  const maxIterationNumber = Math.max(...sortedIterations.map(it => it.iterationNumber));
+  const newIterations = [...sortedIterations];
+
+  for (let i = 1; i <= iterationsToAdd; i++) {
+    newIterations.push({
+      iterationNumber: maxIterationNumber + i,
+      iterationDays: workingDaysPerIteration,
+      teamSize: teamSize,
+      plannedHours: hoursPerIteration,
+      isCurrent: false // Don't mark new iterations as current
+    });
+  }
+
+  return newIterations;
+};
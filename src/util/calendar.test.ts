@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { BudgetParams, IterationData } from "@/types/budget";
+import { calculateBudget } from "@/util/budgetEngine";
+import { MAX_ITERATION_DAYS, assignIterationDates } from "@/util/calendar";
+
+// Starts on Monday 5 January 2026, with the default Saturday and Sunday weekend
+const budgetParams: BudgetParams = {
+  costPerHour: 100,
+  budgetSize: 64000,
+  teamSize: 2,
+  workingDaysPerIteration: 10,
+  currency: "$",
+  projectStartDate: "2026-01-05"
+};
+
+const iteration = (iterationNumber: number, iterationDays: number): IterationData => ({
+  iterationNumber,
+  iterationDays,
+  teamSize: 2
+});
+
+describe("assignIterationDates", () => {
+  it("gives each iteration its working days, starting on the next working day", () => {
+    const [first, second] = assignIterationDates(budgetParams, [iteration(2, 5), iteration(1, 10)]);
+    expect(first).toMatchObject({ iterationNumber: 1, startDate: "2026-01-05", endDate: "2026-01-16" });
+    expect(second).toMatchObject({ iterationNumber: 2, startDate: "2026-01-19", endDate: "2026-01-23" });
+  });
+
+  it("clamps oversized iterations to MAX_ITERATION_DAYS", () => {
+    const [clamped] = assignIterationDates(budgetParams, [iteration(1, 2e6)]);
+    const [longest] = assignIterationDates(budgetParams, [iteration(1, MAX_ITERATION_DAYS)]);
+    expect(clamped.endDate).toBe(longest.endDate);
+    expect(clamped.iterationDays).toBe(2e6);
+  });
+
+  it("keeps the budget calculation fast with oversized iterations", () => {
+    const started = Date.now();
+    calculateBudget(budgetParams, [iteration(1, 2e6), iteration(2, 1e9)]);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it("leaves iterations without dates if no day of the week is a working day", () => {
+    const [undated] = assignIterationDates({ ...budgetParams, weekendDays: [0, 1, 2, 3, 4, 5, 6] }, [iteration(1, 10)]);
+    expect(undated.startDate).toBeUndefined();
+    expect(undated.endDate).toBeUndefined();
+  });
+
+  it("leaves iterations without dates without a project start date", () => {
+    const [undated] = assignIterationDates({ ...budgetParams, projectStartDate: undefined }, [iteration(1, 10)]);
+    expect(undated.startDate).toBeUndefined();
+  });
+});
@@ -0,0 +1,124 @@
+import { addDays, format, isValid, parseISO } from "date-fns";
+import { BudgetParams, IterationData } from "@/types/budget";
+import { getHolidays } from "@/util/holidays";
+
+export const DEFAULT_WEEKEND_DAYS = [0, 6]; // Sunday and Saturday
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Safety net so an invalid calendar (e.g. every day marked as weekend) can
+// never loop forever
+const MAX_DAYS_SCANNED = 366 * 20;
+
+// Longest iteration, one year of working days. Longer iterations are
+// rejected on import and clamped when dates are assigned.
+export const MAX_ITERATION_DAYS = 260;
+
+export const toISODate = (date: Date): string => format(date, "yyyy-MM-dd");
+
+// Parse an ISO date string, returning null if it is missing or invalid
+export const parseISODate = (value?: string): Date | null => {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+};
+
+// Format an ISO date for display, e.g. "5 Jan 26"
+export const formatShortDate = (value?: string): string => {
+  const date = parseISODate(value);
+  return date ? format(date, "d MMM yy") : "";
+};
+
+export const formatDateRange = (startDate?: string, endDate?: string): string => {
+  if (!startDate || !endDate) return "";
+  return `${formatShortDate(startDate)} – ${formatShortDate(endDate)}`;
+};
+
+export interface WorkingDayCalendar {
+  isWorkingDay: (date: Date) => boolean;
+}
+
+// Build a working-day calendar from the weekend days and holiday country in
+// the budget parameters. Holidays are looked up lazily per year.
+export const createWorkingDayCalendar = (budgetParams: BudgetParams): WorkingDayCalendar => {
+  const weekendDays = budgetParams.weekendDays ?? DEFAULT_WEEKEND_DAYS;
+  const holidaysByYear = new Map<number, Set<string>>();
+
+  const getHolidaySet = (year: number) => {
+    let holidays = holidaysByYear.get(year);
+    if (!holidays) {
+      holidays = new Set(
+        budgetParams.holidayCountry
+          ? getHolidays(budgetParams.holidayCountry, year).map(holiday => holiday.date)
+          : []
+      );
+      holidaysByYear.set(year, holidays);
+    }
+    return holidays;
+  };
+
+  return {
+    isWorkingDay: (date: Date) => {
+      if (weekendDays.includes(date.getDay())) return false;
+      return !getHolidaySet(date.getFullYear()).has(toISODate(date));
+    }
+  };
+};
+
+// Count the working days between two dates (both inclusive)
+export const countWorkingDays = (start: Date, end: Date, budgetParams: BudgetParams): number => {
+  const calendar = createWorkingDayCalendar(budgetParams);
+  let count = 0;
+  let scanned = 0;
+
+  for (let day = start; day <= end && scanned < MAX_DAYS_SCANNED; day = addDays(day, 1), scanned++) {
+    if (calendar.isWorkingDay(day)) count++;
+  }
+
+  return count;
+};
+
+// Derive start and end dates for each iteration from the project start date.
+// Each iteration takes its iterationDays in working days, at most
+// MAX_ITERATION_DAYS, and the next one starts on the following working day.
+// Iterations are returned sorted by number; without a valid projectStartDate,
+// or with no working days in the week, they are returned without dates.
+export const assignIterationDates = (budgetParams: BudgetParams, iterations: IterationData[]): IterationData[] => {
+  const sortedIterations = [...iterations].sort((a, b) => a.iterationNumber - b.iterationNumber);
+  const projectStart = parseISODate(budgetParams.projectStartDate);
+  const weekendDays = budgetParams.weekendDays ?? DEFAULT_WEEKEND_DAYS;
+
+  if (!projectStart || WEEKDAY_LABELS.every((_, day) => weekendDays.includes(day))) {
+    return sortedIterations.map(({ startDate, endDate, ...iteration }) => iteration);
+  }
+
+  const calendar = createWorkingDayCalendar(budgetParams);
+  let cursor = projectStart;
+
+  return sortedIterations.map(iteration => {
+    // Days scanned for this iteration, limited so no iteration can block
+    let scanned = 0;
+    const nextWorkingDay = (from: Date) => {
+      let day = from;
+      for (; !calendar.isWorkingDay(day) && scanned < MAX_DAYS_SCANNED; scanned++) {
+        day = addDays(day, 1);
+      }
+      return day;
+    };
+
+    const start = nextWorkingDay(cursor);
+    let end = start;
+    const iterationDays = Math.min(Math.max(Math.round(iteration.iterationDays), 1), MAX_ITERATION_DAYS);
+
+    for (let remaining = iterationDays - 1; remaining > 0 && scanned < MAX_DAYS_SCANNED; remaining--, scanned++) {
+      end = nextWorkingDay(addDays(end, 1));
+    }
+
+    cursor = addDays(end, 1);
+
+    return {
+      ...iteration,
+      startDate: toISODate(start),
+      endDate: toISODate(end)
+    };
+  });
+};
@@ -0,0 +1,245 @@
+import { BudgetParams, ChartData } from "@/types/budget";
+import { DEFAULT_RATE_ROLE_ID, getRoleName, hasRateCard } from "@/util/budgetEngine";
+import { formatShortDate } from "@/util/calendar";
+
+// Chart series shown by default, matching the chart on the Visualization tab
+export const DEFAULT_VISIBLE_CHART_ITEMS = [
+  "plannedCumulative",
+  "actualCumulative",
+  "forecastCumulative",
+  "forecastCone",
+  "individualCost"
+];
+
+// The chart shown on the Visualization tab. Burn-down and burn-up are kept as
+// an entry of the visible chart items so they are saved with them; without
+// one the cumulative cost chart is shown.
+export type ChartMode = "cost" | "burnDown" | "burnUp";
+
+const BURN_CHART_MODES: ChartMode[] = ["burnDown", "burnUp"];
+
+export const getChartMode = (visibleItems: string[]): ChartMode =>
+  BURN_CHART_MODES.find(mode => visibleItems.includes(mode)) ?? "cost";
+
+export const setChartMode = (visibleItems: string[], mode: ChartMode): string[] => [
+  ...visibleItems.filter(item => !BURN_CHART_MODES.includes(item as ChartMode)),
+  ...(mode !== "cost" ? [mode] : [])
+];
+
+export const CHART_COLORS = {
+  individualCost: "#4f46e5",
+  cumulativeStandard: "#10b981",
+  cumulativePlanned: "#0891b2",
+  cumulativeActual: "#f59e0b",
+  cumulativeForecast: "#f59e0b",
+  budget: "#ff0000",
+  grid: "#e5e7eb",
+  axis: "#6b7280"
+};
+
+export const ROLE_COLORS = ["#4f46e5", "#0ea5e9", "#8b5cf6", "#ec4899", "#14b8a6", "#f97316", "#64748b"];
+
+// Role keys present in the chart, rate card roles first
+export const getChartRoleIds = (budgetParams: BudgetParams, chartData: ChartData[]): string[] => {
+  if (!hasRateCard(budgetParams)) return [];
+  return [
+    ...(budgetParams.rateCard ?? []).map(entry => entry.id),
+    ...(chartData.some(data => data.roleCosts?.[DEFAULT_RATE_ROLE_ID]) ? [DEFAULT_RATE_ROLE_ID] : [])
+  ];
+};
+
+// Label a chart data point by iteration name or by calendar date
+export const getChartPointLabel = (data: ChartData, budgetParams: BudgetParams, showDates: boolean): string => {
+  if (!showDates) return data.name;
+  if (data.name === "Start") return formatShortDate(budgetParams.projectStartDate) || data.name;
+  return formatShortDate(data.endDate) || data.name;
+};
+
+// Format an axis value with a K or M suffix
+export const formatAxisValue = (value: number): string => {
+  if (value >= 1000000) {
+    return `${(value / 1000000).toFixed(1)}M`;
+  } else if (value >= 1000) {
+    return `${(value / 1000).toFixed(1)}K`;
+  }
+  return value.toString();
+};
+
+export type ChartPoint = [number, number];
+
+export interface ChartLine {
+  label: string;
+  points: ChartPoint[];
+  color: string;
+  width: number;
+  dash?: number[]; // Dash and gap lengths, solid if not set
+  fillOpacity?: number; // Fill the area between the line and the x axis
+}
+
+export interface ChartBar {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+}
+
+export interface ChartTick {
+  position: number; // y for value ticks, x for category labels
+  label: string;
+}
+
+export interface ChartLegendItem {
+  label: string;
+  color: string;
+  kind: "line" | "dashed" | "bar";
+}
+
+// Positions of everything drawn in the budget chart, in the units of the
+// given width and height, with y growing downwards. Renderers (the PDF
+// report, the SVG in the HTML export) only draw what is laid out here, so
+// they show the same chart.
+export interface ChartLayout {
+  width: number;
+  height: number;
+  plot: { x: number, y: number, width: number, height: number };
+  leftTicks: ChartTick[]; // Iteration cost axis
+  rightTicks: ChartTick[]; // Cumulative cost axis
+  xLabels: ChartTick[];
+  leftAxisLabel: string;
+  rightAxisLabel: string;
+  bars: ChartBar[];
+  lines: ChartLine[];
+  budgetLine: { y: number, label: string };
+  legend: ChartLegendItem[];
+}
+
+export interface ChartLayoutOptions {
+  width: number;
+  height: number;
+  visibleItems?: string[];
+  getLabel?: (data: ChartData) => string; // X axis label of a data point, its name by default
+  // Space for the axis labels, in the same units as the width and height
+  margin?: { top: number, right: number, bottom: number, left: number };
+}
+
+const TICK_COUNT = 5;
+
+// Round a step up to 1, 2, 2.5 or 5 times a power of ten
+const getNiceStep = (roughStep: number): number => {
+  if (roughStep <= 0) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(roughStep)));
+  const step = [1, 2, 2.5, 5, 10].find(factor => factor * magnitude >= roughStep)!;
+  return step * magnitude;
+};
+
+export const layoutBudgetChart = (
+  budgetParams: BudgetParams,
+  chartData: ChartData[],
+  options: ChartLayoutOptions
+): ChartLayout => {
+  const { width, height, visibleItems = DEFAULT_VISIBLE_CHART_ITEMS, getLabel = (data: ChartData) => data.name } = options;
+  const margin = options.margin ?? { top: height * 0.04, right: width * 0.09, bottom: height * 0.2, left: width * 0.09 };
+  const plot = {
+    x: margin.left,
+    y: margin.top,
+    width: width - margin.left - margin.right,
+    height: height - margin.top - margin.bottom
+  };
+
+  const isVisible = (item: string) => visibleItems.includes(item);
+  const roleIds = getChartRoleIds(budgetParams, chartData);
+
+  // Both axes start at zero and end at a round value above the highest point
+  const cumulativeValues = chartData.flatMap(data => [
+    ...(isVisible("standardCumulative") ? [data.cumulativeStandard] : []),
+    ...(isVisible("plannedCumulative") ? [data.cumulativePlanned] : []),
+    ...(isVisible("actualCumulative") && data.cumulativeActual !== null ? [data.cumulativeActual] : []),
+    ...(isVisible("forecastCumulative") && data.cumulativeForecast !== null ? [data.cumulativeForecast] : [])
+  ]);
+  const rightStep = getNiceStep(Math.max(budgetParams.budgetSize, ...cumulativeValues) / TICK_COUNT);
+  const rightMax = rightStep * Math.ceil(Math.max(budgetParams.budgetSize * 1.05, ...cumulativeValues, 1) / rightStep);
+  const leftStep = getNiceStep(Math.max(...chartData.map(data => data.iterationCost), 0) / TICK_COUNT);
+  const leftMax = leftStep * Math.max(1, Math.ceil(Math.max(...chartData.map(data => data.iterationCost), 1) / leftStep));
+
+  const toRightY = (value: number) => plot.y + plot.height - (value / rightMax) * plot.height;
+  const toLeftY = (value: number) => plot.y + plot.height - (value / leftMax) * plot.height;
+  const band = plot.width / Math.max(chartData.length, 1);
+  const toX = (index: number) => plot.x + band * (index + 0.5);
+
+  const ticks = (max: number, step: number, toY: (value: number) => number): ChartTick[] =>
+    Array.from({ length: Math.round(max / step) + 1 }, (_, i) => ({ position: toY(i * step), label: formatAxisValue(i * step) }));
+
+  // Skip labels on long charts so they don't overlap
+  const labelInterval = chartData.length > 20 ? Math.floor(chartData.length / 20) + 1 : 1;
+  const xLabels = chartData
+    .map((data, index) => ({ position: toX(index), label: getLabel(data) }))
+    .filter((_, index) => index % labelInterval === 0);
+
+  const bars: ChartBar[] = [];
+  const legend: ChartLegendItem[] = [];
+  const barWidth = Math.min(band * 0.6, plot.width / 25);
+
+  if (isVisible("individualCost")) {
+    chartData.forEach((data, index) => {
+      // Iteration costs stacked by role when a rate card is used
+      const segments = roleIds.length > 0
+        ? roleIds.map((roleId, roleIndex) => ({ value: data.roleCosts?.[roleId] ?? 0, color: ROLE_COLORS[roleIndex % ROLE_COLORS.length] }))
+        : [{ value: data.iterationCost, color: CHART_COLORS.individualCost }];
+
+      let base = 0;
+      segments.forEach(segment => {
+        if (segment.value <= 0) return;
+        const top = toLeftY(base + segment.value);
+        bars.push({ x: toX(index) - barWidth / 2, y: top, width: barWidth, height: toLeftY(base) - top, color: segment.color });
+        base += segment.value;
+      });
+    });
+
+    if (roleIds.length > 0) {
+      roleIds.forEach((roleId, roleIndex) => legend.push({
+        label: getRoleName(roleId, budgetParams),
+        color: ROLE_COLORS[roleIndex % ROLE_COLORS.length],
+        kind: "bar"
+      }));
+    } else {
+      legend.push({ label: "Individual Cost", color: CHART_COLORS.individualCost, kind: "bar" });
+    }
+  }
+
+  const series = (key: "cumulativeStandard" | "cumulativePlanned" | "cumulativeActual" | "cumulativeForecast"): ChartPoint[] =>
+    chartData
+      .map((data, index) => [index, data[key]] as const)
+      .filter((point): point is readonly [number, number] => point[1] !== null)
+      .map(([index, value]) => [toX(index), toRightY(value)]);
+
+  const lines: ChartLine[] = [];
+  if (isVisible("standardCumulative")) {
+    lines.push({ label: "Standard Cumulative", points: series("cumulativeStandard"), color: CHART_COLORS.cumulativeStandard, width: 2, fillOpacity: 0.1 });
+  }
+  if (isVisible("actualCumulative")) {
+    lines.push({ label: "Actual Cumulative", points: series("cumulativeActual"), color: CHART_COLORS.cumulativeActual, width: 2, fillOpacity: 0.1 });
+  }
+  if (isVisible("plannedCumulative")) {
+    lines.push({ label: "Planned Cumulative", points: series("cumulativePlanned"), color: CHART_COLORS.cumulativePlanned, width: 2 });
+  }
+  if (isVisible("forecastCumulative")) {
+    lines.push({ label: "Forecast", points: series("cumulativeForecast"), color: CHART_COLORS.cumulativeForecast, width: 2, dash: [6, 4] });
+  }
+  lines.forEach(line => legend.push({ label: line.label, color: line.color, kind: line.dash ? "dashed" : "line" }));
+
+  return {
+    width,
+    height,
+    plot,
+    leftTicks: ticks(leftMax, leftStep, toLeftY),
+    rightTicks: ticks(rightMax, rightStep, toRightY),
+    xLabels,
+    leftAxisLabel: `Iteration Cost (${budgetParams.currency})`,
+    rightAxisLabel: `Cumulative Cost (${budgetParams.currency})`,
+    bars,
+    lines: lines.filter(line => line.points.length > 0),
+    budgetLine: { y: toRightY(budgetParams.budgetSize), label: "Total Budget" },
+    legend
+  };
+};
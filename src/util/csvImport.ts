@@ -0,0 +1,345 @@
+import { isValid, parse } from "date-fns";
+import {
+  BudgetParams,
+  ColumnMapping,
+  ImportDateFormat,
+  ImportField,
+  ImportMode,
+  ImportTarget,
+  IterationData,
+  IterationImportResult,
+  ParameterImportResult,
+  RejectedRow
+} from "@/types/budget";
+import { getDefaultIterationHours, MAX_ITERATIONS, MAX_TEAM_SIZE, sortIterations } from "@/util/budgetEngine";
+import { MAX_ITERATION_DAYS, parseISODate, toISODate } from "@/util/calendar";
+
+export const ITERATION_IMPORT_FIELDS: ImportField[] = [
+  { key: "iterationNumber", label: "Iteration #", required: true, aliases: ["iteration", "sprint", "sprintnumber", "number"] },
+  { key: "iterationDays", label: "Days", required: true, aliases: ["days", "workingdays", "duration"] },
+  { key: "teamSize", label: "Team Size", required: true, aliases: ["team", "headcount", "people"] },
+  { key: "plannedHours", label: "Planned Hours", required: false, aliases: ["totalhours", "hours", "plannedhours", "estimate"] },
+  { key: "actualHours", label: "Actual Hours", required: false, aliases: ["actual", "spent", "loggedhours"] },
+  { key: "isCurrent", label: "Current", required: false, aliases: ["current", "iscurrent", "active"] },
+  { key: "percentComplete", label: "% Complete", required: false, aliases: ["percent", "progress", "complete"] },
+  { key: "deliveredScope", label: "Delivered Scope", required: false, aliases: ["delivered", "points", "storypoints", "velocity"] }
+];
+
+export const PARAMETER_IMPORT_FIELDS: ImportField[] = [
+  { key: "costPerHour", label: "Cost per Hour", required: true, aliases: ["rate", "hourlyrate"] },
+  { key: "budgetSize", label: "Budget Size", required: true, aliases: ["budget", "totalbudget"] },
+  { key: "teamSize", label: "Team Size", required: true, aliases: ["team", "headcount"] },
+  { key: "workingDaysPerIteration", label: "Working Days per Iteration", required: true, aliases: ["iterationdays", "sprintdays", "days"] },
+  { key: "currency", label: "Currency", required: false, aliases: [] },
+  { key: "projectStartDate", label: "Project Start Date", required: false, aliases: ["startdate", "start"] },
+  { key: "weekendDays", label: "Weekend Days", required: false, aliases: ["weekend"] },
+  { key: "holidayCountry", label: "Holiday Country", required: false, aliases: ["country", "holidays"] },
+  { key: "totalScope", label: "Total Scope", required: false, aliases: ["scope"] }
+];
+
+export const IMPORT_FIELDS: Record<ImportTarget, ImportField[]> = {
+  iterations: ITERATION_IMPORT_FIELDS,
+  parameters: PARAMETER_IMPORT_FIELDS
+};
+
+export const IMPORT_DATE_FORMATS: { value: ImportDateFormat, label: string }[] = [
+  { value: "yyyy-MM-dd", label: "2026-01-31" },
+  { value: "MM/dd/yyyy", label: "01/31/2026" },
+  { value: "dd/MM/yyyy", label: "31/01/2026" },
+  { value: "dd.MM.yyyy", label: "31.01.2026" }
+];
+
+// Lowercase without spaces or punctuation, so "Iteration #" matches "iteration"
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Map each field to the first header that matches its key, label or an alias
+export const guessColumnMapping = (headers: string[], fields: ImportField[]): ColumnMapping => {
+  const used = new Set<string>();
+  const mapping: ColumnMapping = {};
+
+  // Exact key and label matches first, so an alias can't take another field's column
+  const passes = [
+    (field: ImportField) => [field.key, field.label].map(normalizeHeader),
+    (field: ImportField) => field.aliases
+  ];
+  passes.forEach(candidates => {
+    fields.forEach(field => {
+      if (mapping[field.key]) return;
+      const names = candidates(field);
+      const header = headers.find(h => !used.has(h) && names.includes(normalizeHeader(h)));
+      mapping[field.key] = header ?? null;
+      if (header) used.add(header);
+    });
+  });
+
+  return mapping;
+};
+
+// Whether the file holds iterations or budget parameters, judged by which
+// required fields its headers match
+export const detectImportTarget = (headers: string[]): ImportTarget => {
+  const matchedRequired = (fields: ImportField[]) => {
+    const mapping = guessColumnMapping(headers, fields);
+    return fields.filter(field => field.required && mapping[field.key]).length;
+  };
+  return matchedRequired(PARAMETER_IMPORT_FIELDS) > matchedRequired(ITERATION_IMPORT_FIELDS) ? "parameters" : "iterations";
+};
+
+// Missing fields that have to be mapped before importing
+export const getUnmappedRequiredFields = (fields: ImportField[], mapping: ColumnMapping, mode: ImportMode): ImportField[] => {
+  // Merging parameters keeps the current value of any field that isn't mapped
+  if (fields === PARAMETER_IMPORT_FIELDS && mode === "merge") return [];
+  return fields.filter(field => field.required && !mapping[field.key]);
+};
+
+export const getMappedValue = (row: Record<string, string>, mapping: ColumnMapping, key: string): string => {
+  const header = mapping[key];
+  return header ? (row[header] ?? "").trim() : "";
+};
+
+// Parse a number, allowing thousands separators. Returns undefined for an
+// empty value and NaN for anything that isn't a number.
+const parseNumber = (value: string): number | undefined => {
+  if (!value) return undefined;
+  return Number(value.replace(/[\s,]/g, ""));
+};
+
+// Parse a date in the given format, ignoring any time after it
+// (e.g. "2026-01-31 09:00" or "2026-01-31T09:00:00"). Returns an ISO date.
+export const parseImportDate = (value: string, dateFormat: ImportDateFormat): string | null => {
+  const datePart = value.split(/[\sT]/)[0];
+  const date = parse(datePart, dateFormat, new Date());
+  return isValid(date) ? toISODate(date) : null;
+};
+
+const parseBoolean = (value: string): boolean | undefined => {
+  if (!value) return undefined;
+  const normalized = value.toLowerCase();
+  if (["true", "yes", "y", "1", "x"].includes(normalized)) return true;
+  if (["false", "no", "n", "0"].includes(normalized)) return false;
+  return undefined;
+};
+
+// Read a numeric field, adding a reason to the list if the value is invalid
+export const readNumber = (
+  row: Record<string, string>,
+  mapping: ColumnMapping,
+  field: ImportField,
+  reasons: string[],
+  { min = 0, max, integer = false, positive = false }: { min?: number, max?: number, integer?: boolean, positive?: boolean } = {}
+): number | undefined => {
+  const raw = getMappedValue(row, mapping, field.key);
+  const value = parseNumber(raw);
+  if (value === undefined) return undefined;
+
+  if (isNaN(value)) {
+    reasons.push(`${field.label} "${raw}" is not a number`);
+  } else if (integer && !Number.isInteger(value)) {
+    reasons.push(`${field.label} must be a whole number (got ${raw})`);
+  } else if (positive ? value <= 0 : value < min) {
+    reasons.push(`${field.label} must be ${positive ? "greater than 0" : `at least ${min}`} (got ${raw})`);
+  } else if (max !== undefined && value > max) {
+    reasons.push(`${field.label} must be at most ${max} (got ${raw})`);
+  } else {
+    return value;
+  }
+  return undefined;
+};
+
+const fieldByKey = (fields: ImportField[], key: string): ImportField => fields.find(field => field.key === key)!;
+
+// Validate the iteration rows and apply them to the existing iterations.
+// When merging, rows update the iteration with the same number and may leave
+// its other fields empty; new iterations need every required field.
+export const importIterations = (
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  existingIterations: IterationData[],
+  mode: ImportMode
+): IterationImportResult => {
+  const field = (key: string) => fieldByKey(ITERATION_IMPORT_FIELDS, key);
+  const existingByNumber = new Map(
+    (mode === "merge" ? existingIterations : []).map(iteration => [iteration.iterationNumber, iteration])
+  );
+  const imported = new Map<number, IterationData>();
+  const rowNumbers = new Map<number, number>();
+  const rejected: RejectedRow[] = [];
+  let currentRowNumber: number | undefined;
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const reasons: string[] = [];
+
+    const iterationNumber = readNumber(row, mapping, field("iterationNumber"), reasons, { integer: true, positive: true });
+    const existing = iterationNumber !== undefined ? existingByNumber.get(iterationNumber) : undefined;
+    const iterationDays = readNumber(row, mapping, field("iterationDays"), reasons, { positive: true, max: MAX_ITERATION_DAYS });
+    const teamSize = readNumber(row, mapping, field("teamSize"), reasons, { positive: true, max: MAX_TEAM_SIZE });
+    const plannedHours = readNumber(row, mapping, field("plannedHours"), reasons);
+    const actualHours = readNumber(row, mapping, field("actualHours"), reasons);
+    const percentComplete = readNumber(row, mapping, field("percentComplete"), reasons, { max: 100 });
+    const deliveredScope = readNumber(row, mapping, field("deliveredScope"), reasons);
+
+    const currentValue = getMappedValue(row, mapping, "isCurrent");
+    const isCurrent = parseBoolean(currentValue);
+    if (currentValue && isCurrent === undefined) {
+      reasons.push(`${field("isCurrent").label} "${currentValue}" is not true or false`);
+    }
+
+    if (!getMappedValue(row, mapping, "iterationNumber")) {
+      reasons.push(`${field("iterationNumber").label} is missing`);
+    }
+    if (!existing) {
+      if (iterationDays === undefined && !getMappedValue(row, mapping, "iterationDays")) {
+        reasons.push(`${field("iterationDays").label} is missing`);
+      }
+      if (teamSize === undefined && !getMappedValue(row, mapping, "teamSize")) {
+        reasons.push(`${field("teamSize").label} is missing`);
+      }
+    }
+    if (iterationNumber !== undefined && rowNumbers.has(iterationNumber)) {
+      reasons.push(`Iteration ${iterationNumber} is already on row ${rowNumbers.get(iterationNumber)}`);
+    }
+    if (isCurrent && currentRowNumber !== undefined) {
+      reasons.push(`Only one iteration can be current, row ${currentRowNumber} already is`);
+    }
+
+    if (reasons.length > 0 || iterationNumber === undefined) {
+      rejected.push({ rowNumber, reasons, values: row });
+      return;
+    }
+
+    const iteration: IterationData = {
+      ...existing,
+      iterationNumber,
+      iterationDays: iterationDays ?? existing!.iterationDays,
+      teamSize: teamSize ?? existing!.teamSize,
+      ...(plannedHours !== undefined && { plannedHours }),
+      ...(actualHours !== undefined && { actualHours }),
+      ...(percentComplete !== undefined && { percentComplete }),
+      ...(deliveredScope !== undefined && { deliveredScope }),
+      ...(isCurrent !== undefined && { isCurrent })
+    };
+    if (iteration.plannedHours === undefined && iteration.totalHours === undefined) {
+      iteration.plannedHours = getDefaultIterationHours(iteration);
+    }
+
+    imported.set(iterationNumber, iteration);
+    rowNumbers.set(iterationNumber, rowNumber);
+    if (isCurrent) currentRowNumber = rowNumber;
+  });
+
+  // A current iteration in the file replaces the current one
+  const keptIterations = Array.from(existingByNumber.values())
+    .filter(iteration => !imported.has(iteration.iterationNumber))
+    .map(iteration => (currentRowNumber !== undefined ? { ...iteration, isCurrent: false } : iteration));
+
+  // Iterations past the limit are rejected, in file order
+  let iterations = [...keptIterations];
+  Array.from(imported.values()).forEach(iteration => {
+    if (iterations.length >= MAX_ITERATIONS) {
+      const rowNumber = rowNumbers.get(iteration.iterationNumber)!;
+      rejected.push({
+        rowNumber,
+        reasons: [`More than ${MAX_ITERATIONS} iterations`],
+        values: rows[rowNumber - 2]
+      });
+      imported.delete(iteration.iterationNumber);
+      return;
+    }
+    iterations.push(iteration);
+  });
+  iterations = sortIterations(iterations);
+
+  return {
+    iterations,
+    importedCount: imported.size,
+    rejected: rejected.sort((a, b) => a.rowNumber - b.rowNumber)
+  };
+};
+
+// Validate the first row of a parameters file and apply it. Merging keeps the
+// current value of every field that is empty or unmapped; replacing needs the
+// required fields and clears the optional ones that are missing. The rate card
+// isn't part of the file and is always kept.
+export const importParameters = (
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  currentParams: BudgetParams,
+  mode: ImportMode
+): ParameterImportResult => {
+  const field = (key: string) => fieldByKey(PARAMETER_IMPORT_FIELDS, key);
+  const row = rows[0];
+  const rejected: RejectedRow[] = rows.slice(1).map((values, index) => ({
+    rowNumber: index + 3,
+    reasons: ["A parameters file has a single row of values; only the first row is used"],
+    values
+  }));
+
+  if (!row) {
+    return { budgetParams: null, rejected };
+  }
+
+  const reasons: string[] = [];
+  const costPerHour = readNumber(row, mapping, field("costPerHour"), reasons);
+  const budgetSize = readNumber(row, mapping, field("budgetSize"), reasons, { positive: true });
+  const teamSize = readNumber(row, mapping, field("teamSize"), reasons, { positive: true, max: MAX_TEAM_SIZE });
+  const workingDaysPerIteration = readNumber(row, mapping, field("workingDaysPerIteration"), reasons, { positive: true, max: MAX_ITERATION_DAYS });
+  const totalScope = readNumber(row, mapping, field("totalScope"), reasons, { positive: true });
+  const currency = getMappedValue(row, mapping, "currency") || undefined;
+  const holidayCountry = getMappedValue(row, mapping, "holidayCountry") || undefined;
+
+  const projectStartDate = getMappedValue(row, mapping, "projectStartDate") || undefined;
+  if (projectStartDate && !parseISODate(projectStartDate)) {
+    reasons.push(`${field("projectStartDate").label} "${projectStartDate}" is not a yyyy-MM-dd date`);
+  }
+
+  // Weekend days are stored as a semicolon-separated list, e.g. "0;6"
+  const weekendValue = getMappedValue(row, mapping, "weekendDays");
+  const weekendDays = weekendValue ? weekendValue.split(";").map(day => parseInt(day, 10)) : undefined;
+  if (weekendDays?.some(day => isNaN(day) || day < 0 || day > 6)) {
+    reasons.push(`${field("weekendDays").label} "${weekendValue}" must be days 0 (Sunday) to 6 separated by ";"`);
+  }
+
+  if (mode === "replace") {
+    const values: Record<string, unknown> = { costPerHour, budgetSize, teamSize, workingDaysPerIteration };
+    PARAMETER_IMPORT_FIELDS
+      .filter(f => f.required && values[f.key] === undefined && !getMappedValue(row, mapping, f.key))
+      .forEach(f => reasons.push(`${f.label} is missing`));
+  }
+
+  if (reasons.length > 0) {
+    return { budgetParams: null, rejected: [{ rowNumber: 2, reasons, values: row }, ...rejected] };
+  }
+
+  const imported: Partial<BudgetParams> = {
+    costPerHour,
+    budgetSize,
+    teamSize,
+    workingDaysPerIteration,
+    currency,
+    projectStartDate,
+    weekendDays,
+    holidayCountry,
+    totalScope
+  };
+
+  const budgetParams: BudgetParams = mode === "merge"
+    ? {
+        ...currentParams,
+        ...Object.fromEntries(Object.entries(imported).filter(([, value]) => value !== undefined))
+      }
+    : {
+        costPerHour: costPerHour!,
+        budgetSize: budgetSize!,
+        teamSize: teamSize!,
+        workingDaysPerIteration: workingDaysPerIteration!,
+        currency: currency ?? currentParams.currency,
+        projectStartDate,
+        weekendDays,
+        holidayCountry,
+        rateCard: currentParams.rateCard,
+        totalScope
+      };
+
+  return { budgetParams, rejected };
+};
@@ -0,0 +1,159 @@
+import { addDays, format } from "date-fns";
+
+export interface Holiday {
+  date: string; // ISO date (yyyy-MM-dd)
+  name: string;
+}
+
+interface HolidayCalendar {
+  name: string;
+  getHolidays: (year: number) => Holiday[];
+}
+
+const isoDate = (date: Date) => format(date, "yyyy-MM-dd");
+
+const fixed = (year: number, month: number, day: number, name: string): Holiday => ({
+  date: isoDate(new Date(year, month - 1, day)),
+  name
+});
+
+// Easter Sunday (Gregorian calendar, anonymous algorithm)
+const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+const easterOffset = (year: number, offset: number, name: string): Holiday => ({
+  date: isoDate(addDays(getEasterSunday(year), offset)),
+  name
+});
+
+// The nth given weekday (0 = Sunday) of a month, or the last one if n is -1
+const nthWeekday = (year: number, month: number, weekday: number, n: number, name: string): Holiday => {
+  if (n === -1) {
+    const lastDay = new Date(year, month, 0);
+    const diff = (lastDay.getDay() - weekday + 7) % 7;
+    return { date: isoDate(addDays(lastDay, -diff)), name };
+  }
+
+  const firstDay = new Date(year, month - 1, 1);
+  const diff = (weekday - firstDay.getDay() + 7) % 7;
+  return { date: isoDate(addDays(firstDay, diff + (n - 1) * 7)), name };
+};
+
+// Bundled national public-holiday calendars. Regional holidays and substitute
+// days for holidays falling on a weekend are not included.
+export const HOLIDAY_CALENDARS: Record<string, HolidayCalendar> = {
+  US: {
+    name: "United States",
+    getHolidays: (year) => [
+      fixed(year, 1, 1, "New Year's Day"),
+      nthWeekday(year, 1, 1, 3, "Martin Luther King Jr. Day"),
+      nthWeekday(year, 2, 1, 3, "Presidents' Day"),
+      nthWeekday(year, 5, 1, -1, "Memorial Day"),
+      fixed(year, 6, 19, "Juneteenth"),
+      fixed(year, 7, 4, "Independence Day"),
+      nthWeekday(year, 9, 1, 1, "Labor Day"),
+      nthWeekday(year, 10, 1, 2, "Columbus Day"),
+      fixed(year, 11, 11, "Veterans Day"),
+      nthWeekday(year, 11, 4, 4, "Thanksgiving Day"),
+      fixed(year, 12, 25, "Christmas Day")
+    ]
+  },
+  GB: {
+    name: "United Kingdom (England & Wales)",
+    getHolidays: (year) => [
+      fixed(year, 1, 1, "New Year's Day"),
+      easterOffset(year, -2, "Good Friday"),
+      easterOffset(year, 1, "Easter Monday"),
+      nthWeekday(year, 5, 1, 1, "Early May Bank Holiday"),
+      nthWeekday(year, 5, 1, -1, "Spring Bank Holiday"),
+      nthWeekday(year, 8, 1, -1, "Summer Bank Holiday"),
+      fixed(year, 12, 25, "Christmas Day"),
+      fixed(year, 12, 26, "Boxing Day")
+    ]
+  },
+  DE: {
+    name: "Germany",
+    getHolidays: (year) => [
+      fixed(year, 1, 1, "Neujahr"),
+      easterOffset(year, -2, "Karfreitag"),
+      easterOffset(year, 1, "Ostermontag"),
+      fixed(year, 5, 1, "Tag der Arbeit"),
+      easterOffset(year, 39, "Christi Himmelfahrt"),
+      easterOffset(year, 50, "Pfingstmontag"),
+      fixed(year, 10, 3, "Tag der Deutschen Einheit"),
+      fixed(year, 12, 25, "1. Weihnachtstag"),
+      fixed(year, 12, 26, "2. Weihnachtstag")
+    ]
+  },
+  FR: {
+    name: "France",
+    getHolidays: (year) => [
+      fixed(year, 1, 1, "Jour de l'an"),
+      easterOffset(year, 1, "Lundi de Pâques"),
+      fixed(year, 5, 1, "Fête du Travail"),
+      fixed(year, 5, 8, "Victoire 1945"),
+      easterOffset(year, 39, "Ascension"),
+      easterOffset(year, 50, "Lundi de Pentecôte"),
+      fixed(year, 7, 14, "Fête nationale"),
+      fixed(year, 8, 15, "Assomption"),
+      fixed(year, 11, 1, "Toussaint"),
+      fixed(year, 11, 11, "Armistice 1918"),
+      fixed(year, 12, 25, "Noël")
+    ]
+  },
+  NL: {
+    name: "Netherlands",
+    getHolidays: (year) => {
+      // King's Day moves to the 26th when the 27th is a Sunday
+      const kingsDay = new Date(year, 3, 27).getDay() === 0 ? 26 : 27;
+      return [
+        fixed(year, 1, 1, "Nieuwjaarsdag"),
+        easterOffset(year, 1, "Tweede Paasdag"),
+        fixed(year, 4, kingsDay, "Koningsdag"),
+        easterOffset(year, 39, "Hemelvaartsdag"),
+        easterOffset(year, 50, "Tweede Pinksterdag"),
+        fixed(year, 12, 25, "Eerste Kerstdag"),
+        fixed(year, 12, 26, "Tweede Kerstdag")
+      ];
+    }
+  },
+  PL: {
+    name: "Poland",
+    getHolidays: (year) => [
+      fixed(year, 1, 1, "Nowy Rok"),
+      fixed(year, 1, 6, "Święto Trzech Króli"),
+      easterOffset(year, 1, "Poniedziałek Wielkanocny"),
+      fixed(year, 5, 1, "Święto Pracy"),
+      fixed(year, 5, 3, "Święto Konstytucji 3 Maja"),
+      easterOffset(year, 60, "Boże Ciało"),
+      fixed(year, 8, 15, "Wniebowzięcie NMP"),
+      fixed(year, 11, 1, "Wszystkich Świętych"),
+      fixed(year, 11, 11, "Narodowe Święto Niepodległości"),
+      // Christmas Eve is a public holiday from 2025
+      ...(year >= 2025 ? [fixed(year, 12, 24, "Wigilia")] : []),
+      fixed(year, 12, 25, "Boże Narodzenie"),
+      fixed(year, 12, 26, "Drugi dzień Bożego Narodzenia")
+    ]
+  }
+};
+
+// Get the public holidays of a country for a given year
+export const getHolidays = (countryCode: string, year: number): Holiday[] => {
+  const calendar = HOLIDAY_CALENDARS[countryCode];
+  return calendar ? calendar.getHolidays(year) : [];
+};
@@ -0,0 +1,162 @@
+import { BudgetParams, IterationData, ForecastBand, MonteCarloForecast, ExhaustionForecast } from "@/types/budget";
+import {
+  sortIterations,
+  getCurrentIterationIndex,
+  getActualCost,
+  getPlannedCost,
+  hasActualHours,
+  getStandardIterationHours,
+  MAX_ITERATIONS
+} from "@/util/budgetEngine";
+import { assignIterationDates } from "@/util/calendar";
+
+export const DEFAULT_RUNS = 5000;
+const MIN_SAMPLES = 2;
+
+export interface MonteCarloOptions {
+  runs?: number;
+  seed?: number;
+}
+
+// Small seeded PRNG (mulberry32) so the same inputs always give the same cone
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal sample (Box-Muller)
+const sampleNormal = (random: () => number) => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Value at percentile p (0-100) of an ascending sorted array
+const percentile = (sorted: number[], p: number) => {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+};
+
+// Simulate future iteration costs and estimate when cumulative cost crosses
+// the budget. Each future iteration's planned cost is scaled by a factor drawn
+// from the distribution of actual/planned cost in past iterations (those up
+// to the current one with recorded actual hours). Iterations beyond the
+// existing list follow the default budget parameters.
+export const runMonteCarloForecast = (
+  budgetParams: BudgetParams,
+  iterations: IterationData[],
+  { runs = DEFAULT_RUNS, seed = 1 }: MonteCarloOptions = {}
+): MonteCarloForecast => {
+  const sortedIterations = sortIterations(iterations);
+  const currentIterationIndex = getCurrentIterationIndex(sortedIterations);
+  const pastIterations = sortedIterations.slice(0, currentIterationIndex + 1);
+
+  const ratios = pastIterations
+    .filter(iteration => hasActualHours(iteration) && getPlannedCost(iteration, budgetParams) > 0)
+    .map(iteration => getActualCost(iteration, budgetParams) / getPlannedCost(iteration, budgetParams));
+
+  const emptyForecast: MonteCarloForecast = {
+    runs: 0,
+    sampleSize: ratios.length,
+    exhaustedShare: 0,
+    bands: [],
+    exhaustion: {}
+  };
+
+  if (ratios.length < MIN_SAMPLES || budgetParams.budgetSize <= 0) {
+    return emptyForecast;
+  }
+
+  const mean = ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length;
+  const variance = ratios.reduce((sum, ratio) => sum + (ratio - mean) ** 2, 0) / (ratios.length - 1);
+  const stdDev = Math.sqrt(variance);
+
+  const actualToDate = pastIterations.reduce((sum, iteration) => sum + getActualCost(iteration, budgetParams), 0);
+
+  // Future iterations: the remaining planned ones, then default iterations up
+  // to MAX_ITERATIONS beyond the last planned one
+  const lastIterationNumber = sortedIterations.length > 0
+    ? sortedIterations[sortedIterations.length - 1].iterationNumber
+    : 0;
+  const extraIterations: IterationData[] = Array.from({ length: MAX_ITERATIONS }, (_, i) => ({
+    iterationNumber: lastIterationNumber + i + 1,
+    iterationDays: budgetParams.workingDaysPerIteration,
+    teamSize: budgetParams.teamSize,
+    plannedHours: getStandardIterationHours(budgetParams)
+  }));
+  const horizon = assignIterationDates(budgetParams, [...sortedIterations, ...extraIterations]);
+  const futureIterations = horizon.slice(currentIterationIndex + 1);
+  const futureCosts = futureIterations.map(iteration => getPlannedCost(iteration, budgetParams));
+
+  // Bands are only reported for iterations that exist in the chart
+  const bandSteps = sortedIterations.length - currentIterationIndex - 1;
+  const cumulativeByStep: number[][] = Array.from({ length: bandSteps }, () => []);
+  const exhaustionSteps: number[] = [];
+
+  const random = createRandom(seed);
+
+  for (let run = 0; run < runs; run++) {
+    let cumulative = actualToDate;
+    let exhaustionStep = actualToDate >= budgetParams.budgetSize ? -1 : Infinity;
+
+    for (let step = 0; step < futureCosts.length; step++) {
+      // Stop once the budget is exhausted and every band value is recorded
+      if (exhaustionStep !== Infinity && step >= bandSteps) break;
+
+      const factor = Math.max(0, mean + stdDev * sampleNormal(random));
+      cumulative += futureCosts[step] * factor;
+
+      if (step < bandSteps) {
+        cumulativeByStep[step].push(cumulative);
+      }
+      if (exhaustionStep === Infinity && cumulative >= budgetParams.budgetSize) {
+        exhaustionStep = step;
+      }
+    }
+
+    exhaustionSteps.push(exhaustionStep);
+  }
+
+  const bands: ForecastBand[] = cumulativeByStep.map((values, step) => {
+    const sorted = values.sort((a, b) => a - b);
+    return {
+      iterationNumber: futureIterations[step].iterationNumber,
+      p5: percentile(sorted, 5),
+      p15: percentile(sorted, 15),
+      p50: percentile(sorted, 50),
+      p85: percentile(sorted, 85),
+      p95: percentile(sorted, 95)
+    };
+  });
+
+  // Iteration by which the budget is exhausted in p% of the runs
+  const sortedExhaustion = exhaustionSteps.sort((a, b) => a - b);
+  const toExhaustionForecast = (p: number): ExhaustionForecast | undefined => {
+    const step = percentile(sortedExhaustion, p);
+    if (step === Infinity) return undefined;
+
+    const iteration = step === -1 ? sortedIterations[currentIterationIndex] : futureIterations[step];
+    return {
+      iterationNumber: iteration.iterationNumber,
+      date: step === -1 ? horizon[currentIterationIndex].endDate : iteration.endDate
+    };
+  };
+
+  return {
+    runs,
+    sampleSize: ratios.length,
+    exhaustedShare: exhaustionSteps.filter(step => step !== Infinity).length / runs,
+    bands,
+    exhaustion: {
+      p50: toExhaustionForecast(50),
+      p85: toExhaustionForecast(85),
+      p95: toExhaustionForecast(95)
+    }
+  };
+};
@@ -1,177 +1,282 @@
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
-import { BudgetParams, IterationData, ChartData } from '@/types/budget';
+import jsPDF, { GState } from 'jspdf';
+import { BudgetParams, IterationData, ChartData, ReportColumn, ReportSection, ReportTemplate } from '@/types/budget';
+import { calculateIterationBudgetData, hasRateCard, calculateEVMMetrics } from '@/util/budgetEngine';
+import {
+  CHART_COLORS,
+  ChartLayout,
+  getChartPointLabel,
+  layoutBudgetChart
+} from '@/util/chartLayout';
+import {
+  getBudgetConsumedIndex,
+  getEarnedValueRows,
+  getIterationColumns,
+  getMetricBadges,
+  getParameterRows,
+  getRoleCostTable,
+  getVarianceNotes
+} from '@/util/reportContent';
+import { DEFAULT_REPORT_TEMPLATE } from '@/util/reportTemplates';
 
-// Helper function to format numbers with K suffix
-const formatNumberWithSuffix = (value: number): string => {
-  if (value >= 1000000) {
-    return `${(value / 1000000).toFixed(1)}M`;
-  } else if (value >= 1000) {
-    return `${(value / 1000).toFixed(1)}K`;
-  }
-  return value.toString();
+export interface PDFReportOptions {
+  showDates?: boolean; // Label iterations by their calendar dates instead of "Iteration N"
+  visibleChartItems?: string[]; // Chart series to draw, the chart's defaults if not set
+  template?: ReportTemplate; // Sections, columns and branding, the standard template if not set
+}
+
+// Line widths and dash lengths in the chart layout are in screen pixels
+const PX_TO_MM = 25.4 / 96;
+
+// Draw the budget chart with its legend at the given position, returning the
+// height it takes
+const drawChart = (pdf: jsPDF, layout: ChartLayout, x: number, y: number): number => {
+  const { plot } = layout;
+  const left = x + plot.x;
+  const right = left + plot.width;
+  const top = y + plot.y;
+  const bottom = top + plot.height;
+  
+  // Horizontal grid lines at the cumulative cost ticks
+  pdf.setLineWidth(0.1);
+  pdf.setDrawColor(CHART_COLORS.grid);
+  pdf.setLineDashPattern([1, 1], 0);
+  layout.rightTicks.forEach(tick => pdf.line(left, y + tick.position, right, y + tick.position));
+  pdf.setLineDashPattern([], 0);
+  
+  // Axes with their tick labels
+  pdf.setLineWidth(0.2);
+  pdf.setDrawColor(CHART_COLORS.axis);
+  pdf.line(left, top, left, bottom);
+  pdf.line(right, top, right, bottom);
+  pdf.line(left, bottom, right, bottom);
+  
+  pdf.setFontSize(7);
+  pdf.setTextColor(CHART_COLORS.axis);
+  layout.leftTicks.forEach(tick => pdf.text(tick.label, left - 1.5, y + tick.position + 1, { align: 'right' }));
+  layout.rightTicks.forEach(tick => pdf.text(tick.label, right + 1.5, y + tick.position + 1));
+  
+  // Category labels are rotated to end at their tick
+  layout.xLabels.forEach(tick => {
+    const offset = pdf.getTextWidth(tick.label) * Math.SQRT1_2;
+    pdf.text(tick.label, x + tick.position - offset, bottom + 3 + offset, { angle: 45 });
+  });
+  
+  pdf.setFontSize(8);
+  pdf.text(layout.leftAxisLabel, x + 3, top + (plot.height + pdf.getTextWidth(layout.leftAxisLabel)) / 2, { angle: 90 });
+  pdf.text(layout.rightAxisLabel, x + layout.width - 1, top + (plot.height + pdf.getTextWidth(layout.rightAxisLabel)) / 2, { angle: 90 });
+  
+  // Iteration cost bars
+  pdf.saveGraphicsState();
+  pdf.setGState(new GState({ opacity: 0.6 }));
+  layout.bars.forEach(bar => {
+    pdf.setFillColor(bar.color);
+    pdf.rect(x + bar.x, y + bar.y, bar.width, bar.height, 'F');
+  });
+  pdf.restoreGraphicsState();
+  
+  // Cumulative lines, filling the area under those drawn as areas
+  layout.lines.forEach(line => {
+    const [first, ...rest] = line.points;
+    
+    if (line.fillOpacity) {
+      pdf.saveGraphicsState();
+      pdf.setGState(new GState({ opacity: line.fillOpacity }));
+      pdf.setFillColor(line.color);
+      pdf.moveTo(x + first[0], bottom);
+      line.points.forEach(([px, py]) => pdf.lineTo(x + px, y + py));
+      pdf.lineTo(x + line.points[line.points.length - 1][0], bottom);
+      pdf.close();
+      pdf.fill();
+      pdf.restoreGraphicsState();
+    }
+    
+    pdf.setDrawColor(line.color);
+    pdf.setLineWidth(line.width * PX_TO_MM);
+    pdf.setLineDashPattern((line.dash ?? []).map(length => length * PX_TO_MM), 0);
+    pdf.moveTo(x + first[0], y + first[1]);
+    rest.forEach(([px, py]) => pdf.lineTo(x + px, y + py));
+    pdf.stroke();
+  });
+  
+  // Total budget reference line
+  pdf.setDrawColor(CHART_COLORS.budget);
+  pdf.setLineWidth(PX_TO_MM);
+  pdf.setLineDashPattern([5 * PX_TO_MM, 5 * PX_TO_MM], 0);
+  pdf.line(left, y + layout.budgetLine.y, right, y + layout.budgetLine.y);
+  pdf.setLineDashPattern([], 0);
+  pdf.setTextColor(CHART_COLORS.budget);
+  pdf.text(layout.budgetLine.label, right - 1, y + layout.budgetLine.y - 1.5, { align: 'right' });
+  
+  // Legend below the chart, wrapping onto more rows if needed
+  pdf.setFontSize(8);
+  pdf.setTextColor(0, 0, 0);
+  let legendX = left;
+  let legendY = y + layout.height + 4;
+  layout.legend.forEach(item => {
+    const itemWidth = 8 + pdf.getTextWidth(item.label) + 6;
+    if (legendX + itemWidth > right && legendX > left) {
+      legendX = left;
+      legendY += 5;
+    }
+    
+    if (item.kind === 'bar') {
+      pdf.setFillColor(item.color);
+      pdf.rect(legendX, legendY - 2.5, 6, 3, 'F');
+    } else {
+      pdf.setDrawColor(item.color);
+      pdf.setLineWidth(2 * PX_TO_MM);
+      pdf.setLineDashPattern(item.kind === 'dashed' ? [1.5, 1] : [], 0);
+      pdf.line(legendX, legendY - 1, legendX + 6, legendY - 1);
+      pdf.setLineDashPattern([], 0);
+    }
+    pdf.text(item.label, legendX + 8, legendY);
+    legendX += itemWidth;
+  });
+  
+  return legendY - y + 2;
 };
 
-export async function generatePDFReport(
+// Build the report document. It is drawn without the DOM, so it can also be
+// created on the server.
+export function createPDFReport(
   budgetParams: BudgetParams,
   iterations: IterationData[],
   chartData: ChartData[],
-  chartRef: React.RefObject<HTMLDivElement>
-) {
+  options: PDFReportOptions = {}
+): jsPDF {
+  const template = options.template ?? DEFAULT_REPORT_TEMPLATE;
+  const hasSection = (section: ReportSection) => template.sections.includes(section);
+  
   // Create a new PDF document
-  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pdf = new jsPDF(template.orientation === 'landscape' ? 'l' : 'p', 'mm', 'a4');
   const pageWidth = pdf.internal.pageSize.getWidth();
   const pageHeight = pdf.internal.pageSize.getHeight();
   const margin = 10;
+  // Leave room for the footer at the bottom of every page
+  const contentBottom = template.footer ? pageHeight - 8 : pageHeight;
   let yPosition = margin;
   
+  // Add logo, scaled to fit next to the title
+  if (template.logo) {
+    try {
+      const { width, height, fileType } = pdf.getImageProperties(template.logo);
+      const scale = Math.min(40 / width, 15 / height);
+      pdf.addImage(template.logo, fileType, margin, margin - 4, width * scale, height * scale);
+    } catch (error) {
+      console.error('Error adding logo:', error);
+    }
+  }
+  
   // Add title
   pdf.setFontSize(20);
-  pdf.text('Budget Visualization Report', pageWidth / 2, yPosition, { align: 'center' });
+  pdf.text(template.title, pageWidth / 2, yPosition, { align: 'center' });
   yPosition += 15;
   
   // Add date
   pdf.setFontSize(10);
   pdf.text(`Generated on: ${new Date().toLocaleDateString()}`, pageWidth / 2, yPosition, { align: 'center' });
-  yPosition += 10;
+  yPosition += 15;
   
-  // Budget Parameters section removed as requested
-  yPosition += 5;
+  // Draw label and value rows with alternating shading
+  const drawKeyValueRows = (rows: string[][]) => {
+    const labelWidth = 90;
+    const valueWidth = 50;
+    pdf.setFontSize(10);
+    rows.forEach(([label, value], index) => {
+      if (yPosition > contentBottom - 15) {
+        pdf.addPage();
+        yPosition = margin;
+      }
+      if (index % 2 === 0) {
+        pdf.setFillColor(245, 245, 245);
+        pdf.rect(margin, yPosition, labelWidth + valueWidth, 7, 'F');
+      }
+      pdf.text(label, margin + 2, yPosition + 5);
+      pdf.text(value, margin + labelWidth + valueWidth - 2, yPosition + 5, { align: 'right' });
+      yPosition += 7;
+    });
+    yPosition += 10;
+  };
+  
+  // Add budget parameters
+  if (hasSection('parameters')) {
+    pdf.setFontSize(16);
+    pdf.text('Budget Parameters', margin, yPosition);
+    yPosition += 10;
+    
+    drawKeyValueRows(getParameterRows(budgetParams, iterations));
+  }
   
-  // Add chart visualization
-  if (chartRef.current) {
+  // Add budget metrics and chart visualization
+  if (hasSection('metrics') || (hasSection('chart') && chartData.length > 0)) {
     // Check if we need a new page for the chart
-    if (yPosition > pageHeight / 3) {
+    if (hasSection('chart') && yPosition > pageHeight / 3) {
       pdf.addPage();
       yPosition = margin;
     }
     
     pdf.setFontSize(16);
-    pdf.text('Budget Visualization Chart', margin, yPosition);
+    pdf.text(hasSection('chart') ? 'Budget Visualization Chart' : 'Budget Summary', margin, yPosition);
     yPosition += 10;
-    
-    // Calculate budget metrics for badges
-    const sortedIterations = [...iterations].sort((a, b) => a.iterationNumber - b.iterationNumber);
-    const currentIteration = sortedIterations.find(it => it.isCurrent);
-    
-    // Calculate budget consumption metrics
-    let cumulativeCost = 0;
-    let currentIterationCost = 0;
-    let currentIterationNumber = 0;
-    
-    sortedIterations.forEach((iteration, index) => {
-      const totalHours = iteration.totalHours || (iteration.iterationDays * iteration.teamSize * 8);
-      const iterationCost = budgetParams.costPerHour * totalHours;
-      
-      if (iteration.isCurrent) {
-        currentIterationCost = iterationCost;
-        currentIterationNumber = iteration.iterationNumber;
-      }
-      
-      if (!currentIteration || index <= sortedIterations.indexOf(currentIteration)) {
-        cumulativeCost += iterationCost;
-      }
-    });
-    
-    const budgetConsumptionPercentage = (cumulativeCost / budgetParams.budgetSize) * 100;
-    const remainingBudget = budgetParams.budgetSize - cumulativeCost;
-    
-    // Add badges with stats above the chart
-    const badgeWidth = (pageWidth - (margin * 2)) / 3;
+  }
+  
+  if (hasSection('metrics')) {
+    // Add badges with stats above the chart - white filling with black border and black text
+    const badges = getMetricBadges(budgetParams, iterations, chartData);
+    const badgeWidth = (pageWidth - (margin * 2)) / badges.length;
     const badgeHeight = 15;
     
-    // Badge 1: Total Budget - white filling with black border and black text
-    pdf.setFillColor(255, 255, 255); // White fill
-    pdf.roundedRect(margin, yPosition, badgeWidth - 2, badgeHeight, 2, 2, 'F');
-    pdf.setDrawColor(0, 0, 0); // Black border
-    pdf.roundedRect(margin, yPosition, badgeWidth - 2, badgeHeight, 2, 2, 'S');
-    pdf.setTextColor(0, 0, 0); // Black text
-    pdf.setFontSize(8);
-    pdf.text('TOTAL BUDGET', margin + (badgeWidth - 2) / 2, yPosition + 4, { align: 'center' });
-    pdf.setFontSize(10);
-    pdf.text(`${budgetParams.currency}${formatNumberWithSuffix(budgetParams.budgetSize)}`, margin + (badgeWidth - 2) / 2, yPosition + 11, { align: 'center' });
-    
-    // Badge 2: Consumed Budget - white filling with black border and black text
-    pdf.setFillColor(255, 255, 255); // White fill
-    pdf.roundedRect(margin + badgeWidth, yPosition, badgeWidth - 2, badgeHeight, 2, 2, 'F');
-    pdf.setDrawColor(0, 0, 0); // Black border
-    pdf.roundedRect(margin + badgeWidth, yPosition, badgeWidth - 2, badgeHeight, 2, 2, 'S');
-    pdf.setTextColor(0, 0, 0); // Black text
-    pdf.setFontSize(8);
-    pdf.text('CONSUMED BUDGET', margin + badgeWidth + (badgeWidth - 2) / 2, yPosition + 4, { align: 'center' });
-    pdf.setFontSize(10);
-    pdf.text(`${budgetParams.currency}${formatNumberWithSuffix(cumulativeCost)} (${budgetConsumptionPercentage.toFixed(1)}%)`, margin + badgeWidth + (badgeWidth - 2) / 2, yPosition + 11, { align: 'center' });
-    
-    // Badge 3: Remaining Budget - white filling with black border and black text
-    pdf.setFillColor(255, 255, 255); // White fill
-    pdf.roundedRect(margin + badgeWidth * 2, yPosition, badgeWidth - 2, badgeHeight, 2, 2, 'F');
-    pdf.setDrawColor(0, 0, 0); // Black border
-    pdf.roundedRect(margin + badgeWidth * 2, yPosition, badgeWidth - 2, badgeHeight, 2, 2, 'S');
-    pdf.setTextColor(0, 0, 0); // Black text
-    pdf.setFontSize(8);
-    pdf.text('REMAINING BUDGET', margin + badgeWidth * 2 + (badgeWidth - 2) / 2, yPosition + 4, { align: 'center' });
-    pdf.setFontSize(10);
-    pdf.text(`${budgetParams.currency}${formatNumberWithSuffix(remainingBudget)}`, margin + badgeWidth * 2 + (badgeWidth - 2) / 2, yPosition + 11, { align: 'center' });
+    badges.forEach((badge, index) => {
+      const x = margin + badgeWidth * index;
+      pdf.setFillColor(255, 255, 255);
+      pdf.roundedRect(x, yPosition, badgeWidth - 2, badgeHeight, 2, 2, 'F');
+      pdf.setDrawColor(0, 0, 0);
+      pdf.roundedRect(x, yPosition, badgeWidth - 2, badgeHeight, 2, 2, 'S');
+      pdf.setTextColor(0, 0, 0);
+      pdf.setFontSize(8);
+      pdf.text(badge.label.toUpperCase(), x + (badgeWidth - 2) / 2, yPosition + 4, { align: 'center' });
+      pdf.setFontSize(10);
+      pdf.text(badge.value, x + (badgeWidth - 2) / 2, yPosition + 11, { align: 'center' });
+    });
     
     // Reset draw color
     pdf.setDrawColor(0, 0, 0);
     yPosition += badgeHeight + 5;
+  }
+  
+  if (hasSection('chart') && chartData.length > 0) {
+    // Draw the chart natively so it stays sharp and doesn't need the chart on screen
+    const chartWidth = pageWidth - (margin * 2);
+    const layout = layoutBudgetChart(budgetParams, chartData, {
+      width: chartWidth,
+      height: 100,
+      visibleItems: options.visibleChartItems,
+      getLabel: data => getChartPointLabel(data, budgetParams, !!options.showDates),
+      margin: { top: 6, right: 20, bottom: 22, left: 20 }
+    });
     
-    try {
-      // Temporarily remove any border from the chart element
-      let originalBorder = '';
-      if (chartRef.current) {
-        originalBorder = chartRef.current.style.border;
-        chartRef.current.style.border = 'none';
-      }
-      
-      // Capture the chart as an image without border
-      const canvas = await html2canvas(chartRef.current, {
-        scale: 2, // Higher scale for better quality
-        logging: false,
-        useCORS: true,
-        height: chartRef.current.scrollHeight, // Ensure full height is captured
-        width: chartRef.current.scrollWidth, // Ensure full width is captured
-        windowHeight: chartRef.current.scrollHeight + 100, // Add extra space to ensure all content is captured
-        backgroundColor: null, // Transparent background
-      });
-      
-      // Restore original border style
-      if (chartRef.current) {
-        chartRef.current.style.border = originalBorder;
-      }
-      
-      const imgData = canvas.toDataURL('image/png');
-      const imgWidth = pageWidth - (margin * 2);
-      
-      // Calculate height while maintaining aspect ratio
-      const imgHeight = (canvas.height * imgWidth) / canvas.width;
-      
-      // Check if the image will fit on the current page
-      if (yPosition + imgHeight > pageHeight - margin) {
-        // Add a new page if the chart is too large for remaining space
-        pdf.addPage();
-        yPosition = margin;
-      }
-      
-      // Add the chart image to the PDF with proper scaling - without a frame/border
-      pdf.addImage(imgData, 'PNG', margin, yPosition, imgWidth, imgHeight);
-      
-      // Ensure no border is drawn around the image
-      pdf.setDrawColor(255, 255, 255); // White color (same as background)
-      pdf.setLineWidth(0); // Set line width to 0
-      yPosition += imgHeight + 15;
-    } catch (error) {
-      console.error('Error capturing chart:', error);
-      pdf.text('Error capturing chart visualization', margin, yPosition);
-      yPosition += 10;
+    // Check if the chart will fit on the current page
+    if (yPosition + layout.height + 15 > contentBottom - margin) {
+      pdf.addPage();
+      yPosition = margin;
     }
+    
+    yPosition += drawChart(pdf, layout, margin, yPosition) + 15;
+    pdf.setTextColor(0, 0, 0);
+    pdf.setDrawColor(0, 0, 0);
+    pdf.setLineWidth(0.2);
   }
   
+  // Calculate the budget consumption for each iteration
+  const iterationBudgetData = calculateIterationBudgetData(budgetParams, iterations);
+  
+  // Only label rows by date if every iteration has one
+  const showDates = !!options.showDates && iterationBudgetData.every(data => data.startDate && data.endDate);
+  
   // Add iterations table
-  if (iterations.length > 0) {
+  if (hasSection('iterations') && iterations.length > 0) {
     // Check if we need a new page for the table
-    if (yPosition > pageHeight - 100) {
+    if (yPosition > contentBottom - 100) {
       pdf.addPage();
       yPosition = margin;
     }
@@ -180,74 +285,54 @@ export async function generatePDFReport(
     pdf.text('Iterations and Budget Consumption', margin, yPosition);
     yPosition += 10;
     
-    // Sort iterations by iteration number
-    const sortedIterations = [...iterations].sort((a, b) => a.iterationNumber - b.iterationNumber);
-    
-    // Calculate the budget consumption for each iteration
-    let cumulativeCost = 0;
-    const iterationBudgetData = sortedIterations.map(iteration => {
-      // Get total hours (use calculated value if not set)
-      const totalHours = iteration.totalHours || (iteration.iterationDays * iteration.teamSize * 8);
-      
-      // Calculate cost using total hours
-      const iterationCost = budgetParams.costPerHour * totalHours;
-      
-      cumulativeCost += iterationCost;
-      const remainingBudget = budgetParams.budgetSize - cumulativeCost;
-      const budgetConsumed = (cumulativeCost / budgetParams.budgetSize) * 100;
-      
-      return {
-        ...iteration,
-        totalHours,
-        iterationCost,
-        cumulativeCost,
-        remainingBudget,
-        budgetConsumed,
-        budgetExceeded: remainingBudget < 0
-      };
-    });
-    
     // Find the iteration where budget is fully consumed
-    const budgetFullyConsumedIndex = iterationBudgetData.findIndex(data => data.remainingBudget < 0);
+    const budgetFullyConsumedIndex = getBudgetConsumedIndex(iterationBudgetData);
     
-    // Table headers - removed 'Days' and 'Team Size' columns as requested
-    const headers = ['Iteration #', 'Hours', `Cost (${budgetParams.currency})`, `Cumulative (${budgetParams.currency})`, `Remaining (${budgetParams.currency})`, 'Consumed (%)'];
-    const colWidths = [18, 20, 25, 30, 30, 30];
+    // Columns shrunk to fit the page if needed
+    const columns = getIterationColumns(budgetParams, template.columns, showDates);
+    const columnWidths: Record<ReportColumn, number> = {
+      iteration: showDates ? 40 : 18,
+      days: 14,
+      teamSize: 20,
+      hours: 18,
+      variance: 18,
+      cost: 25,
+      cumulative: 30,
+      remaining: 30,
+      consumed: 25
+    };
+    const naturalWidth = columns.reduce((sum, column) => sum + columnWidths[column.key], 0);
+    const widthScale = Math.min(1, (pageWidth - margin * 2) / naturalWidth);
+    const colWidths = columns.map(column => columnWidths[column.key] * widthScale);
+    const tableFontSize = widthScale < 1 ? 8 : 10;
     
     // Calculate total width
     const tableWidth = colWidths.reduce((sum, width) => sum + width, 0);
     const startX = (pageWidth - tableWidth) / 2;
     
-    // Draw table headers
-    pdf.setFillColor(240, 240, 240);
-    pdf.rect(startX, yPosition, tableWidth, 8, 'F');
-    pdf.setFontSize(10);
-    pdf.setTextColor(0, 0, 0);
+    const drawHeaders = () => {
+      pdf.setFillColor(240, 240, 240);
+      pdf.rect(startX, yPosition, tableWidth, 8, 'F');
+      pdf.setFontSize(tableFontSize);
+      pdf.setTextColor(0, 0, 0);
+      
+      let xOffset = startX;
+      columns.forEach((column, i) => {
+        pdf.text(column.header, xOffset + 2, yPosition + 5);
+        xOffset += colWidths[i];
+      });
+      yPosition += 8;
+    };
     
-    let xOffset = startX;
-    headers.forEach((header, i) => {
-      pdf.text(header, xOffset + 2, yPosition + 5);
-      xOffset += colWidths[i];
-    });
-    yPosition += 8;
+    drawHeaders();
     
     // Draw table rows
     iterationBudgetData.forEach((data, index) => {
       // Check if we need a new page
-      if (yPosition > pageHeight - 15) {
+      if (yPosition > contentBottom - 15) {
         pdf.addPage();
         yPosition = margin;
-        
-        // Redraw headers on new page
-        pdf.setFillColor(240, 240, 240);
-        pdf.rect(startX, yPosition, tableWidth, 8, 'F');
-        
-        xOffset = startX;
-        headers.forEach((header, i) => {
-          pdf.text(header, xOffset + 2, yPosition + 5);
-          xOffset += colWidths[i];
-        });
-        yPosition += 8;
+        drawHeaders();
       }
       
       // Highlight row if it's the current iteration
@@ -256,8 +341,7 @@ export async function generatePDFReport(
         pdf.rect(startX, yPosition, tableWidth, 8, 'F');
       }
       // Highlight row if budget is fully consumed at this iteration
-      else if (index === budgetFullyConsumedIndex || 
-          (budgetFullyConsumedIndex === -1 && data.budgetConsumed >= 100)) {
+      else if (index === budgetFullyConsumedIndex) {
         pdf.setFillColor(255, 240, 240);
         pdf.rect(startX, yPosition, tableWidth, 8, 'F');
       } else if (data.budgetExceeded) {
@@ -265,30 +349,20 @@ export async function generatePDFReport(
         pdf.rect(startX, yPosition, tableWidth, 8, 'F');
       }
       
-      // Draw row data - removed 'Days' and 'Team Size' columns
-      xOffset = startX;
-      
-      pdf.text(data.iterationNumber.toString(), xOffset + 2, yPosition + 5);
-      xOffset += colWidths[0];
-      
-      pdf.text(data.totalHours.toString(), xOffset + 2, yPosition + 5);
-      xOffset += colWidths[1];
-      
-      pdf.text(data.iterationCost.toLocaleString(), xOffset + 2, yPosition + 5);
-      xOffset += colWidths[2];
-      
-      pdf.text(data.cumulativeCost.toLocaleString(), xOffset + 2, yPosition + 5);
-      xOffset += colWidths[3];
-      
-      pdf.text(data.remainingBudget.toLocaleString(), xOffset + 2, yPosition + 5);
-      xOffset += colWidths[4];
-      
-      pdf.text(`${data.budgetConsumed.toFixed(1)}%`, xOffset + 2, yPosition + 5);
+      let xOffset = startX;
+      columns.forEach((column, i) => {
+        pdf.text(column.value(data), xOffset + 2, yPosition + 5);
+        xOffset += colWidths[i];
+      });
       
       yPosition += 8;
     });
     
     // Add notes about highlighted rows
+    if (yPosition > contentBottom - 25) {
+      pdf.addPage();
+      yPosition = margin;
+    }
     yPosition += 5;
     pdf.setFontSize(9);
     pdf.setTextColor(100, 100, 100);
@@ -305,10 +379,125 @@ export async function generatePDFReport(
     pdf.setFillColor(255, 240, 240);
     pdf.rect(margin, yPosition - 3, 5, 5, 'F');
     pdf.text('Iteration where budget is fully consumed', margin + 8, yPosition);
+    yPosition += 10;
+  }
+  
+  // Add a note for each iteration whose recorded hours differ from the plan
+  const varianceNotes = getVarianceNotes(budgetParams, iterationBudgetData, showDates);
+  if (hasSection('notes') && varianceNotes.length > 0) {
+    if (yPosition > contentBottom - 40) {
+      pdf.addPage();
+      yPosition = margin;
+    }
+    
+    pdf.setTextColor(0, 0, 0);
+    pdf.setFontSize(16);
+    pdf.text('Variance Notes', margin, yPosition);
+    yPosition += 8;
+    
+    pdf.setFontSize(10);
+    varianceNotes.forEach(note => {
+      if (yPosition > contentBottom - 15) {
+        pdf.addPage();
+        yPosition = margin;
+      }
+      pdf.text(note, margin + 2, yPosition + 5);
+      yPosition += 6;
+    });
+    yPosition += 10;
+  }
+  
+  // Add cost breakdown by role when a rate card is used
+  if (hasSection('roleCosts') && iterations.length > 0 && hasRateCard(budgetParams)) {
+    const { headers: roleHeaders, rows: roleRows } = getRoleCostTable(budgetParams, iterationBudgetData, showDates);
+    const roleCount = roleHeaders.length - 2;
+    
+    if (yPosition > contentBottom - 40) {
+      pdf.addPage();
+      yPosition = margin;
+    }
+    
+    pdf.setTextColor(0, 0, 0);
+    pdf.setFontSize(16);
+    pdf.text(`Cost by Role (${budgetParams.currency})`, margin, yPosition);
+    yPosition += 10;
+    
+    const firstColWidth = showDates ? 40 : 20;
+    const roleColWidth = (pageWidth - margin * 2 - firstColWidth - 30) / roleCount;
+    const roleColWidths = [firstColWidth, ...roleHeaders.slice(1, -1).map(() => roleColWidth), 30];
+    const roleFontSize = roleCount > 4 ? 8 : 10;
+    
+    const drawRoleHeaders = () => {
+      pdf.setFillColor(240, 240, 240);
+      pdf.rect(margin, yPosition, pageWidth - margin * 2, 8, 'F');
+      pdf.setFontSize(roleFontSize);
+      let x = margin;
+      roleHeaders.forEach((header, i) => {
+        // Keep long role names inside their column
+        pdf.text(pdf.splitTextToSize(header, roleColWidths[i] - 3)[0], x + 2, yPosition + 5);
+        x += roleColWidths[i];
+      });
+      yPosition += 8;
+    };
+    
+    drawRoleHeaders();
+    
+    roleRows.forEach(cells => {
+      if (yPosition > contentBottom - 15) {
+        pdf.addPage();
+        yPosition = margin;
+        drawRoleHeaders();
+      }
+      
+      let x = margin;
+      cells.forEach((cell, i) => {
+        pdf.text(cell, x + 2, yPosition + 5);
+        x += roleColWidths[i];
+      });
+      yPosition += 8;
+    });
+    yPosition += 10;
   }
   
+  // Add earned value metrics when progress has been recorded
+  const evm = calculateEVMMetrics(budgetParams, iterations);
+  if (hasSection('earnedValue') && evm.hasProgress) {
+    if (yPosition > contentBottom - 90) {
+      pdf.addPage();
+      yPosition = margin;
+    }
+    
+    pdf.setTextColor(0, 0, 0);
+    pdf.setFontSize(16);
+    pdf.text('Earned Value', margin, yPosition);
+    yPosition += 10;
+    
+    drawKeyValueRows(getEarnedValueRows(budgetParams, evm));
+  }
+  
+  // Add the footer and page number to every page
+  if (template.footer) {
+    const pageCount = pdf.getNumberOfPages();
+    pdf.setFontSize(8);
+    pdf.setTextColor(100, 100, 100);
+    for (let page = 1; page <= pageCount; page++) {
+      pdf.setPage(page);
+      pdf.text(template.footer, margin, pageHeight - 5);
+      pdf.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - 5, { align: 'right' });
+    }
+  }
+  
+  return pdf;
+}
+
+export async function generatePDFReport(
+  budgetParams: BudgetParams,
+  iterations: IterationData[],
+  chartData: ChartData[],
+  options: PDFReportOptions = {}
+) {
   // Save the PDF
-  pdf.save('budget_report.pdf');
+  createPDFReport(budgetParams, iterations, chartData, options).save('budget_report.pdf');
   
   return true;
-}
\ No newline at end of file
+}
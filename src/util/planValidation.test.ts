@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { MAX_ITERATIONS, MAX_TEAM_SIZE } from "@/util/budgetEngine";
+import { MAX_ITERATION_DAYS } from "@/util/calendar";
+import { validatePlan } from "@/util/planValidation";
+
+const plan = (overrides: { budgetParams?: object, iterations?: unknown } = {}) => ({
+  budgetParams: { costPerHour: 100, budgetSize: 64000, teamSize: 2, workingDaysPerIteration: 10, currency: "$", ...overrides.budgetParams },
+  iterations: overrides.iterations ?? [{ iterationNumber: 1, iterationDays: 10, teamSize: 2, plannedHours: 160, isCurrent: true }]
+});
+
+const validate = (value: Record<string, unknown>) => {
+  const errors: string[] = [];
+  const isValid = validatePlan(value, "", errors);
+  return { isValid, errors };
+};
+
+describe("validatePlan", () => {
+  it("accepts a plan", () => {
+    expect(validate(plan())).toEqual({ isValid: true, errors: [] });
+  });
+
+  it("accepts a planned zero-hour iteration and a missing currency", () => {
+    const { isValid } = validate(plan({
+      budgetParams: { currency: undefined },
+      iterations: [{ iterationNumber: 1, iterationDays: 10, teamSize: 2, plannedHours: 0 }]
+    }));
+    expect(isValid).toBe(true);
+  });
+
+  it("rejects iterations beyond the day and team size limits", () => {
+    const { isValid, errors } = validate(plan({
+      iterations: [{ iterationNumber: 1, iterationDays: 2e6, teamSize: MAX_TEAM_SIZE + 1 }]
+    }));
+    expect(isValid).toBe(false);
+    expect(errors).toEqual([
+      `iterations[0].iterationDays must be at most ${MAX_ITERATION_DAYS}`,
+      `iterations[0].teamSize must be at most ${MAX_TEAM_SIZE}`
+    ]);
+  });
+
+  it("rejects numbers that are missing, not finite or not positive", () => {
+    const { errors } = validate(plan({
+      budgetParams: { costPerHour: "100", budgetSize: 0, workingDaysPerIteration: -1 },
+      iterations: [{ iterationNumber: 1.5, teamSize: 2, actualHours: Infinity }]
+    }));
+    expect(errors).toEqual([
+      "budgetParams.costPerHour must be a number",
+      "budgetParams.budgetSize must be greater than 0",
+      "budgetParams.workingDaysPerIteration must be greater than 0",
+      "iterations[0].iterationNumber must be a whole number",
+      "iterations[0].iterationDays must be a number",
+      "iterations[0].actualHours must be a number"
+    ]);
+  });
+
+  it("rejects more than MAX_ITERATIONS iterations", () => {
+    const iterations = Array.from({ length: MAX_ITERATIONS + 1 }, (_, index) => ({ iterationNumber: index + 1, iterationDays: 10, teamSize: 2 }));
+    expect(validate(plan({ iterations })).errors).toEqual([`iterations must have at most ${MAX_ITERATIONS} iterations`]);
+  });
+
+  it("checks each rate card entry and the weekend days", () => {
+    const { errors } = validate(plan({
+      budgetParams: { rateCard: [null, { id: "dev", role: "Developer", hourlyRate: -5 }], weekendDays: [0, 7] }
+    }));
+    expect(errors).toEqual([
+      "budgetParams.weekendDays must be a list of days 0 (Sunday) to 6",
+      "budgetParams.rateCard[0] must have an id and a role",
+      "budgetParams.rateCard[1].hourlyRate must be at least 0"
+    ]);
+  });
+
+  it("reports a missing plan", () => {
+    expect(validate({}).errors).toEqual(["budgetParams is missing", "iterations must be a list"]);
+  });
+});
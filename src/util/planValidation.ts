@@ -0,0 +1,140 @@
+import { BudgetParams, IterationData } from "@/types/budget";
+import { MAX_AMOUNT, MAX_ITERATION_HOURS, MAX_ITERATIONS, MAX_TEAM_SIZE } from "@/util/budgetEngine";
+import { MAX_ITERATION_DAYS } from "@/util/calendar";
+
+// Checks of a plan received from outside the app: API requests and restored
+// backups. Numbers must be finite and within bounds, so bad input can't
+// produce NaN results or keep the calendar busy. Problems are added to
+// errors, prefixed with the path of the plan.
+
+interface NumberRule {
+  max: number;
+  positive?: boolean; // Greater than 0, otherwise at least 0
+  integer?: boolean;
+  optional?: boolean; // May be missing or null
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const checkNumber = (value: unknown, label: string, rule: NumberRule, errors: string[]) => {
+  if ((value === undefined || value === null) && rule.optional) return;
+
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    errors.push(`${label} must be a number`);
+  } else if (rule.integer && !Number.isInteger(value)) {
+    errors.push(`${label} must be a whole number`);
+  } else if (rule.positive ? value <= 0 : value < 0) {
+    errors.push(`${label} must be ${rule.positive ? "greater than 0" : "at least 0"}`);
+  } else if (value > rule.max) {
+    errors.push(`${label} must be at most ${rule.max}`);
+  }
+};
+
+const checkOptionalString = (value: unknown, label: string, errors: string[]) => {
+  if (value !== undefined && value !== null && typeof value !== "string") errors.push(`${label} must be a string`);
+};
+
+const BUDGET_PARAM_RULES: Record<"costPerHour" | "budgetSize" | "teamSize" | "workingDaysPerIteration" | "totalScope", NumberRule> = {
+  costPerHour: { max: MAX_AMOUNT },
+  budgetSize: { max: MAX_AMOUNT, positive: true },
+  teamSize: { max: MAX_TEAM_SIZE, positive: true },
+  workingDaysPerIteration: { max: MAX_ITERATION_DAYS, positive: true },
+  totalScope: { max: MAX_AMOUNT, optional: true }
+};
+
+const ITERATION_RULES: Record<
+  "iterationNumber" | "iterationDays" | "teamSize" | "plannedHours" | "actualHours" | "totalHours" | "percentComplete" | "deliveredScope",
+  NumberRule
+> = {
+  iterationNumber: { max: Number.MAX_SAFE_INTEGER, positive: true, integer: true },
+  iterationDays: { max: MAX_ITERATION_DAYS, positive: true },
+  teamSize: { max: MAX_TEAM_SIZE, positive: true },
+  plannedHours: { max: MAX_ITERATION_HOURS, optional: true },
+  actualHours: { max: MAX_ITERATION_HOURS, optional: true },
+  totalHours: { max: MAX_ITERATION_HOURS, optional: true },
+  percentComplete: { max: 100, optional: true },
+  deliveredScope: { max: MAX_AMOUNT, optional: true }
+};
+
+export const validateBudgetParams = (value: unknown, path: string, errors: string[]): value is BudgetParams => {
+  if (!isObject(value)) {
+    errors.push(`${path}budgetParams is missing`);
+    return false;
+  }
+
+  const errorCount = errors.length;
+  const label = (key: string) => `${path}budgetParams.${key}`;
+
+  Object.entries(BUDGET_PARAM_RULES).forEach(([key, rule]) => checkNumber(value[key], label(key), rule, errors));
+  ["currency", "projectStartDate", "holidayCountry"].forEach(key => checkOptionalString(value[key], label(key), errors));
+
+  if (value.weekendDays !== undefined && value.weekendDays !== null &&
+    (!Array.isArray(value.weekendDays) || value.weekendDays.some(day => !Number.isInteger(day) || day < 0 || day > 6))) {
+    errors.push(`${label("weekendDays")} must be a list of days 0 (Sunday) to 6`);
+  }
+
+  if (value.rateCard !== undefined && value.rateCard !== null) {
+    if (!Array.isArray(value.rateCard)) {
+      errors.push(`${label("rateCard")} must be a list`);
+    } else {
+      value.rateCard.forEach((entry: unknown, index: number) => {
+        const entryLabel = `${label("rateCard")}[${index}]`;
+        if (!isObject(entry) || typeof entry.id !== "string" || typeof entry.role !== "string") {
+          errors.push(`${entryLabel} must have an id and a role`);
+          return;
+        }
+        checkNumber(entry.hourlyRate, `${entryLabel}.hourlyRate`, { max: MAX_AMOUNT }, errors);
+        checkOptionalString(entry.currency, `${entryLabel}.currency`, errors);
+      });
+    }
+  }
+
+  return errors.length === errorCount;
+};
+
+export const validateIterations = (value: unknown, path: string, errors: string[]): value is IterationData[] => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}iterations must be a list`);
+    return false;
+  }
+  if (value.length > MAX_ITERATIONS) {
+    errors.push(`${path}iterations must have at most ${MAX_ITERATIONS} iterations`);
+    return false;
+  }
+
+  const errorCount = errors.length;
+  value.forEach((iteration: unknown, index: number) => {
+    const label = `${path}iterations[${index}]`;
+    if (!isObject(iteration)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    Object.entries(ITERATION_RULES).forEach(([key, rule]) => checkNumber(iteration[key], `${label}.${key}`, rule, errors));
+    if (iteration.isCurrent !== undefined && iteration.isCurrent !== null && typeof iteration.isCurrent !== "boolean") {
+      errors.push(`${label}.isCurrent must be true or false`);
+    }
+    if (iteration.roleHeadcount !== undefined && iteration.roleHeadcount !== null) {
+      if (!isObject(iteration.roleHeadcount)) {
+        errors.push(`${label}.roleHeadcount must be an object`);
+      } else {
+        Object.entries(iteration.roleHeadcount).forEach(([roleId, count]) =>
+          checkNumber(count, `${label}.roleHeadcount.${roleId}`, { max: MAX_TEAM_SIZE }, errors));
+      }
+    }
+  });
+
+  return errors.length === errorCount;
+};
+
+// Check the budget parameters and iterations of a plan, e.g. a state or a scenario
+export const validatePlan = (
+  plan: Record<string, unknown>,
+  path: string,
+  errors: string[]
+): plan is Record<string, unknown> & { budgetParams: BudgetParams, iterations: IterationData[] } => {
+  const hasValidParams = validateBudgetParams(plan.budgetParams, path, errors);
+  const hasValidIterations = validateIterations(plan.iterations, path, errors);
+  return hasValidParams && hasValidIterations;
+};
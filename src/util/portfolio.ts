@@ -0,0 +1,91 @@
+import { AppState } from "@/util/stateManager";
+import { BudgetHealth, BudgetSummary, ProjectSummary } from "@/types/budget";
+import {
+  calculateChartData,
+  calculateBudgetMetrics,
+  normalizeIterationHours,
+  sortIterations,
+  getCurrentIterationIndex
+} from "@/util/budgetEngine";
+
+// Cost variance (as a percentage of the planned cost to date) above which a
+// budget is at risk or over budget
+const AT_RISK_VARIANCE = 5;
+const OVER_BUDGET_VARIANCE = 15;
+// Consumption at which a budget is at risk regardless of its variance
+const AT_RISK_CONSUMPTION = 90;
+
+const HEALTH_RANK: Record<BudgetHealth, number> = {
+  "on-track": 0,
+  "at-risk": 1,
+  "over-budget": 2
+};
+
+export const HEALTH_LABELS: Record<BudgetHealth, string> = {
+  "on-track": "On track",
+  "at-risk": "At risk",
+  "over-budget": "Over budget"
+};
+
+// Health of a budget from its consumption and its cost against the plan
+export const getBudgetHealth = (percentage: number, costVariancePercentage: number): BudgetHealth => {
+  if (percentage >= 100 || costVariancePercentage > OVER_BUDGET_VARIANCE) return "over-budget";
+  if (percentage >= AT_RISK_CONSUMPTION || costVariancePercentage > AT_RISK_VARIANCE) return "at-risk";
+  return "on-track";
+};
+
+export const getWorstHealth = (healths: BudgetHealth[]): BudgetHealth => {
+  return healths.reduce<BudgetHealth>(
+    (worst, health) => (HEALTH_RANK[health] > HEALTH_RANK[worst] ? health : worst),
+    "on-track"
+  );
+};
+
+// Summarize one saved budget at its current iteration
+export const summarizeBudget = (
+  savedState: { id: string; name: string; date: string; projectId: string | null },
+  state: AppState
+): BudgetSummary => {
+  const iterations = state.iterations.map(normalizeIterationHours);
+  const chartData = calculateChartData(state.budgetParams, iterations);
+  const metrics = calculateBudgetMetrics(state.budgetParams, iterations, chartData);
+
+  // Chart data starts with the "Start" point, so iteration i is at i + 1
+  const currentIterationIndex = getCurrentIterationIndex(sortIterations(iterations));
+  const plannedToDate = chartData[currentIterationIndex + 1]?.cumulativePlanned ?? 0;
+  const costVariancePercentage = plannedToDate > 0 ? ((metrics.consumed - plannedToDate) / plannedToDate) * 100 : 0;
+
+  return {
+    ...savedState,
+    currency: state.budgetParams.currency || "$",
+    totalBudget: state.budgetParams.budgetSize,
+    consumed: metrics.consumed,
+    percentage: metrics.percentage,
+    plannedToDate,
+    costVariancePercentage,
+    exhaustionIterationNumber: metrics.exhaustionIterationNumber,
+    exhaustionDate: metrics.exhaustionDate,
+    health: getBudgetHealth(metrics.percentage, costVariancePercentage)
+  };
+};
+
+// Aggregate budgets into a project summary
+export const summarizeProject = (
+  project: { id: string | null; name: string; description?: string | null },
+  budgets: BudgetSummary[]
+): ProjectSummary => {
+  const totalBudget = budgets.reduce((sum, budget) => sum + budget.totalBudget, 0);
+  const consumed = budgets.reduce((sum, budget) => sum + budget.consumed, 0);
+  const currencies = new Set(budgets.map(budget => budget.currency));
+
+  return {
+    ...project,
+    currency: budgets[0]?.currency ?? "$",
+    mixedCurrency: currencies.size > 1,
+    totalBudget,
+    consumed,
+    percentage: totalBudget > 0 ? (consumed / totalBudget) * 100 : 0,
+    health: getWorstHealth(budgets.map(budget => budget.health)),
+    budgets
+  };
+};
@@ -0,0 +1,67 @@
+import { ProjectSummary } from "@/types/budget";
+import { setLocalUpdatedAt } from "@/util/stateManager";
+
+// Get the user's projects with summaries of their budgets
+export const getPortfolio = async (): Promise<ProjectSummary[]> => {
+  const response = await fetch('/api/projects/get');
+
+  if (!response.ok) {
+    throw new Error('Failed to load portfolio');
+  }
+
+  return response.json();
+};
+
+// Create a project, or rename an existing one
+export const saveProject = async (name: string, id?: string): Promise<string> => {
+  const response = await fetch('/api/projects/save', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ id, name }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to save project');
+  }
+
+  const result = await response.json();
+  return result.id;
+};
+
+export const deleteProject = async (id: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`/api/projects/delete?id=${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    });
+    return response.ok;
+  } catch (error) {
+    console.error('Error deleting project:', error);
+    return false;
+  }
+};
+
+// Move a saved state into a project, or out of all projects with null
+export const assignStateToProject = async (id: string, projectId: string | null): Promise<boolean> => {
+  try {
+    const response = await fetch('/api/states/assign', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ id, projectId }),
+    });
+
+    if (!response.ok) return false;
+
+    // Keep the local copy's version in line, or its next save would be
+    // rejected as a conflict
+    const result = await response.json();
+    setLocalUpdatedAt(id, result.updatedAt);
+    return true;
+  } catch (error) {
+    console.error('Error assigning state to project:', error);
+    return false;
+  }
+};
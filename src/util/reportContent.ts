@@ -0,0 +1,140 @@
+import { BudgetParams, ChartData, EVMMetrics, IterationBudgetData, IterationData, ReportColumn } from "@/types/budget";
+import { calculateBudgetMetrics, DEFAULT_RATE_ROLE_ID, getRoleName, hasRateCard } from "@/util/budgetEngine";
+import { formatDateRange, formatShortDate } from "@/util/calendar";
+import { formatAxisValue } from "@/util/chartLayout";
+import { REPORT_COLUMNS } from "@/util/reportTemplates";
+
+// Text of the status report, shared by the PDF, HTML and Markdown exports so
+// they all show the same figures
+
+export const formatReportCost = (value: number | undefined, budgetParams: BudgetParams): string => value === undefined
+  ? "-"
+  : `${value < 0 ? "-" : ""}${budgetParams.currency}${Math.round(Math.abs(value)).toLocaleString()}`;
+
+const formatSigned = (value: number, text: string) => `${value > 0 ? "+" : ""}${text}`;
+
+// Label an iteration by its dates, if every iteration has them, or by its number
+export const getReportRowLabel = (data: IterationBudgetData, showDates: boolean): string =>
+  showDates ? formatDateRange(data.startDate, data.endDate) : data.iterationNumber.toString();
+
+// Total, consumed and remaining budget, shown as badges above the chart
+export const getMetricBadges = (budgetParams: BudgetParams, iterations: IterationData[], chartData: ChartData[]): { label: string, value: string }[] => {
+  const { consumed, percentage, remaining } = calculateBudgetMetrics(budgetParams, iterations, chartData);
+  return [
+    { label: "Total Budget", value: `${budgetParams.currency}${formatAxisValue(budgetParams.budgetSize)}` },
+    { label: "Consumed Budget", value: `${budgetParams.currency}${formatAxisValue(consumed)} (${percentage.toFixed(1)}%)` },
+    { label: "Remaining Budget", value: `${budgetParams.currency}${formatAxisValue(remaining)}` }
+  ];
+};
+
+export const getParameterRows = (budgetParams: BudgetParams, iterations: IterationData[]): string[][] => [
+  ["Total Budget", formatReportCost(budgetParams.budgetSize, budgetParams)],
+  [hasRateCard(budgetParams) ? "Default Cost per Hour" : "Cost per Hour", formatReportCost(budgetParams.costPerHour, budgetParams)],
+  ...(budgetParams.rateCard ?? []).map(entry => [`Rate: ${entry.role}`, `${entry.currency ?? budgetParams.currency}${entry.hourlyRate.toLocaleString()}`]),
+  ["Team Size", budgetParams.teamSize.toString()],
+  ["Working Days per Iteration", budgetParams.workingDaysPerIteration.toString()],
+  ["Iterations", iterations.length.toString()],
+  ...(budgetParams.projectStartDate ? [["Project Start Date", formatShortDate(budgetParams.projectStartDate)]] : []),
+  ...(budgetParams.totalScope ? [["Total Scope", budgetParams.totalScope.toLocaleString()]] : [])
+];
+
+export interface ReportTableColumn {
+  key: ReportColumn;
+  header: string;
+  value: (data: IterationBudgetData) => string;
+}
+
+// Columns of the iteration table, in their usual order
+export const getIterationColumns = (budgetParams: BudgetParams, columns: ReportColumn[], showDates: boolean): ReportTableColumn[] => {
+  const { currency } = budgetParams;
+  const definitions: Record<ReportColumn, Omit<ReportTableColumn, "key">> = {
+    iteration: { header: showDates ? "Dates" : "Iteration #", value: data => getReportRowLabel(data, showDates) },
+    days: { header: "Days", value: data => data.iterationDays.toString() },
+    teamSize: { header: "Team Size", value: data => data.teamSize.toString() },
+    hours: { header: "Hours", value: data => data.totalHours.toString() },
+    // Variance of actual against planned hours, if actual hours were recorded
+    variance: {
+      header: "Var. (h)",
+      value: data => data.hoursVariance === undefined ? "-" : formatSigned(data.hoursVariance, data.hoursVariance.toLocaleString())
+    },
+    cost: { header: `Cost (${currency})`, value: data => data.iterationCost.toLocaleString() },
+    cumulative: { header: `Cumulative (${currency})`, value: data => data.cumulativeCost.toLocaleString() },
+    remaining: { header: `Remaining (${currency})`, value: data => data.remainingBudget.toLocaleString() },
+    consumed: { header: "Consumed (%)", value: data => `${data.budgetConsumed.toFixed(1)}%` }
+  };
+
+  return REPORT_COLUMNS
+    .filter(column => columns.includes(column.value))
+    .map(column => ({ key: column.value, ...definitions[column.value] }));
+};
+
+// Index of the iteration at which the budget is fully consumed, highlighted in the table
+export const getBudgetConsumedIndex = (iterationBudgetData: IterationBudgetData[]): number => {
+  const overBudgetIndex = iterationBudgetData.findIndex(data => data.remainingBudget < 0);
+  return overBudgetIndex !== -1 ? overBudgetIndex : iterationBudgetData.findIndex(data => data.budgetConsumed >= 100);
+};
+
+// One note per iteration whose recorded hours differ from the plan, and a
+// total over the recorded iterations. Empty if no hours were recorded.
+export const getVarianceNotes = (budgetParams: BudgetParams, iterationBudgetData: IterationBudgetData[], showDates: boolean): string[] => {
+  const recordedIterations = iterationBudgetData.filter(data => data.hoursVariance !== undefined);
+  if (recordedIterations.length === 0) return [];
+
+  const notes = recordedIterations
+    .filter(data => data.hoursVariance !== 0)
+    .map(data => {
+      const hoursVariance = data.hoursVariance!;
+      const percentage = data.plannedHours > 0 ? ` (${formatSigned(hoursVariance, (hoursVariance / data.plannedHours * 100).toFixed(1))}%)` : "";
+      const label = showDates ? formatDateRange(data.startDate, data.endDate) : `Iteration ${data.iterationNumber}`;
+      return `${label}: ${Math.abs(hoursVariance).toLocaleString()} h ${hoursVariance > 0 ? "over" : "under"} plan${percentage}, ${formatSigned(hoursVariance, formatReportCost(data.costVariance, budgetParams))}`;
+    });
+
+  const totalCostVariance = recordedIterations.reduce((sum, data) => sum + (data.costVariance ?? 0), 0);
+  notes.push(notes.length === 0
+    ? "Recorded hours match the plan in every iteration."
+    : `Total: ${formatSigned(totalCostVariance, formatReportCost(totalCostVariance, budgetParams))} against the plan over ${recordedIterations.length} recorded ${recordedIterations.length === 1 ? "iteration" : "iterations"}.`);
+  return notes;
+};
+
+// Cost of each iteration per rate card role, empty without a rate card
+export const getRoleCostTable = (
+  budgetParams: BudgetParams,
+  iterationBudgetData: IterationBudgetData[],
+  showDates: boolean
+): { headers: string[], rows: string[][] } => {
+  if (!hasRateCard(budgetParams)) return { headers: [], rows: [] };
+
+  const roleIds = [
+    ...(budgetParams.rateCard ?? []).map(entry => entry.id),
+    ...(iterationBudgetData.some(data => data.roleCosts[DEFAULT_RATE_ROLE_ID]) ? [DEFAULT_RATE_ROLE_ID] : [])
+  ];
+
+  return {
+    headers: [showDates ? "Dates" : "Iteration #", ...roleIds.map(roleId => getRoleName(roleId, budgetParams)), "Total"],
+    rows: iterationBudgetData.map(data => [
+      getReportRowLabel(data, showDates),
+      ...roleIds.map(roleId => Math.round(data.roleCosts[roleId] ?? 0).toLocaleString()),
+      Math.round(data.iterationCost).toLocaleString()
+    ])
+  };
+};
+
+export const getEarnedValueRows = (budgetParams: BudgetParams, evm: EVMMetrics): string[][] => {
+  const formatCost = (value?: number) => formatReportCost(value, budgetParams);
+  const formatIndex = (value?: number) => value === undefined ? "-" : value.toFixed(2);
+
+  return [
+    ["Budget at Completion (BAC)", formatCost(evm.budgetAtCompletion)],
+    ["Percent Complete", `${evm.percentComplete.toFixed(1)}%`],
+    ["Planned Value (PV)", formatCost(evm.plannedValue)],
+    ["Earned Value (EV)", formatCost(evm.earnedValue)],
+    ["Actual Cost (AC)", formatCost(evm.actualCost)],
+    ["Cost Variance (CV = EV - AC)", formatCost(evm.costVariance)],
+    ["Schedule Variance (SV = EV - PV)", formatCost(evm.scheduleVariance)],
+    ["Cost Performance Index (CPI)", formatIndex(evm.costPerformanceIndex)],
+    ["Schedule Performance Index (SPI)", formatIndex(evm.schedulePerformanceIndex)],
+    ["Estimate at Completion (EAC = BAC / CPI)", formatCost(evm.estimateAtCompletion)],
+    ["Estimate to Complete (ETC = EAC - AC)", formatCost(evm.estimateToComplete)],
+    ["Variance at Completion (VAC = BAC - EAC)", formatCost(evm.varianceAtCompletion)]
+  ];
+};
@@ -0,0 +1,268 @@
+import { BudgetParams, ChartData, IterationData, ReportSection } from "@/types/budget";
+import { calculateEVMMetrics, calculateIterationBudgetData } from "@/util/budgetEngine";
+import { CHART_COLORS, ChartLayout, getChartPointLabel, layoutBudgetChart } from "@/util/chartLayout";
+import type { PDFReportOptions } from "@/util/pdfGenerator";
+import {
+  getBudgetConsumedIndex,
+  getEarnedValueRows,
+  getIterationColumns,
+  getMetricBadges,
+  getParameterRows,
+  getRoleCostTable,
+  getVarianceNotes
+} from "@/util/reportContent";
+import { DEFAULT_REPORT_TEMPLATE } from "@/util/reportTemplates";
+
+// Status reports as a standalone HTML page or a Markdown summary, with the
+// sections of the report template and the same figures as the PDF report
+
+const escapeHTML = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Pipes would end a Markdown table cell
+const escapeMarkdownCell = (value: string): string => value.replace(/\|/g, "\\|");
+
+const formatPoints = (points: [number, number][]): string =>
+  points.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(" ");
+
+// Draw the chart layout as an SVG element, sized to its container
+export const renderChartSVG = (layout: ChartLayout): string => {
+  const { plot } = layout;
+  const left = plot.x;
+  const right = plot.x + plot.width;
+  const bottom = plot.y + plot.height;
+  const parts: string[] = [];
+
+  parts.push(...layout.rightTicks.map(tick =>
+    `<line x1="${left}" y1="${tick.position}" x2="${right}" y2="${tick.position}" stroke="${CHART_COLORS.grid}" stroke-dasharray="3 3" />`
+  ));
+  parts.push(
+    `<g stroke="${CHART_COLORS.axis}"><line x1="${left}" y1="${plot.y}" x2="${left}" y2="${bottom}" /><line x1="${right}" y1="${plot.y}" x2="${right}" y2="${bottom}" /><line x1="${left}" y1="${bottom}" x2="${right}" y2="${bottom}" /></g>`
+  );
+
+  parts.push(`<g font-size="11" fill="${CHART_COLORS.axis}">`);
+  parts.push(...layout.leftTicks.map(tick => `<text x="${left - 6}" y="${tick.position + 4}" text-anchor="end">${escapeHTML(tick.label)}</text>`));
+  parts.push(...layout.rightTicks.map(tick => `<text x="${right + 6}" y="${tick.position + 4}">${escapeHTML(tick.label)}</text>`));
+  // Category labels are rotated to end at their tick
+  parts.push(...layout.xLabels.map(tick =>
+    `<text x="${tick.position}" y="${bottom + 12}" text-anchor="end" transform="rotate(-45 ${tick.position} ${bottom + 12})">${escapeHTML(tick.label)}</text>`
+  ));
+  const axisLabelY = plot.y + plot.height / 2;
+  parts.push(`<text x="14" y="${axisLabelY}" text-anchor="middle" transform="rotate(-90 14 ${axisLabelY})">${escapeHTML(layout.leftAxisLabel)}</text>`);
+  parts.push(`<text x="${layout.width - 6}" y="${axisLabelY}" text-anchor="middle" transform="rotate(-90 ${layout.width - 6} ${axisLabelY})">${escapeHTML(layout.rightAxisLabel)}</text>`);
+  parts.push("</g>");
+
+  parts.push(...layout.bars.map(bar =>
+    `<rect x="${bar.x.toFixed(1)}" y="${bar.y.toFixed(1)}" width="${bar.width.toFixed(1)}" height="${bar.height.toFixed(1)}" fill="${bar.color}" fill-opacity="0.6" />`
+  ));
+
+  layout.lines.forEach(line => {
+    if (line.fillOpacity) {
+      const first = line.points[0];
+      const last = line.points[line.points.length - 1];
+      parts.push(`<polygon points="${first[0].toFixed(1)},${bottom} ${formatPoints(line.points)} ${last[0].toFixed(1)},${bottom}" fill="${line.color}" fill-opacity="${line.fillOpacity}" />`);
+    }
+    parts.push(
+      `<polyline points="${formatPoints(line.points)}" fill="none" stroke="${line.color}" stroke-width="${line.width}"${line.dash ? ` stroke-dasharray="${line.dash.join(" ")}"` : ""} />`
+    );
+  });
+
+  parts.push(`<line x1="${left}" y1="${layout.budgetLine.y}" x2="${right}" y2="${layout.budgetLine.y}" stroke="${CHART_COLORS.budget}" stroke-dasharray="5 5" />`);
+  parts.push(`<text x="${right - 4}" y="${layout.budgetLine.y - 6}" text-anchor="end" font-size="12" fill="${CHART_COLORS.budget}">${escapeHTML(layout.budgetLine.label)}</text>`);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${layout.width} ${layout.height}" width="100%" role="img" aria-label="Budget chart">${parts.join("")}</svg>`;
+};
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #111827; background: #fff; max-width: 1000px; margin: 0 auto; padding: 24px; }
+  header { display: flex; align-items: center; gap: 16px; margin-bottom: 24px; }
+  header img { max-height: 56px; max-width: 160px; }
+  h1 { font-size: 28px; margin: 0; }
+  h2 { font-size: 20px; margin: 32px 0 12px; }
+  .generated { color: #6b7280; font-size: 14px; margin: 4px 0 0; }
+  .badges { display: flex; gap: 12px; margin-bottom: 16px; }
+  .badge { flex: 1; border: 1px solid #111827; border-radius: 6px; padding: 8px; text-align: center; }
+  .badge span { display: block; font-size: 11px; text-transform: uppercase; }
+  .badge strong { font-size: 16px; }
+  .legend { display: flex; flex-wrap: wrap; gap: 16px; font-size: 13px; margin-top: 8px; }
+  .legend i { display: inline-block; width: 24px; height: 10px; margin-right: 6px; vertical-align: middle; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th { background: #f0f0f0; text-align: left; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+  td.value { text-align: right; }
+  tr.current { background: #c8dcff; }
+  tr.consumed { background: #fff0f0; }
+  tr.exceeded { background: #ffdcdc; }
+  .key-values { width: auto; min-width: 400px; }
+  footer { margin-top: 40px; color: #6b7280; font-size: 12px; }
+`;
+
+export const createHTMLReport = (
+  budgetParams: BudgetParams,
+  iterations: IterationData[],
+  chartData: ChartData[],
+  options: PDFReportOptions = {}
+): string => {
+  const template = options.template ?? DEFAULT_REPORT_TEMPLATE;
+  const hasSection = (section: ReportSection) => template.sections.includes(section);
+  const iterationBudgetData = calculateIterationBudgetData(budgetParams, iterations);
+  // Only label rows by date if every iteration has one
+  const showDates = !!options.showDates && iterationBudgetData.every(data => data.startDate && data.endDate);
+  const body: string[] = [];
+
+  const keyValueTable = (rows: string[][]) =>
+    `<table class="key-values"><tbody>${rows.map(([label, value]) => `<tr><td>${escapeHTML(label)}</td><td class="value">${escapeHTML(value)}</td></tr>`).join("")}</tbody></table>`;
+
+  body.push(`<header>${template.logo ? `<img src="${escapeHTML(template.logo)}" alt="" />` : ""}<div><h1>${escapeHTML(template.title)}</h1><p class="generated">Generated on: ${escapeHTML(new Date().toLocaleDateString())}</p></div></header>`);
+
+  if (hasSection("parameters")) {
+    body.push("<h2>Budget Parameters</h2>", keyValueTable(getParameterRows(budgetParams, iterations)));
+  }
+
+  if (hasSection("metrics") || (hasSection("chart") && chartData.length > 0)) {
+    body.push(`<h2>${hasSection("chart") ? "Budget Visualization Chart" : "Budget Summary"}</h2>`);
+  }
+  if (hasSection("metrics")) {
+    body.push(`<div class="badges">${getMetricBadges(budgetParams, iterations, chartData)
+      .map(badge => `<div class="badge"><span>${escapeHTML(badge.label)}</span><strong>${escapeHTML(badge.value)}</strong></div>`)
+      .join("")}</div>`);
+  }
+  if (hasSection("chart") && chartData.length > 0) {
+    const layout = layoutBudgetChart(budgetParams, chartData, {
+      width: 960,
+      height: 480,
+      visibleItems: options.visibleChartItems,
+      getLabel: data => getChartPointLabel(data, budgetParams, !!options.showDates),
+      margin: { top: 20, right: 80, bottom: 90, left: 80 }
+    });
+    body.push(renderChartSVG(layout));
+    body.push(`<div class="legend">${layout.legend.map(item => {
+      const swatch = item.kind === "bar"
+        ? `background: ${item.color}; opacity: 0.6`
+        : `border-top: 2px ${item.kind === "dashed" ? "dashed" : "solid"} ${item.color}; height: 0`;
+      return `<span><i style="${swatch}"></i>${escapeHTML(item.label)}</span>`;
+    }).join("")}</div>`);
+  }
+
+  if (hasSection("iterations") && iterations.length > 0) {
+    const columns = getIterationColumns(budgetParams, template.columns, showDates);
+    const budgetConsumedIndex = getBudgetConsumedIndex(iterationBudgetData);
+    const rows = iterationBudgetData.map((data, index) => {
+      // Same highlights as the PDF report
+      const rowClass = data.isCurrent ? "current" : index === budgetConsumedIndex ? "consumed" : data.budgetExceeded ? "exceeded" : "";
+      return `<tr${rowClass ? ` class="${rowClass}"` : ""}>${columns.map(column => `<td>${escapeHTML(column.value(data))}</td>`).join("")}</tr>`;
+    });
+    body.push(
+      "<h2>Iterations and Budget Consumption</h2>",
+      `<table><thead><tr>${columns.map(column => `<th>${escapeHTML(column.header)}</th>`).join("")}</tr></thead><tbody>${rows.join("")}</tbody></table>`,
+      '<p class="generated">Highlighted rows: <span style="background: #c8dcff">current iteration</span>, <span style="background: #fff0f0">iteration where budget is fully consumed</span></p>'
+    );
+  }
+
+  const varianceNotes = getVarianceNotes(budgetParams, iterationBudgetData, showDates);
+  if (hasSection("notes") && varianceNotes.length > 0) {
+    body.push("<h2>Variance Notes</h2>", `<ul>${varianceNotes.map(note => `<li>${escapeHTML(note)}</li>`).join("")}</ul>`);
+  }
+
+  const roleCosts = getRoleCostTable(budgetParams, iterationBudgetData, showDates);
+  if (hasSection("roleCosts") && iterations.length > 0 && roleCosts.rows.length > 0) {
+    body.push(
+      `<h2>Cost by Role (${escapeHTML(budgetParams.currency)})</h2>`,
+      `<table><thead><tr>${roleCosts.headers.map(header => `<th>${escapeHTML(header)}</th>`).join("")}</tr></thead><tbody>${roleCosts.rows
+        .map(row => `<tr>${row.map(cell => `<td>${escapeHTML(cell)}</td>`).join("")}</tr>`)
+        .join("")}</tbody></table>`
+    );
+  }
+
+  const evm = calculateEVMMetrics(budgetParams, iterations);
+  if (hasSection("earnedValue") && evm.hasProgress) {
+    body.push("<h2>Earned Value</h2>", keyValueTable(getEarnedValueRows(budgetParams, evm)));
+  }
+
+  if (template.footer) {
+    body.push(`<footer>${escapeHTML(template.footer)}</footer>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHTML(template.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${body.join("\n")}
+</body>
+</html>
+`;
+};
+
+const markdownTable = (headers: string[], rows: string[][]): string => [
+  `| ${headers.map(escapeMarkdownCell).join(" | ")} |`,
+  `| ${headers.map(() => "---").join(" | ")} |`,
+  ...rows.map(row => `| ${row.map(escapeMarkdownCell).join(" | ")} |`)
+].join("\n");
+
+// A Markdown summary for wikis and pull requests. Markdown has no charts, so
+// the chart section is left out; the logo is left out as it would only be
+// shown where data URLs are allowed.
+export const createMarkdownReport = (
+  budgetParams: BudgetParams,
+  iterations: IterationData[],
+  chartData: ChartData[],
+  options: PDFReportOptions = {}
+): string => {
+  const template = options.template ?? DEFAULT_REPORT_TEMPLATE;
+  const hasSection = (section: ReportSection) => template.sections.includes(section);
+  const iterationBudgetData = calculateIterationBudgetData(budgetParams, iterations);
+  // Only label rows by date if every iteration has one
+  const showDates = !!options.showDates && iterationBudgetData.every(data => data.startDate && data.endDate);
+  const blocks: string[] = [`# ${template.title}`, `_Generated on: ${new Date().toLocaleDateString()}_`];
+
+  if (hasSection("metrics")) {
+    blocks.push(getMetricBadges(budgetParams, iterations, chartData).map(badge => `**${badge.label}:** ${badge.value}`).join(" · "));
+  }
+
+  if (hasSection("parameters")) {
+    blocks.push("## Budget Parameters", markdownTable(["Parameter", "Value"], getParameterRows(budgetParams, iterations)));
+  }
+
+  if (hasSection("iterations") && iterations.length > 0) {
+    const columns = getIterationColumns(budgetParams, template.columns, showDates);
+    const currentIndex = iterationBudgetData.findIndex(data => data.isCurrent);
+    blocks.push(
+      "## Iterations and Budget Consumption",
+      markdownTable(
+        columns.map(column => column.header),
+        // The current iteration is marked in bold, as Markdown tables can't be highlighted
+        iterationBudgetData.map((data, index) => columns.map(column => index === currentIndex ? `**${column.value(data)}**` : column.value(data)))
+      )
+    );
+  }
+
+  const varianceNotes = getVarianceNotes(budgetParams, iterationBudgetData, showDates);
+  if (hasSection("notes") && varianceNotes.length > 0) {
+    blocks.push("## Variance Notes", varianceNotes.map(note => `- ${note}`).join("\n"));
+  }
+
+  const roleCosts = getRoleCostTable(budgetParams, iterationBudgetData, showDates);
+  if (hasSection("roleCosts") && iterations.length > 0 && roleCosts.rows.length > 0) {
+    blocks.push(`## Cost by Role (${budgetParams.currency})`, markdownTable(roleCosts.headers, roleCosts.rows));
+  }
+
+  const evm = calculateEVMMetrics(budgetParams, iterations);
+  if (hasSection("earnedValue") && evm.hasProgress) {
+    blocks.push("## Earned Value", markdownTable(["Metric", "Value"], getEarnedValueRows(budgetParams, evm)));
+  }
+
+  if (template.footer) {
+    blocks.push("---", template.footer);
+  }
+
+  return `${blocks.join("\n\n")}\n`;
+};
@@ -0,0 +1,158 @@
+import { ReportColumn, ReportOrientation, ReportSection, ReportTemplate } from "@/types/budget";
+
+const CUSTOM_TEMPLATES_STORAGE_KEY = "budget-app-report-templates";
+
+// Logos are kept with the templates in local storage, so they have to stay small
+export const MAX_LOGO_SIZE = 200 * 1024;
+
+export const REPORT_SECTIONS: { value: ReportSection, label: string }[] = [
+  { value: "parameters", label: "Budget parameters" },
+  { value: "metrics", label: "Budget metrics badges" },
+  { value: "chart", label: "Chart" },
+  { value: "iterations", label: "Iteration table" },
+  { value: "notes", label: "Variance notes" },
+  { value: "roleCosts", label: "Cost by role" },
+  { value: "earnedValue", label: "Earned value" }
+];
+
+export const REPORT_COLUMNS: { value: ReportColumn, label: string }[] = [
+  { value: "iteration", label: "Iteration or dates" },
+  { value: "days", label: "Days" },
+  { value: "teamSize", label: "Team size" },
+  { value: "hours", label: "Hours" },
+  { value: "variance", label: "Hours variance" },
+  { value: "cost", label: "Cost" },
+  { value: "cumulative", label: "Cumulative cost" },
+  { value: "remaining", label: "Remaining budget" },
+  { value: "consumed", label: "Consumed (%)" }
+];
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  id: "standard",
+  name: "Standard",
+  title: "Budget Visualization Report",
+  footer: "",
+  orientation: "portrait",
+  sections: ["metrics", "chart", "iterations", "notes", "roleCosts", "earnedValue"],
+  columns: ["iteration", "hours", "variance", "cost", "cumulative", "remaining", "consumed"],
+  builtIn: true
+};
+
+export const BUILT_IN_REPORT_TEMPLATES: ReportTemplate[] = [
+  DEFAULT_REPORT_TEMPLATE,
+  {
+    id: "summary",
+    name: "Executive summary",
+    title: "Budget Summary",
+    footer: "",
+    orientation: "landscape",
+    sections: ["parameters", "metrics", "chart", "notes"],
+    columns: DEFAULT_REPORT_TEMPLATE.columns,
+    builtIn: true
+  },
+  {
+    id: "detailed",
+    name: "Detailed",
+    title: "Budget Report",
+    footer: "",
+    orientation: "landscape",
+    sections: REPORT_SECTIONS.map(section => section.value),
+    columns: REPORT_COLUMNS.map(column => column.value),
+    builtIn: true
+  }
+];
+
+export const getCustomReportTemplates = (): ReportTemplate[] => {
+  if (typeof window === "undefined") return [];
+  const templatesJson = localStorage.getItem(CUSTOM_TEMPLATES_STORAGE_KEY);
+  return templatesJson ? JSON.parse(templatesJson) : [];
+};
+
+const setCustomReportTemplates = (templates: ReportTemplate[]) => {
+  localStorage.setItem(CUSTOM_TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+// Save a template under the given name, replacing a custom template of the same name
+export const saveReportTemplate = (name: string, settings: Omit<ReportTemplate, "id" | "name" | "builtIn">): ReportTemplate => {
+  const templates = getCustomReportTemplates();
+  const existing = templates.find(template => template.name === name);
+  const template: ReportTemplate = {
+    ...settings,
+    id: existing?.id ?? (typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : Date.now().toString()),
+    name
+  };
+
+  setCustomReportTemplates(existing
+    ? templates.map(t => (t.id === existing.id ? template : t))
+    : [...templates, template]);
+  return template;
+};
+
+export const deleteReportTemplate = (id: string) => {
+  setCustomReportTemplates(getCustomReportTemplates().filter(template => template.id !== id));
+};
+
+export interface ParsedReportTemplate {
+  template: ReportTemplate | null; // Null if the template is invalid
+  errors: string[];
+}
+
+// Read the template of a report request: the id of a built-in template, or
+// template settings with anything left out taken from the standard template
+export const parseReportTemplate = (value: unknown): ParsedReportTemplate => {
+  if (value === undefined || value === null) {
+    return { template: DEFAULT_REPORT_TEMPLATE, errors: [] };
+  }
+
+  if (typeof value === "string") {
+    const template = BUILT_IN_REPORT_TEMPLATES.find(t => t.id === value);
+    return template
+      ? { template, errors: [] }
+      : { template: null, errors: [`Unknown template "${value}", expected one of ${BUILT_IN_REPORT_TEMPLATES.map(t => t.id).join(", ")}`] };
+  }
+
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { template: null, errors: ["template must be a template id or an object"] };
+  }
+
+  const settings = value as Record<string, unknown>;
+  const errors: string[] = [];
+  const sectionValues = REPORT_SECTIONS.map(section => section.value);
+  const columnValues = REPORT_COLUMNS.map(column => column.value);
+
+  ["title", "footer"].forEach(key => {
+    if (settings[key] !== undefined && typeof settings[key] !== "string") errors.push(`template.${key} must be a string`);
+  });
+  if (settings.logo !== undefined && (typeof settings.logo !== "string" || !/^data:image\/(png|jpeg);base64,/.test(settings.logo))) {
+    errors.push("template.logo must be a PNG or JPEG data URL");
+  }
+  if (settings.orientation !== undefined && settings.orientation !== "portrait" && settings.orientation !== "landscape") {
+    errors.push("template.orientation must be portrait or landscape");
+  }
+  if (settings.sections !== undefined &&
+    (!Array.isArray(settings.sections) || settings.sections.some(section => !sectionValues.includes(section)))) {
+    errors.push(`template.sections must be a list of ${sectionValues.join(", ")}`);
+  }
+  if (settings.columns !== undefined &&
+    (!Array.isArray(settings.columns) || settings.columns.some(column => !columnValues.includes(column)))) {
+    errors.push(`template.columns must be a list of ${columnValues.join(", ")}`);
+  }
+
+  if (errors.length > 0) return { template: null, errors };
+
+  return {
+    template: {
+      ...DEFAULT_REPORT_TEMPLATE,
+      id: "custom",
+      name: "Custom",
+      builtIn: false,
+      ...(settings.title !== undefined && { title: settings.title as string }),
+      ...(settings.footer !== undefined && { footer: settings.footer as string }),
+      ...(settings.logo !== undefined && { logo: settings.logo as string }),
+      ...(settings.orientation !== undefined && { orientation: settings.orientation as ReportOrientation }),
+      ...(settings.sections !== undefined && { sections: settings.sections as ReportSection[] }),
+      ...(settings.columns !== undefined && { columns: settings.columns as ReportColumn[] })
+    },
+    errors
+  };
+};
@@ -0,0 +1,108 @@
+import { BudgetParams, IterationData, Scenario, ScenarioSummary } from "@/types/budget";
+import {
+  calculateChartData,
+  calculateBudgetMetrics,
+  getCumulativeCost,
+  getCurrentIterationIndex,
+  getPlannedHours,
+  sortIterations
+} from "@/util/budgetEngine";
+
+// Copy a plan into a new named scenario. The copy shares no objects with the
+// source so both can be edited independently.
+export const createScenario = (
+  name: string,
+  budgetParams: BudgetParams,
+  iterations: IterationData[],
+  id: string = Date.now().toString()
+): Scenario => {
+  return {
+    id,
+    name,
+    budgetParams: structuredClone(budgetParams),
+    iterations: structuredClone(iterations)
+  };
+};
+
+// Add people to every iteration from the given iteration number onwards.
+// Iterations up to the current one keep their recorded figures, and planned
+// hours grow in proportion to the team size. Negative counts remove people.
+export const addTeamMembers = (
+  iterations: IterationData[],
+  count: number,
+  fromIterationNumber: number
+): IterationData[] => {
+  const sortedIterations = sortIterations(iterations);
+  const currentIterationIndex = getCurrentIterationIndex(sortedIterations);
+
+  return sortedIterations.map((iteration, index) => {
+    if (index <= currentIterationIndex || iteration.iterationNumber < fromIterationNumber) {
+      return iteration;
+    }
+
+    const teamSize = Math.max(iteration.teamSize + count, 1);
+    const plannedHours = iteration.teamSize > 0
+      ? Math.round(getPlannedHours(iteration) * (teamSize / iteration.teamSize))
+      : getPlannedHours(iteration);
+
+    return { ...iteration, teamSize, plannedHours, totalHours: undefined };
+  });
+};
+
+// Scale the default cost per hour and every rate card rate by a percentage
+export const adjustRates = (budgetParams: BudgetParams, percentage: number): BudgetParams => {
+  const factor = 1 + percentage / 100;
+  const round = (value: number) => Math.round(value * factor * 100) / 100;
+
+  return {
+    ...budgetParams,
+    costPerHour: round(budgetParams.costPerHour),
+    rateCard: budgetParams.rateCard?.map(entry => ({ ...entry, hourlyRate: round(entry.hourlyRate) }))
+  };
+};
+
+// End cost and exhaustion point of each scenario, compared with the first
+// scenario (the baseline)
+export const calculateScenarioSummaries = (scenarios: Scenario[]): ScenarioSummary[] => {
+  const summaries = scenarios.map(scenario => {
+    const chartData = calculateChartData(scenario.budgetParams, scenario.iterations);
+    const metrics = calculateBudgetMetrics(scenario.budgetParams, scenario.iterations, chartData);
+
+    return {
+      scenarioId: scenario.id,
+      name: scenario.name,
+      endCost: chartData.length > 0 ? getCumulativeCost(chartData[chartData.length - 1]) : 0,
+      iterationCount: scenario.iterations.length,
+      exhaustionIterationNumber: metrics.exhaustionIterationNumber,
+      exhaustionDate: metrics.exhaustionDate
+    };
+  });
+
+  const baseline = summaries[0];
+
+  return summaries.map(summary => ({
+    ...summary,
+    endCostDelta: baseline ? summary.endCost - baseline.endCost : 0,
+    exhaustionIterationDelta:
+      baseline?.exhaustionIterationNumber !== undefined && summary.exhaustionIterationNumber !== undefined
+        ? summary.exhaustionIterationNumber - baseline.exhaustionIterationNumber
+        : undefined
+  }));
+};
+
+// Cumulative cost of every scenario per iteration, keyed by scenario id, for
+// overlaying the scenarios on one chart. Each scenario follows its actual
+// cost up to the current iteration and its forecast after it.
+export const calculateScenarioChartData = (scenarios: Scenario[]): Record<string, string | number>[] => {
+  const data = new Map<string, Record<string, string | number>>();
+
+  scenarios.forEach(scenario => {
+    calculateChartData(scenario.budgetParams, scenario.iterations).forEach(point => {
+      const row = data.get(point.name) ?? { name: point.name, order: point.iterationNumber ?? 0 };
+      row[scenario.id] = getCumulativeCost(point);
+      data.set(point.name, row);
+    });
+  });
+
+  return Array.from(data.values()).sort((a, b) => Number(a.order) - Number(b.order));
+};
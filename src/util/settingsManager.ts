@@ -0,0 +1,28 @@
+import { RetentionSettings } from "@/types/budget";
+
+// Get how long the user's saved states and trash are kept
+export const getRetentionSettings = async (): Promise<RetentionSettings> => {
+  const response = await fetch('/api/settings/get');
+
+  if (!response.ok) {
+    throw new Error('Failed to load settings');
+  }
+
+  return response.json();
+};
+
+export const saveRetentionSettings = async (settings: RetentionSettings): Promise<RetentionSettings> => {
+  const response = await fetch('/api/settings/save', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(settings),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to save settings');
+  }
+
+  return response.json();
+};
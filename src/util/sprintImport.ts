@@ -0,0 +1,165 @@
+import {
+  BudgetParams,
+  ColumnMapping,
+  ImportDateFormat,
+  ImportField,
+  ImportMode,
+  IterationData,
+  RejectedRow,
+  SprintImportResult,
+  SprintSummary
+} from "@/types/budget";
+import { getDefaultIterationHours, MAX_ITERATIONS, sortIterations } from "@/util/budgetEngine";
+import { countWorkingDays, parseISODate } from "@/util/calendar";
+import { getMappedValue, parseImportDate, readNumber } from "@/util/csvImport";
+
+export const SPRINT_IMPORT_FIELDS: ImportField[] = [
+  { key: "sprint", label: "Sprint", required: true, aliases: ["sprintname", "name", "iteration", "iterationname"] },
+  { key: "startDate", label: "Start", required: true, aliases: ["start", "startdate", "sprintstart", "sprintstartdate", "begin"] },
+  { key: "endDate", label: "End", required: true, aliases: ["end", "enddate", "sprintend", "sprintenddate", "finish", "completedate"] },
+  { key: "points", label: "Story Points Completed", required: false, aliases: ["completed", "completedpoints", "storypoints", "points", "storypointscompleted", "velocity", "done"] },
+  { key: "assignees", label: "Assignees", required: false, aliases: ["assignee", "assignedto", "owner", "owners", "members", "team"] }
+];
+
+// Assignees may be listed one per row or several in one cell, separated by
+// commas or semicolons
+const parseAssignees = (value: string): string[] =>
+  value.split(/[,;]/).map(name => name.trim()).filter(name => name !== "");
+
+// Group the rows of a sprint export by sprint and turn each sprint into an
+// iteration. A file may have one row per sprint or one row per issue; rows of
+// the same sprint are combined, adding up their points and assignees.
+// Sprints are numbered in order of their start date. Replacing creates an
+// iteration per sprint and marks the last one current; merging updates the
+// iteration with the same number and keeps the rest.
+export const importSprints = (
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  dateFormat: ImportDateFormat,
+  budgetParams: BudgetParams,
+  existingIterations: IterationData[],
+  mode: ImportMode
+): SprintImportResult => {
+  const pointsField = SPRINT_IMPORT_FIELDS.find(field => field.key === "points")!;
+  const sprintsByName = new Map<string, Omit<SprintSummary, "iterationNumber" | "iterationDays"> & { rowNumbers: number[] }>();
+  const rejected: RejectedRow[] = [];
+  const warnings: string[] = [];
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const reasons: string[] = [];
+    const name = getMappedValue(row, mapping, "sprint");
+    const rawStart = getMappedValue(row, mapping, "startDate");
+    const rawEnd = getMappedValue(row, mapping, "endDate");
+
+    if (!name) reasons.push("Sprint is missing");
+
+    const readDate = (raw: string, label: string) => {
+      if (!raw) {
+        reasons.push(`${label} is missing`);
+        return null;
+      }
+      const date = parseImportDate(raw, dateFormat);
+      if (!date) reasons.push(`${label} "${raw}" doesn't match the format ${dateFormat}`);
+      return date;
+    };
+    const startDate = readDate(rawStart, "Start");
+    const endDate = readDate(rawEnd, "End");
+    if (startDate && endDate && endDate < startDate) {
+      reasons.push(`End ${endDate} is before start ${startDate}`);
+    }
+
+    const points = readNumber(row, mapping, pointsField, reasons);
+
+    if (reasons.length > 0 || !startDate || !endDate) {
+      rejected.push({ rowNumber, reasons, values: row });
+      return;
+    }
+
+    const sprint = sprintsByName.get(name) ?? {
+      name,
+      startDate,
+      endDate,
+      assignees: [],
+      rowCount: 0,
+      rowNumbers: []
+    };
+    // Rows of the same sprint should agree on its dates, but take the widest
+    // range if they don't
+    if (startDate < sprint.startDate) sprint.startDate = startDate;
+    if (endDate > sprint.endDate) sprint.endDate = endDate;
+    if (points !== undefined) sprint.deliveredScope = (sprint.deliveredScope ?? 0) + points;
+    parseAssignees(getMappedValue(row, mapping, "assignees")).forEach(assignee => {
+      if (!sprint.assignees.includes(assignee)) sprint.assignees.push(assignee);
+    });
+    sprint.rowCount += 1;
+    sprint.rowNumbers.push(rowNumber);
+    sprintsByName.set(name, sprint);
+  });
+
+  let sortedSprints = Array.from(sprintsByName.values())
+    .sort((a, b) => a.startDate.localeCompare(b.startDate) || a.name.localeCompare(b.name));
+
+  // Sprints past the limit are rejected, latest first
+  sortedSprints.slice(MAX_ITERATIONS).forEach(sprint => {
+    sprint.rowNumbers.forEach(rowNumber => {
+      rejected.push({ rowNumber, reasons: [`More than ${MAX_ITERATIONS} sprints`], values: rows[rowNumber - 2] });
+    });
+  });
+  sortedSprints = sortedSprints.slice(0, MAX_ITERATIONS);
+
+  sortedSprints.forEach((sprint, index) => {
+    const previous = sortedSprints[index - 1];
+    if (previous && sprint.startDate <= previous.endDate) {
+      warnings.push(`${sprint.name} starts before ${previous.name} ends`);
+    }
+  });
+
+  const existingByNumber = new Map(
+    (mode === "merge" ? existingIterations : []).map(iteration => [iteration.iterationNumber, iteration])
+  );
+  const sprintsWithoutAssignees: string[] = [];
+
+  const sprints: SprintSummary[] = sortedSprints.map(({ rowNumbers, ...sprint }, index) => ({
+    ...sprint,
+    iterationNumber: index + 1,
+    iterationDays: countWorkingDays(parseISODate(sprint.startDate)!, parseISODate(sprint.endDate)!, budgetParams),
+    assignees: [...sprint.assignees].sort()
+  }));
+
+  const imported = sprints.map(sprint => {
+    const existing = existingByNumber.get(sprint.iterationNumber);
+    if (sprint.assignees.length === 0) sprintsWithoutAssignees.push(sprint.name);
+
+    const iteration: IterationData = {
+      ...existing,
+      iterationNumber: sprint.iterationNumber,
+      // A sprint that falls entirely on non-working days still counts as one day
+      iterationDays: Math.max(1, sprint.iterationDays),
+      teamSize: sprint.assignees.length || existing?.teamSize || budgetParams.teamSize,
+      ...(sprint.deliveredScope !== undefined && { deliveredScope: sprint.deliveredScope }),
+      ...(mode === "replace" && { isCurrent: sprint === sprints[sprints.length - 1] })
+    };
+
+    // Planned hours that followed the old days and team size follow the new ones
+    if (!existing || existing.plannedHours === undefined || existing.plannedHours === getDefaultIterationHours(existing)) {
+      iteration.plannedHours = getDefaultIterationHours(iteration);
+    }
+    return iteration;
+  });
+
+  if (sprintsWithoutAssignees.length > 0) {
+    warnings.push(`No assignees for ${sprintsWithoutAssignees.join(", ")}, the team size is kept from the current iteration or the budget parameters`);
+  }
+
+  const importedNumbers = new Set(imported.map(iteration => iteration.iterationNumber));
+  const keptIterations = Array.from(existingByNumber.values()).filter(iteration => !importedNumbers.has(iteration.iterationNumber));
+
+  return {
+    iterations: sortIterations([...keptIterations, ...imported]).slice(0, MAX_ITERATIONS),
+    sprints,
+    rejected: rejected.sort((a, b) => a.rowNumber - b.rowNumber),
+    projectStartDate: sprints[0]?.startDate,
+    warnings
+  };
+};
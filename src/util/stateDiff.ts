@@ -0,0 +1,158 @@
+import { AppState } from "@/util/stateManager";
+import {
+  BudgetParams,
+  ChartData,
+  IterationData,
+  IterationBudgetData,
+  IterationChange,
+  ParamChange,
+  StateDiff,
+  StateDiffChartData
+} from "@/types/budget";
+import {
+  calculateChartData,
+  calculateIterationBudgetData,
+  getPlannedHours,
+  normalizeIterationHours
+} from "@/util/budgetEngine";
+import { DEFAULT_WEEKEND_DAYS, WEEKDAY_LABELS } from "@/util/calendar";
+
+type ParamField = Exclude<keyof BudgetParams, "rateCard">;
+
+const PARAM_LABELS: Record<ParamField, string> = {
+  costPerHour: "Cost per Hour",
+  budgetSize: "Total Budget Size",
+  teamSize: "Default Team Size",
+  workingDaysPerIteration: "Working Days per Iteration",
+  currency: "Currency",
+  projectStartDate: "Project Start Date",
+  weekendDays: "Weekend Days",
+  holidayCountry: "Holiday Calendar",
+  totalScope: "Total Scope"
+};
+
+// Iteration fields compared for modified iterations, with how to read them
+const ITERATION_FIELDS: { label: string; value: (iteration: IterationData) => string }[] = [
+  { label: "Days", value: iteration => String(iteration.iterationDays) },
+  { label: "Team Size", value: iteration => String(iteration.teamSize) },
+  { label: "Planned Hours", value: iteration => String(getPlannedHours(iteration)) },
+  { label: "Actual Hours", value: iteration => String(iteration.actualHours ?? "") },
+  { label: "Current", value: iteration => String(!!iteration.isCurrent) },
+  { label: "Roles", value: iteration => JSON.stringify(iteration.roleHeadcount ?? {}) },
+  { label: "% Complete", value: iteration => String(iteration.percentComplete ?? "") },
+  { label: "Delivered Scope", value: iteration => String(iteration.deliveredScope ?? "") }
+];
+
+const formatParamValue = (field: ParamField, params: BudgetParams): string => {
+  if (field === "weekendDays") {
+    return (params.weekendDays ?? DEFAULT_WEEKEND_DAYS).map(day => WEEKDAY_LABELS[day]).join(", ") || "None";
+  }
+  const value = params[field];
+  if (value === undefined || value === "") return "–";
+  return typeof value === "number" ? value.toLocaleString() : String(value);
+};
+
+const formatRateCard = (params: BudgetParams): Map<string, string> => {
+  return new Map((params.rateCard ?? []).map(entry => [
+    entry.id,
+    `${entry.role}: ${entry.hourlyRate.toLocaleString()}${entry.currency ? ` ${entry.currency}` : ""}`
+  ]));
+};
+
+// Changed budget parameters, with rate card roles compared one by one
+export const diffBudgetParams = (before: BudgetParams, after: BudgetParams): ParamChange[] => {
+  const changes: ParamChange[] = (Object.keys(PARAM_LABELS) as ParamField[])
+    .map(field => ({
+      field,
+      label: PARAM_LABELS[field],
+      before: formatParamValue(field, before),
+      after: formatParamValue(field, after)
+    }))
+    .filter(change => change.before !== change.after);
+
+  const rolesBefore = formatRateCard(before);
+  const rolesAfter = formatRateCard(after);
+  new Set([...Array.from(rolesBefore.keys()), ...Array.from(rolesAfter.keys())]).forEach(roleId => {
+    const roleBefore = rolesBefore.get(roleId) ?? "–";
+    const roleAfter = rolesAfter.get(roleId) ?? "–";
+    if (roleBefore !== roleAfter) {
+      changes.push({ field: `rateCard.${roleId}`, label: "Rate Card Role", before: roleBefore, after: roleAfter });
+    }
+  });
+
+  return changes;
+};
+
+// Added, removed and modified iterations, matched by iteration number. Hours
+// and costs follow the budget table: actual up to the current iteration and
+// planned after it, so a rate change shows up as a cost delta too.
+export const diffIterations = (before: AppState, after: AppState): IterationChange[] => {
+  const budgetBefore = calculateIterationBudgetData(before.budgetParams, before.iterations.map(normalizeIterationHours));
+  const budgetAfter = calculateIterationBudgetData(after.budgetParams, after.iterations.map(normalizeIterationHours));
+  const byNumber = (data: IterationBudgetData[]) => new Map(data.map(it => [it.iterationNumber, it]));
+  const iterationsBefore = byNumber(budgetBefore);
+  const iterationsAfter = byNumber(budgetAfter);
+
+  const iterationNumbers = Array.from(new Set([...Array.from(iterationsBefore.keys()), ...Array.from(iterationsAfter.keys())]))
+    .sort((a, b) => a - b);
+
+  return iterationNumbers.flatMap<IterationChange>(iterationNumber => {
+    const iterationBefore = iterationsBefore.get(iterationNumber);
+    const iterationAfter = iterationsAfter.get(iterationNumber);
+
+    const hoursBefore = iterationBefore?.totalHours;
+    const hoursAfter = iterationAfter?.totalHours;
+    const costBefore = iterationBefore?.iterationCost;
+    const costAfter = iterationAfter?.iterationCost;
+
+    const changedFields = iterationBefore && iterationAfter
+      ? ITERATION_FIELDS.filter(field => field.value(iterationBefore) !== field.value(iterationAfter)).map(field => field.label)
+      : [];
+    const costDelta = (costAfter ?? 0) - (costBefore ?? 0);
+
+    if (iterationBefore && iterationAfter && changedFields.length === 0 && costDelta === 0) {
+      return [];
+    }
+
+    return [{
+      iterationNumber,
+      status: !iterationBefore ? "added" : !iterationAfter ? "removed" : "modified",
+      changedFields,
+      hoursBefore,
+      hoursAfter,
+      hoursDelta: (hoursAfter ?? 0) - (hoursBefore ?? 0),
+      costBefore,
+      costAfter,
+      costDelta
+    }];
+  });
+};
+
+// Cumulative actual cost of both states per iteration
+export const diffChartData = (before: AppState, after: AppState): StateDiffChartData[] => {
+  const chartBefore = calculateChartData(before.budgetParams, before.iterations.map(normalizeIterationHours));
+  const chartAfter = calculateChartData(after.budgetParams, after.iterations.map(normalizeIterationHours));
+  const points = new Map<string, StateDiffChartData & { order: number }>();
+
+  const addPoints = (chartData: ChartData[], key: "before" | "after") => {
+    chartData.forEach(data => {
+      const point = points.get(data.name) ?? { name: data.name, before: null, after: null, order: data.iterationNumber ?? 0 };
+      point[key] = data.cumulativeActual;
+      points.set(data.name, point);
+    });
+  };
+  addPoints(chartBefore, "before");
+  addPoints(chartAfter, "after");
+
+  return Array.from(points.values())
+    .sort((a, b) => a.order - b.order)
+    .map(({ order, ...point }) => point);
+};
+
+export const diffStates = (before: AppState, after: AppState): StateDiff => {
+  return {
+    paramChanges: diffBudgetParams(before.budgetParams, after.budgetParams),
+    iterationChanges: diffIterations(before, after),
+    chartData: diffChartData(before, after)
+  };
+};
@@ -1,13 +1,38 @@
-import { BudgetParams, IterationData, ChartData } from "@/types/budget";
+import { BudgetParams, IterationData, ChartData, Scenario } from "@/types/budget";
+import {
+  SyncOperation,
+  enqueueOperation,
+  getPendingOperations,
+  isSyncQueueAvailable,
+  notifySyncConflict,
+  removeOperation
+} from "@/util/syncQueue";
 
-export interface SavedState {
+export interface StateRevision {
   id: string;
+  date: string; // When this version was saved
+  state?: AppState; // Kept for local revisions, database revisions are fetched when restored
+}
+
+// Where a saved state is kept: only in this browser, only in the database
+// (e.g. saved on another device), in both, or in this browser with changes
+// waiting to be uploaded
+export type StorageLocation = 'local' | 'database' | 'synced' | 'pending';
+
+export interface SavedState {
+  id: string; // Stable id shared by the local and database copies
   name: string;
   date: string;
+  storage?: StorageLocation; // Set when listing states, not stored
+  updatedAt?: string; // Database version this copy was last synced with
+  pinned?: boolean; // Kept regardless of the retention settings
+  revisions?: StateRevision[]; // Earlier versions, newest first (local storage only)
   budgetParams: BudgetParams;
   iterations: IterationData[];
   chartData: ChartData[];
   visibleChartItems?: string[];
+  scenarios?: Scenario[]; // What-if copies of the plan, including the one being edited
+  activeScenarioId?: string | null; // Scenario shown in the editor, null without scenarios
 }
 
 export interface AppState {
@@ -15,111 +40,476 @@ export interface AppState {
   iterations: IterationData[];
   chartData: ChartData[];
   visibleChartItems?: string[];
+  scenarios?: Scenario[]; // What-if copies of the plan, including the one being edited
+  activeScenarioId?: string | null; // Scenario shown in the editor, null without scenarios
+}
+
+// A deleted state, restorable until it is removed from the trash
+export interface TrashedState {
+  id: string;
+  name: string;
+  date: string;
+  deletedAt: string;
+  expiresAt?: string; // When it will be deleted permanently
+  storage: StorageLocation;
 }
 
 const STORAGE_KEY = 'budget-app-saved-states';
+const TRASH_STORAGE_KEY = 'budget-app-trash';
 
-// Get all saved states from local storage and database
-export const getSavedStates = async (userId?: string): Promise<SavedState[]> => {
-  if (typeof window === 'undefined') return [];
+// Days deleted states stay in the local trash
+const LOCAL_TRASH_RETENTION_DAYS = 30;
+
+// Earlier versions kept per state in local storage, to stay within its quota
+const MAX_LOCAL_REVISIONS = 20;
+
+// The application state stored in a save, without its name and history
+const toAppState = (state: AppState): AppState => ({
+  budgetParams: state.budgetParams,
+  iterations: state.iterations,
+  chartData: state.chartData,
+  visibleChartItems: state.visibleChartItems,
+  scenarios: state.scenarios,
+  activeScenarioId: state.activeScenarioId
+});
+
+// Revisions leave out the chart data, which is recalculated on load
+const toRevision = (state: SavedState): StateRevision => ({
+  id: `${Date.now()}-${state.revisions?.length ?? 0}`,
+  date: state.date,
+  state: { ...toAppState(state), chartData: [] }
+});
+
+// Local copies saved before ids were shared with the database are matched to
+// their database copy by name and a save time within this window
+const LEGACY_MATCH_WINDOW_MS = 60 * 1000;
+
+// Stable id for a new saved state, used by both stores
+const createStateId = (): string => {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : Date.now().toString();
+};
+
+const getLocalStates = (): SavedState[] => {
+  const savedStatesJson = localStorage.getItem(STORAGE_KEY);
+  return savedStatesJson ? JSON.parse(savedStatesJson) : [];
+};
+
+const setLocalStates = (states: SavedState[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(states.map(({ storage, ...state }) => state)));
+};
+
+type LocalTrashEntry = SavedState & { deletedAt: string };
+
+const getLocalTrashExpiry = (deletedAt: string) => {
+  const expiresAt = new Date(deletedAt);
+  expiresAt.setDate(expiresAt.getDate() + LOCAL_TRASH_RETENTION_DAYS);
+  return expiresAt;
+};
+
+// Deleted local copies, leaving out those past the local trash retention
+const getLocalTrash = (): LocalTrashEntry[] => {
+  const trashJson = localStorage.getItem(TRASH_STORAGE_KEY);
+  const trash: LocalTrashEntry[] = trashJson ? JSON.parse(trashJson) : [];
+  return trash.filter(entry => getLocalTrashExpiry(entry.deletedAt).getTime() > Date.now());
+};
+
+const setLocalTrash = (trash: LocalTrashEntry[]) => {
+  localStorage.setItem(TRASH_STORAGE_KEY, JSON.stringify(trash));
+};
+
+// Convert a database row to the saved state format
+const fromDatabaseState = (state: any): SavedState => ({
+  id: state.id,
+  name: state.name,
+  date: state.date,
+  updatedAt: state.updatedAt,
+  pinned: state.pinned,
+  ...state.data
+});
+
+// Get the user's states from the database, or null if they can't be fetched
+const fetchDatabaseStates = async (): Promise<SavedState[] | null> => {
+  try {
+    const response = await fetch('/api/states/get');
+    
+    if (!response.ok) {
+      console.error('Failed to fetch states from database:', await response.text());
+      return null;
+    }
+    
+    const dbStates = await response.json();
+    return dbStates.map(fromDatabaseState);
+  } catch (dbError) {
+    console.error('Error fetching states from database:', dbError);
+    return null;
+  }
+};
+
+// Outcome of a database write. Writes that failed because the network or the
+// server is unavailable are retried; refused ones are not.
+type DatabaseWriteResult =
+  | { status: 'done', updatedAt?: string }
+  | { status: 'conflict', current: SavedState }
+  | { status: 'retry' }
+  | { status: 'rejected' }
+  | { status: 'idInUse' };
+
+const toWriteResult = async (response: Response, action: string): Promise<DatabaseWriteResult> => {
+  const result = await response.json().catch(() => null);
+  
+  if (response.ok) {
+    return { status: 'done', updatedAt: result?.updatedAt };
+  }
+  if (response.status === 409 && result?.current) {
+    return { status: 'conflict', current: fromDatabaseState(result.current) };
+  }
+  
+  console.error(`Failed to ${action} state in database:`, result?.error ?? response.statusText);
+  // An expired session is retried after logging in again
+  return { status: response.status >= 500 || response.status === 401 ? 'retry' : 'rejected' };
+};
+
+const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
+// Write a state to the database under its stable id. With a base version the
+// write is refused when the stored state has changed since.
+const uploadState = async (state: SavedState, baseUpdatedAt?: string): Promise<DatabaseWriteResult> => {
+  if (isOffline()) return { status: 'retry' };
   
   try {
-    // Get states from local storage
-    const savedStatesJson = localStorage.getItem(STORAGE_KEY);
-    let localStates: SavedState[] = [];
+    const response = await fetch('/api/states/save', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        id: state.id,
+        name: state.name,
+        date: state.date,
+        data: toAppState(state),
+        baseUpdatedAt
+      }),
+    });
     
-    if (savedStatesJson) {
-      localStates = JSON.parse(savedStatesJson);
+    // A 404 means the id is used by another account's state, e.g. one
+    // restored from a backup made in that account
+    if (response.status === 404) {
+      return { status: 'idInUse' };
     }
+    return toWriteResult(response, 'save');
+  } catch (dbError) {
+    console.error('Error saving state to database:', dbError);
+    return { status: 'retry' };
+  }
+};
+
+const deleteFromDatabase = async (id: string, baseUpdatedAt?: string): Promise<DatabaseWriteResult> => {
+  if (isOffline()) return { status: 'retry' };
+  
+  try {
+    const query = new URLSearchParams({ id, ...(baseUpdatedAt ? { baseUpdatedAt } : {}) });
+    const response = await fetch(`/api/states/delete?${query}`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
     
-    // If userId is provided, also fetch states from the database
-    if (userId) {
-      try {
-        const response = await fetch(`/api/states/get?userId=${userId}`);
-        
-        if (response.ok) {
-          const dbStates = await response.json();
-          
-          // Convert database states to the expected format
-          const formattedDbStates = dbStates.map((state: any) => ({
-            id: state.id,
-            name: state.name,
-            date: state.date,
-            ...state.data
-          }));
-          
-          // Combine local and database states
-          return [...localStates, ...formattedDbStates];
-        }
-      } catch (dbError) {
-        console.error('Error fetching states from database:', dbError);
+    // A 404 means the state only existed in local storage
+    if (response.status === 404) {
+      return { status: 'done' };
+    }
+    return toWriteResult(response, 'delete');
+  } catch (dbError) {
+    console.error('Error deleting state from database:', dbError);
+    return { status: 'retry' };
+  }
+};
+
+// Record the database version a local copy is now in line with, e.g. after
+// a change made through another endpoint
+export const setLocalUpdatedAt = (id: string, updatedAt?: string) => {
+  setLocalStates(getLocalStates().map(state => (state.id === id ? { ...state, updatedAt } : state)));
+};
+
+const queueOperation = async (operation: Omit<SyncOperation, 'queuedAt'>): Promise<boolean> => {
+  if (!isSyncQueueAvailable()) return false;
+  
+  try {
+    await enqueueOperation({ ...operation, queuedAt: new Date().toISOString() });
+    return true;
+  } catch (error) {
+    console.error('Error queueing sync operation:', error);
+    return false;
+  }
+};
+
+// Drop the pending operation of a state, returning whether there was one
+const clearOperation = async (stateId: string): Promise<boolean> => {
+  if (!isSyncQueueAvailable()) return false;
+  
+  try {
+    if ((await getPendingOperations()).some(operation => operation.stateId === stateId)) {
+      await removeOperation(stateId);
+      return true;
+    }
+  } catch (error) {
+    console.error('Error clearing sync operation:', error);
+  }
+  return false;
+};
+
+// Upload a saved state, queueing it when the database can't be reached.
+// Returns the state holding the changes, marked with where it is stored.
+const pushState = async (state: SavedState, userId: string): Promise<SavedState> => {
+  const result = await uploadState(state, state.updatedAt);
+  
+  switch (result.status) {
+    case 'done':
+      setLocalUpdatedAt(state.id, result.updatedAt);
+      await clearOperation(state.id);
+      return { ...state, updatedAt: result.updatedAt, storage: 'synced' };
+    case 'conflict':
+      await clearOperation(state.id);
+      return keepConflictedCopy(state, result.current, userId);
+    case 'retry': {
+      const isQueued = await queueOperation({
+        stateId: state.id,
+        userId,
+        type: state.updatedAt ? 'update' : 'create',
+        state,
+        baseUpdatedAt: state.updatedAt
+      });
+      return { ...state, storage: isQueued ? 'pending' : 'local' };
+    }
+    case 'idInUse':
+      await clearOperation(state.id);
+      return keepUnderNewId(state, userId);
+    default:
+      return { ...state, storage: 'local' };
+  }
+};
+
+// The state was changed on another device since this copy was synced. The
+// stored version keeps the state's id and this version is kept as a copy, so
+// neither set of changes is lost.
+const keepConflictedCopy = async (state: SavedState, current: SavedState, userId: string): Promise<SavedState> => {
+  const copy: SavedState = {
+    ...state,
+    id: createStateId(),
+    name: `${state.name} (conflicted copy)`,
+    updatedAt: undefined,
+    revisions: []
+  };
+  
+  setLocalStates([
+    ...getLocalStates().map(localState => (
+      localState.id === state.id ? { ...localState, ...toAppState(current), name: current.name, date: current.date, updatedAt: current.updatedAt } : localState
+    )),
+    copy
+  ]);
+  notifySyncConflict({ stateId: state.id, name: current.name, type: 'update', copyName: copy.name });
+  
+  return pushState(copy, userId);
+};
+
+// The state's id is used by another account's state, so it is saved under a
+// new id instead
+const keepUnderNewId = async (state: SavedState, userId: string): Promise<SavedState> => {
+  const renamed: SavedState = { ...state, id: createStateId(), updatedAt: undefined };
+  setLocalStates(getLocalStates().map(localState => (localState.id === state.id ? renamed : localState)));
+  return pushState(renamed, userId);
+};
+
+// Replay the database writes that were queued while offline, in order. Stops
+// at the first one that still can't be sent and returns how many are left.
+export const replayPendingOperations = async (userId: string): Promise<{ replayed: number, remaining: number }> => {
+  const operations = await getPendingOperations(userId);
+  let replayed = 0;
+  
+  for (const operation of operations) {
+    if (operation.type === 'delete') {
+      const result = await deleteFromDatabase(operation.stateId, operation.baseUpdatedAt);
+      if (result.status === 'retry') break;
+      
+      // The state was changed elsewhere after it was deleted here, so it is kept
+      if (result.status === 'conflict') {
+        notifySyncConflict({ stateId: operation.stateId, name: result.current.name, type: 'delete' });
       }
+    } else if (operation.state) {
+      const result = await uploadState(operation.state, operation.baseUpdatedAt);
+      if (result.status === 'retry') break;
+      
+      if (result.status === 'done') {
+        setLocalUpdatedAt(operation.stateId, result.updatedAt);
+      } else if (result.status === 'conflict') {
+        await keepConflictedCopy(operation.state, result.current, userId);
+      } else if (result.status === 'idInUse') {
+        await keepUnderNewId(operation.state, userId);
+      }
+    }
+    
+    await removeOperation(operation.stateId);
+    replayed++;
+  }
+  
+  return { replayed, remaining: operations.length - replayed };
+};
+
+// Reconcile both stores by id. A state in both keeps the newer version and
+// the local revision history; each entry is marked with where it is stored.
+// States with queued changes are pending, and queued deletes are left out.
+const mergeSavedStates = (
+  localStates: SavedState[],
+  dbStates: SavedState[],
+  pendingOperations: SyncOperation[] = []
+): SavedState[] => {
+  const merged = new Map<string, SavedState>();
+  
+  localStates.forEach(state => merged.set(state.id, { ...state, storage: 'local' }));
+  dbStates.forEach(dbState => {
+    const localState = merged.get(dbState.id);
+    if (!localState) {
+      merged.set(dbState.id, { ...dbState, storage: 'database' });
+      return;
     }
     
-    return localStates;
+    const newer = new Date(dbState.date).getTime() > new Date(localState.date).getTime() ? dbState : localState;
+    merged.set(dbState.id, { ...newer, pinned: dbState.pinned, revisions: localState.revisions, storage: 'synced' });
+  });
+  
+  pendingOperations.forEach(operation => {
+    const state = merged.get(operation.stateId);
+    if (operation.type === 'delete') {
+      merged.delete(operation.stateId);
+    } else if (state) {
+      merged.set(operation.stateId, { ...state, storage: 'pending' });
+    }
+  });
+  
+  return Array.from(merged.values()).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+};
+
+const getPendingOperationsSafely = async (userId: string): Promise<SyncOperation[]> => {
+  try {
+    return await getPendingOperations(userId);
+  } catch (error) {
+    console.error('Error reading sync queue:', error);
+    return [];
+  }
+};
+
+// Get all saved states from local storage and, when logged in, the database
+export const getSavedStates = async (userId?: string): Promise<SavedState[]> => {
+  if (typeof window === 'undefined') return [];
+  
+  try {
+    const localStates = getLocalStates();
+    const dbStates = userId ? await fetchDatabaseStates() : null;
+    const pendingOperations = userId ? await getPendingOperationsSafely(userId) : [];
+    
+    return mergeSavedStates(localStates, dbStates ?? [], pendingOperations);
   } catch (error) {
     console.error('Error loading saved states:', error);
     return [];
   }
 };
 
-// Save current state to local storage and database
+// Get every saved state for a workspace backup. Unlike getSavedStates this
+// fails when the database states can't be fetched, so a backup never
+// silently leaves them out.
+export const getAllSavedStates = async (userId?: string): Promise<SavedState[]> => {
+  const localStates = getLocalStates();
+  if (!userId) return mergeSavedStates(localStates, []);
+  
+  const dbStates = await fetchDatabaseStates();
+  if (!dbStates) {
+    throw new Error('Saved states could not be loaded from the database, so the backup was not created. Please try again.');
+  }
+  
+  return mergeSavedStates(localStates, dbStates, await getPendingOperationsSafely(userId));
+};
+
+// Reconcile local storage with the database after login: adopt database ids
+// for legacy local copies, then upload states that only exist locally.
+// Returns the merged list and the number of states uploaded.
+export const syncSavedStates = async (userId: string): Promise<{ states: SavedState[], uploaded: number }> => {
+  if (typeof window === 'undefined') return { states: [], uploaded: 0 };
+  
+  const dbStates = await fetchDatabaseStates();
+  if (!dbStates) {
+    return { states: await getSavedStates(userId), uploaded: 0 };
+  }
+  
+  const dbIds = new Set(dbStates.map(state => state.id));
+  const claimedIds = new Set<string>();
+  const localStates = getLocalStates().map(state => {
+    if (dbIds.has(state.id)) return state;
+    
+    const legacyCopy = dbStates.find(dbState =>
+      !claimedIds.has(dbState.id) &&
+      dbState.name === state.name &&
+      Math.abs(new Date(dbState.date).getTime() - new Date(state.date).getTime()) <= LEGACY_MATCH_WINDOW_MS
+    );
+    if (!legacyCopy) return state;
+    
+    claimedIds.add(legacyCopy.id);
+    return { ...state, id: legacyCopy.id, updatedAt: legacyCopy.updatedAt };
+  });
+  
+  // Two legacy local copies may have matched the same database state
+  const uniqueLocalStates = localStates.filter((state, index) =>
+    localStates.findIndex(other => other.id === state.id) === index
+  );
+  setLocalStates(uniqueLocalStates);
+  
+  // States with queued changes are uploaded when the queue is replayed
+  const pendingIds = new Set((await getPendingOperationsSafely(userId)).map(operation => operation.stateId));
+  let uploaded = 0;
+  for (const state of uniqueLocalStates.filter(state => !dbIds.has(state.id) && !pendingIds.has(state.id))) {
+    if ((await pushState(state, userId)).storage === 'synced') {
+      uploaded++;
+    }
+  }
+  
+  return { states: await getSavedStates(userId), uploaded };
+};
+
+// Save current state to local storage and database. Saving over an existing
+// name keeps the previous version as a revision of that state. When the
+// database can't be reached the upload is queued and replayed later.
 export const saveState = async (name: string, state: AppState, userId?: string): Promise<SavedState> => {
-  const savedStates = await getSavedStates();
+  const savedStates = await getSavedStates(userId);
+  const existingState = savedStates.find(savedState => savedState.name === name);
+  const localStates = getLocalStates();
+  const localCopy = existingState && localStates.find(localState => localState.id === existingState.id);
   
   const newState: SavedState = {
-    id: Date.now().toString(),
+    id: existingState?.id ?? createStateId(),
     name,
     date: new Date().toISOString(),
-    budgetParams: state.budgetParams,
-    iterations: state.iterations,
-    chartData: state.chartData,
-    visibleChartItems: state.visibleChartItems
+    updatedAt: localCopy ? localCopy.updatedAt : existingState?.updatedAt,
+    ...toAppState(state),
+    revisions: localCopy
+      ? [toRevision(localCopy), ...(localCopy.revisions ?? [])].slice(0, MAX_LOCAL_REVISIONS)
+      : []
   };
   
   // Save to local storage
   try {
-    const updatedStates = [...savedStates, newState];
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedStates));
-    
-    // If userId is provided, also save to database
-    if (userId) {
-      try {
-        const response = await fetch('/api/states/save', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            userId,
-            name,
-            data: {
-              budgetParams: state.budgetParams,
-              iterations: state.iterations,
-              chartData: state.chartData,
-              visibleChartItems: state.visibleChartItems
-            }
-          }),
-        });
-        
-        if (response.ok) {
-          const result = await response.json();
-          if (result.id) {
-            newState.id = result.id; // Update with the database ID
-          }
-        } else {
-          console.error('Failed to save state to database:', await response.text());
-        }
-      } catch (dbError) {
-        console.error('Error saving state to database:', dbError);
-      }
-    }
-    
-    return newState;
+    setLocalStates(localCopy
+      ? localStates.map(localState => (localState.id === newState.id ? newState : localState))
+      : [...localStates, newState]);
   } catch (error) {
     console.error('Error saving state:', error);
     throw new Error('Failed to save state');
   }
+  
+  // If the user is logged in, also save to the database under the same id
+  if (!userId) {
+    return { ...newState, storage: 'local' };
+  }
+  return pushState(newState, userId);
 };
 
 // Load a saved state by ID
@@ -129,46 +519,105 @@ export const loadState = async (id: string, userId?: string): Promise<AppState |
   
   if (!state) return null;
   
-  return {
-    budgetParams: state.budgetParams,
-    iterations: state.iterations,
-    chartData: state.chartData,
-    visibleChartItems: state.visibleChartItems
+  return toAppState(state);
+};
+
+// Get the earlier versions of a saved state, newest first. States in the
+// database use its revisions; local-only states keep their own.
+export const getStateRevisions = async (id: string, userId?: string): Promise<StateRevision[]> => {
+  if (userId) {
+    const response = await fetch(`/api/states/revisions?id=${encodeURIComponent(id)}`);
+    if (response.ok) {
+      return response.json();
+    }
+    if (response.status !== 404) {
+      throw new Error('Failed to load revisions');
+    }
+  }
+  
+  return getLocalStates().find(state => state.id === id)?.revisions ?? [];
+};
+
+// Make a revision the current version of a saved state and return it. The
+// version it replaces becomes a revision, so the restore can be undone.
+export const restoreRevision = async (id: string, revisionId: string, userId?: string): Promise<AppState | null> => {
+  const localStates = getLocalStates();
+  const localState = localStates.find(state => state.id === id);
+  
+  if (userId) {
+    const response = await fetch('/api/states/restore', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ id, revisionId }),
+    });
+    
+    if (response.ok) {
+      const result = await response.json();
+      
+      // Keep the local copy in line with the database
+      if (localState) {
+        setLocalStates(localStates.map(state => (
+          state.id === id
+            ? { ...state, ...toAppState(result.data), date: result.date, updatedAt: result.updatedAt, revisions: [toRevision(state), ...(state.revisions ?? [])].slice(0, MAX_LOCAL_REVISIONS) }
+            : state
+        )));
+      }
+      return toAppState(result.data);
+    }
+    
+    if (response.status !== 404) {
+      console.error('Failed to restore revision:', await response.text());
+      return null;
+    }
+  }
+  
+  const revision = localState?.revisions?.find(r => r.id === revisionId);
+  if (!localState || !revision?.state) return null;
+  
+  const restoredState: SavedState = {
+    ...localState,
+    ...toAppState(revision.state),
+    date: new Date().toISOString(),
+    revisions: [toRevision(localState), ...(localState.revisions ?? [])].slice(0, MAX_LOCAL_REVISIONS)
   };
+  setLocalStates(localStates.map(state => (state.id === id ? restoredState : state)));
+  
+  return toAppState(restoredState);
 };
 
-// Delete a saved state by ID
+// Move a saved state to the trash. When the database can't be reached the
+// delete is queued and replayed later.
 export const deleteState = async (id: string, userId?: string): Promise<boolean> => {
   try {
-    // Get current saved states
-    const savedStates = await getSavedStates();
-    const filteredStates = savedStates.filter(state => state.id !== id);
-    
-    // Update local storage
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filteredStates));
+    // Move the local copy to the local trash; the database copy shares the same id
+    const localStates = getLocalStates();
+    const localCopy = localStates.find(state => state.id === id);
+    setLocalStates(localStates.filter(state => state.id !== id));
+    if (localCopy) {
+      const { storage, ...trashedCopy } = localCopy;
+      setLocalTrash([{ ...trashedCopy, deletedAt: new Date().toISOString() }, ...getLocalTrash().filter(entry => entry.id !== id)]);
+    }
     
-    // If userId is provided, also delete from database
+    // If the user is logged in, also delete from database
     if (userId) {
       console.log(`Attempting to delete state ${id} for user ${userId} from database`);
-      try {
-        const response = await fetch(`/api/states/delete?id=${id}&userId=${userId}`, {
-          method: 'DELETE',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        });
-        
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error('Failed to delete state from database:', errorText);
+      const result = await deleteFromDatabase(id, localCopy?.updatedAt);
+      
+      switch (result.status) {
+        case 'done':
+          await clearOperation(id);
+          break;
+        case 'conflict':
+          // Changed on another device since it was synced here, so it is kept
+          notifySyncConflict({ stateId: id, name: result.current.name, type: 'delete' });
+          await clearOperation(id);
+          break;
+        case 'retry':
+          return queueOperation({ stateId: id, userId, type: 'delete', baseUpdatedAt: localCopy?.updatedAt });
+        default:
           return false;
-        }
-        
-        const result = await response.json();
-        console.log('Delete state API response:', result);
-      } catch (dbError) {
-        console.error('Error deleting state from database:', dbError);
-        return false;
       }
     }
     
@@ -179,25 +628,166 @@ export const deleteState = async (id: string, userId?: string): Promise<boolean>
   }
 };
 
-// Clean up old saved states from the database (states older than 30 days)
-export const cleanupDatabase = async (): Promise<{ success: boolean, count: number }> => {
-  try {
-    const response = await fetch('/api/states/cleanup', {
+// Get the states in the local and, when logged in, the database trash,
+// most recently deleted first
+export const getTrashedStates = async (userId?: string): Promise<TrashedState[]> => {
+  if (typeof window === 'undefined') return [];
+  
+  const trashed = new Map<string, TrashedState>();
+  getLocalTrash().forEach(entry => trashed.set(entry.id, {
+    id: entry.id,
+    name: entry.name,
+    date: entry.date,
+    deletedAt: entry.deletedAt,
+    expiresAt: getLocalTrashExpiry(entry.deletedAt).toISOString(),
+    storage: 'local'
+  }));
+  
+  if (userId) {
+    const response = await fetch('/api/states/trash');
+    if (!response.ok) {
+      throw new Error('Failed to load trash');
+    }
+    
+    const dbTrash: TrashedState[] = await response.json();
+    dbTrash.forEach(entry => trashed.set(entry.id, {
+      ...entry,
+      expiresAt: entry.expiresAt ?? undefined,
+      storage: trashed.has(entry.id) ? 'synced' : 'database'
+    }));
+  }
+  
+  return Array.from(trashed.values()).sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+};
+
+// Move a state out of the trash in both stores
+export const restoreFromTrash = async (id: string, userId?: string): Promise<boolean> => {
+  const localTrash = getLocalTrash();
+  const localEntry = localTrash.find(entry => entry.id === id);
+  let restoredCopy: SavedState | undefined;
+  
+  if (localEntry) {
+    const { deletedAt, ...state } = localEntry;
+    restoredCopy = state;
+    setLocalTrash(localTrash.filter(entry => entry.id !== id));
+    setLocalStates([...getLocalStates().filter(state => state.id !== id), restoredCopy]);
+  }
+  
+  if (!userId) return !!localEntry;
+  
+  // A delete that is still queued never reached the database, so the state
+  // only needs its local changes uploaded again
+  if (await clearOperation(id)) {
+    if (restoredCopy) await pushState(restoredCopy, userId);
+    return true;
+  }
+  
+  const response = await fetch('/api/states/untrash', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ id }),
+  });
+  
+  if (response.ok) {
+    const result = await response.json();
+    setLocalUpdatedAt(id, result.updatedAt);
+    return true;
+  }
+  
+  // A 404 means the state was only in the local trash
+  return response.status === 404 && !!localEntry;
+};
+
+// Permanently delete a state that is in the trash
+export const deleteFromTrash = async (id: string, userId?: string): Promise<boolean> => {
+  setLocalTrash(getLocalTrash().filter(entry => entry.id !== id));
+  
+  if (!userId) return true;
+  
+  const response = await fetch(`/api/states/delete?id=${encodeURIComponent(id)}&permanent=true`, {
+    method: 'DELETE',
+  });
+  return response.ok || response.status === 404;
+};
+
+// Pin or unpin a state; pinned states are kept regardless of the retention settings
+export const setStatePinned = async (id: string, pinned: boolean, userId?: string): Promise<boolean> => {
+  const localStates = getLocalStates();
+  const hasLocalCopy = localStates.some(state => state.id === id);
+  
+  if (userId) {
+    const response = await fetch('/api/states/pin', {
       method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ id, pinned }),
     });
     
+    // A 404 means the state only exists in local storage
+    if (!response.ok && !(response.status === 404 && hasLocalCopy)) {
+      console.error('Failed to pin state:', await response.text());
+      return false;
+    }
+    
     if (response.ok) {
       const result = await response.json();
-      return { 
-        success: true, 
-        count: result.count || 0 
-      };
-    } else {
-      console.error('Failed to clean up database:', await response.text());
-      return { success: false, count: 0 };
+      setLocalStates(localStates.map(state => (state.id === id ? { ...state, pinned, updatedAt: result.updatedAt } : state)));
+      return true;
     }
-  } catch (error) {
-    console.error('Error cleaning up database:', error);
-    return { success: false, count: 0 };
   }
-};
\ No newline at end of file
+  
+  setLocalStates(localStates.map(state => (state.id === id ? { ...state, pinned } : state)));
+  return hasLocalCopy;
+};
+
+// Restore saved states from a workspace backup. A state whose id is already
+// in the workspace is either replaced, keeping the current version as a
+// revision, or restored as a copy under a new id. Returns the restored states.
+export const restoreSavedStates = async (states: SavedState[], replaceExisting: boolean, userId?: string): Promise<SavedState[]> => {
+  const existingIds = new Set((await getSavedStates(userId)).map(state => state.id));
+  const restored: SavedState[] = [];
+  
+  for (const backupState of states) {
+    const isExisting = existingIds.has(backupState.id);
+    const localStates = getLocalStates();
+    const localCopy = isExisting && replaceExisting ? localStates.find(localState => localState.id === backupState.id) : undefined;
+    let state: SavedState = {
+      id: isExisting && !replaceExisting ? createStateId() : backupState.id,
+      name: isExisting && !replaceExisting ? `${backupState.name} (restored)` : backupState.name,
+      date: backupState.date,
+      pinned: backupState.pinned,
+      updatedAt: localCopy?.updatedAt,
+      ...toAppState(backupState),
+      revisions: localCopy
+        ? [toRevision(localCopy), ...(localCopy.revisions ?? [])].slice(0, MAX_LOCAL_REVISIONS)
+        : []
+    };
+    
+    setLocalStates(localCopy
+      ? localStates.map(localState => (localState.id === state.id ? state : localState))
+      : [...localStates, state]);
+    
+    if (!userId) {
+      restored.push({ ...state, storage: 'local' });
+      continue;
+    }
+    
+    // Replacing a state that is only in the database overwrites its current version
+    if (isExisting && replaceExisting && !localCopy) {
+      const current = (await fetchDatabaseStates())?.find(dbState => dbState.id === state.id);
+      state = { ...state, updatedAt: current?.updatedAt };
+    }
+    
+    // A state whose id is used by another account is saved under a new id
+    const pushed = await pushState(state, userId);
+    if (pushed.pinned && pushed.storage === 'synced') {
+      await setStatePinned(pushed.id, true, userId);
+    }
+    restored.push(pushed);
+  }
+  
+  return restored;
+};
@@ -0,0 +1,121 @@
+import type { SavedState } from '@/util/stateManager';
+
+export type SyncOperationType = 'create' | 'update' | 'delete';
+
+// A database write that couldn't be sent, replayed when the connection returns.
+// There is at most one pending operation per state.
+export interface SyncOperation {
+  stateId: string;
+  userId: string;
+  type: SyncOperationType;
+  state?: SavedState; // The version to upload, for creates and updates
+  baseUpdatedAt?: string; // Database version the change was made on, used to detect conflicts
+  queuedAt: string;
+}
+
+// A change that was made on another device in the meantime
+export interface SyncConflict {
+  stateId: string;
+  name: string;
+  type: SyncOperationType;
+  copyName?: string; // Name the local version was kept under, for creates and updates
+}
+
+// Fired on window when the pending operations change or a conflict is found
+export const SYNC_QUEUE_EVENT = 'budget-sync-queue-changed';
+export const SYNC_CONFLICT_EVENT = 'budget-sync-conflict';
+
+const DB_NAME = 'budget-app-sync';
+const DB_VERSION = 1;
+const STORE_NAME = 'pending-operations';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'stateId' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Run a single request against the operations store and resolve with its result
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = createRequest(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const notifyQueueChanged = () => {
+  window.dispatchEvent(new Event(SYNC_QUEUE_EVENT));
+};
+
+export const notifySyncConflict = (conflict: SyncConflict) => {
+  window.dispatchEvent(new CustomEvent<SyncConflict>(SYNC_CONFLICT_EVENT, { detail: conflict }));
+};
+
+// Whether the browser can store pending operations
+export const isSyncQueueAvailable = (): boolean => {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+};
+
+// Get the pending operations, oldest first, optionally only those of one user
+export const getPendingOperations = async (userId?: string): Promise<SyncOperation[]> => {
+  if (!isSyncQueueAvailable()) return [];
+
+  const operations = await runRequest<SyncOperation[]>('readonly', store => store.getAll());
+  return operations
+    .filter(operation => !userId || operation.userId === userId)
+    .sort((a, b) => new Date(a.queuedAt).getTime() - new Date(b.queuedAt).getTime());
+};
+
+// Queue an operation, combining it with one already pending for the same state:
+// the combined operation keeps the original base version, and a state that was
+// never uploaded is created with its latest version or dropped when deleted.
+export const enqueueOperation = async (operation: SyncOperation): Promise<void> => {
+  const pending = await runRequest<SyncOperation | undefined>('readonly', store => store.get(operation.stateId));
+
+  let combined: SyncOperation | null = operation;
+  if (pending?.type === 'create') {
+    combined = operation.type === 'delete'
+      ? null
+      : { ...operation, type: 'create', baseUpdatedAt: undefined };
+  } else if (pending) {
+    combined = {
+      ...operation,
+      type: operation.type === 'delete' ? 'delete' : 'update',
+      baseUpdatedAt: pending.baseUpdatedAt
+    };
+  }
+
+  if (combined) {
+    // Local revisions and the listing marker aren't uploaded
+    const record: SyncOperation = combined.state
+      ? { ...combined, state: { ...combined.state, revisions: undefined, storage: undefined } }
+      : combined;
+    await runRequest('readwrite', store => store.put(record));
+  } else {
+    await runRequest('readwrite', store => store.delete(operation.stateId));
+  }
+  notifyQueueChanged();
+};
+
+// Remove the pending operation of a state once it has been replayed
+export const removeOperation = async (stateId: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(stateId));
+  notifyQueueChanged();
+};
@@ -0,0 +1,282 @@
+import { addDays } from "date-fns";
+import {
+  BudgetParams,
+  ColumnMapping,
+  ImportField,
+  IterationData,
+  RejectedRow,
+  ImportDateFormat,
+  TimesheetImportResult,
+  TimesheetIterationSummary,
+  TimesheetMatchBy,
+  TimesheetPreset
+} from "@/types/budget";
+import { getCurrentIterationIndex, getPlannedHours } from "@/util/budgetEngine";
+import { assignIterationDates, parseISODate, toISODate } from "@/util/calendar";
+import { getMappedValue, guessColumnMapping, parseImportDate } from "@/util/csvImport";
+
+const CUSTOM_PRESETS_STORAGE_KEY = "budget-app-timesheet-presets";
+
+export const GENERIC_PRESET_ID = "generic";
+
+export const TIMESHEET_IMPORT_FIELDS: ImportField[] = [
+  { key: "person", label: "Person", required: false, aliases: ["user", "username", "fullname", "name", "employee", "author", "worker", "member"] },
+  { key: "date", label: "Date", required: false, aliases: ["workdate", "day", "startdate", "spentdate", "loggeddate", "worklogdate"] },
+  { key: "hours", label: "Hours", required: true, aliases: ["duration", "durationdecimal", "timespent", "timespenth", "spent", "logged", "time"] },
+  { key: "sprint", label: "Sprint", required: false, aliases: ["iteration", "sprintname", "sprintlabel", "iterationnumber"] }
+];
+
+// Column layouts of common timesheet exports. The generic preset guesses the
+// columns from their headers instead.
+export const BUILT_IN_TIMESHEET_PRESETS: TimesheetPreset[] = [
+  {
+    id: GENERIC_PRESET_ID,
+    name: "Detect from headers",
+    mapping: {},
+    dateFormat: "yyyy-MM-dd",
+    builtIn: true
+  },
+  {
+    id: "tempo",
+    name: "Jira Tempo",
+    mapping: { person: "Full name", date: "Work date", hours: "Hours", sprint: "Sprint" },
+    dateFormat: "yyyy-MM-dd",
+    builtIn: true
+  },
+  {
+    id: "toggl",
+    name: "Toggl Track",
+    mapping: { person: "User", date: "Start date", hours: "Duration", sprint: null },
+    dateFormat: "yyyy-MM-dd",
+    builtIn: true
+  },
+  {
+    id: "clockify",
+    name: "Clockify",
+    mapping: { person: "User", date: "Start Date", hours: "Duration (decimal)", sprint: null },
+    dateFormat: "MM/dd/yyyy",
+    builtIn: true
+  }
+];
+
+export const getCustomTimesheetPresets = (): TimesheetPreset[] => {
+  if (typeof window === "undefined") return [];
+  const presetsJson = localStorage.getItem(CUSTOM_PRESETS_STORAGE_KEY);
+  return presetsJson ? JSON.parse(presetsJson) : [];
+};
+
+const setCustomTimesheetPresets = (presets: TimesheetPreset[]) => {
+  localStorage.setItem(CUSTOM_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
+
+// Save a preset under the given name, replacing a custom preset of the same name
+export const saveTimesheetPreset = (name: string, mapping: ColumnMapping, dateFormat: ImportDateFormat): TimesheetPreset => {
+  const presets = getCustomTimesheetPresets();
+  const existing = presets.find(preset => preset.name === name);
+  const preset: TimesheetPreset = {
+    id: existing?.id ?? (typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : Date.now().toString()),
+    name,
+    mapping,
+    dateFormat
+  };
+
+  setCustomTimesheetPresets(existing
+    ? presets.map(p => (p.id === existing.id ? preset : p))
+    : [...presets, preset]);
+  return preset;
+};
+
+export const deleteTimesheetPreset = (id: string) => {
+  setCustomTimesheetPresets(getCustomTimesheetPresets().filter(preset => preset.id !== id));
+};
+
+// Column mapping of a preset for the headers of a file. Columns the file
+// doesn't have are left unmapped.
+export const getPresetMapping = (preset: TimesheetPreset, headers: string[]): ColumnMapping => {
+  if (preset.id === GENERIC_PRESET_ID) {
+    return guessColumnMapping(headers, TIMESHEET_IMPORT_FIELDS);
+  }
+
+  return Object.fromEntries(TIMESHEET_IMPORT_FIELDS.map(field => {
+    const header = preset.mapping[field.key];
+    return [field.key, header && headers.includes(header) ? header : null];
+  }));
+};
+
+// The preset whose columns best match the headers of a file
+export const detectTimesheetPreset = (presets: TimesheetPreset[], headers: string[]): TimesheetPreset => {
+  const matchedColumns = (preset: TimesheetPreset) =>
+    Object.values(preset.mapping).filter(header => header && headers.includes(header)).length;
+  const best = presets
+    .filter(preset => preset.id !== GENERIC_PRESET_ID && preset.mapping.hours && headers.includes(preset.mapping.hours))
+    .sort((a, b) => matchedColumns(b) - matchedColumns(a))[0];
+  return best ?? presets.find(preset => preset.id === GENERIC_PRESET_ID)!;
+};
+
+// Fields that have to be mapped before importing
+export const getUnmappedTimesheetFields = (mapping: ColumnMapping, matchBy: TimesheetMatchBy): ImportField[] => {
+  const requiredKeys = ["hours", matchBy === "dates" ? "date" : "sprint"];
+  return TIMESHEET_IMPORT_FIELDS.filter(field => requiredKeys.includes(field.key) && !mapping[field.key]);
+};
+
+// Parse hours written as a decimal ("7.5" or "7,5") or as a duration
+// ("7:30" or "07:30:00"). Returns NaN for anything else.
+export const parseTimesheetHours = (value: string): number => {
+  const duration = value.match(/^(\d+):(\d{1,2})(?::(\d{1,2}))?$/);
+  if (duration) {
+    const [, hours, minutes, seconds = "0"] = duration;
+    return parseInt(hours, 10) + parseInt(minutes, 10) / 60 + parseInt(seconds, 10) / 3600;
+  }
+  return /^\d*[.,]?\d+$/.test(value) ? Number(value.replace(",", ".")) : NaN;
+};
+
+// Iteration number in a sprint label, taken as the last number in it
+// (e.g. "Sprint 12" or "PRJ Sprint 2026-12" both give 12)
+export const parseSprintNumber = (label: string): number | null => {
+  const numbers = label.match(/\d+/g);
+  return numbers ? parseInt(numbers[numbers.length - 1], 10) : null;
+};
+
+const roundHours = (hours: number): number => Math.round(hours * 100) / 100;
+
+// Aggregate timesheet rows into the iteration they belong to and fill in
+// the actual hours of every iteration with at least one row. Iterations
+// without rows keep their current actual hours.
+export const importTimesheet = (
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  dateFormat: ImportDateFormat,
+  matchBy: TimesheetMatchBy,
+  budgetParams: BudgetParams,
+  iterations: IterationData[]
+): TimesheetImportResult => {
+  const datedIterations = assignIterationDates(budgetParams, iterations);
+  const summaries = new Map<number, TimesheetIterationSummary>();
+  const people = new Map<number, Set<string>>();
+  const unmatched: RejectedRow[] = [];
+  const rejected: RejectedRow[] = [];
+  const warnings: string[] = [];
+  let totalHours = 0;
+
+  // An iteration's date range runs up to the day before the next one starts,
+  // so hours logged on a weekend or holiday between two iterations count
+  // towards the earlier one
+  const dateRanges = datedIterations
+    .map((iteration, index) => {
+      const nextStart = parseISODate(datedIterations[index + 1]?.startDate);
+      return {
+        iteration,
+        startDate: iteration.startDate,
+        endDate: nextStart ? toISODate(addDays(nextStart, -1)) : iteration.endDate
+      };
+    })
+    .filter(range => range.startDate && range.endDate);
+
+  if (matchBy === "dates" && dateRanges.length === 0) {
+    warnings.push("Iterations have no dates. Set a project start date to match timesheet rows by date.");
+  }
+
+  const findIteration = (date: string | null, sprint: string): IterationData | undefined => {
+    if (matchBy === "dates") {
+      return dateRanges.find(range => date! >= range.startDate! && date! <= range.endDate!)?.iteration;
+    }
+    const sprintNumber = parseSprintNumber(sprint);
+    return datedIterations.find(iteration => iteration.iterationNumber === sprintNumber);
+  };
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const reasons: string[] = [];
+    const rawHours = getMappedValue(row, mapping, "hours");
+    const rawDate = getMappedValue(row, mapping, "date");
+    const sprint = getMappedValue(row, mapping, "sprint");
+    const person = getMappedValue(row, mapping, "person");
+
+    const hours = parseTimesheetHours(rawHours);
+    if (!rawHours) {
+      reasons.push("Hours is missing");
+    } else if (isNaN(hours)) {
+      reasons.push(`Hours "${rawHours}" is not a number or duration`);
+    }
+
+    const date = rawDate ? parseImportDate(rawDate, dateFormat) : null;
+    if (matchBy === "dates" && !rawDate) {
+      reasons.push("Date is missing");
+    } else if (rawDate && !date) {
+      reasons.push(`Date "${rawDate}" doesn't match the format ${dateFormat}`);
+    }
+    if (matchBy === "sprint" && !sprint) {
+      reasons.push("Sprint is missing");
+    }
+
+    if (reasons.length > 0) {
+      rejected.push({ rowNumber, reasons, values: row });
+      return;
+    }
+
+    totalHours += hours;
+
+    const iteration = findIteration(date, sprint);
+    if (!iteration) {
+      unmatched.push({
+        rowNumber,
+        reasons: [matchBy === "dates"
+          ? `${date} is outside every iteration`
+          : `Sprint "${sprint}" doesn't match an iteration number`],
+        values: row
+      });
+      return;
+    }
+
+    const summary = summaries.get(iteration.iterationNumber) ?? {
+      iterationNumber: iteration.iterationNumber,
+      startDate: iteration.startDate,
+      endDate: iteration.endDate,
+      entryCount: 0,
+      people: [],
+      importedHours: 0,
+      previousActualHours: iteration.actualHours,
+      plannedHours: getPlannedHours(iteration)
+    };
+    summary.entryCount += 1;
+    summary.importedHours += hours;
+    summaries.set(iteration.iterationNumber, summary);
+
+    if (person) {
+      const iterationPeople = people.get(iteration.iterationNumber) ?? new Set<string>();
+      iterationPeople.add(person);
+      people.set(iteration.iterationNumber, iterationPeople);
+    }
+  });
+
+  const sortedSummaries = Array.from(summaries.values())
+    .map(summary => ({
+      ...summary,
+      importedHours: roundHours(summary.importedHours),
+      people: Array.from(people.get(summary.iterationNumber) ?? []).sort()
+    }))
+    .sort((a, b) => a.iterationNumber - b.iterationNumber);
+
+  // Actual hours after the current iteration aren't used until it moves on
+  const currentIteration = datedIterations[getCurrentIterationIndex(datedIterations)];
+  const laterIterations = sortedSummaries.filter(summary => currentIteration && summary.iterationNumber > currentIteration.iterationNumber);
+  if (laterIterations.length > 0) {
+    warnings.push(
+      `Hours were imported for ${laterIterations.map(summary => `iteration ${summary.iterationNumber}`).join(", ")}, ` +
+      `after the current iteration ${currentIteration.iterationNumber}. They are only used once the current iteration moves on.`
+    );
+  }
+
+  return {
+    iterations: iterations.map(iteration => {
+      const summary = summaries.get(iteration.iterationNumber);
+      return summary ? { ...iteration, actualHours: roundHours(summary.importedHours) } : iteration;
+    }),
+    summaries: sortedSummaries,
+    unmatched,
+    rejected,
+    totalHours: roundHours(totalHours),
+    matchedHours: roundHours(sortedSummaries.reduce((sum, summary) => sum + summary.importedHours, 0)),
+    warnings
+  };
+};
@@ -0,0 +1,440 @@
+import ExcelJS from 'exceljs';
+import { BudgetParams, IterationData, RateCardEntry } from '@/types/budget';
+import {
+  calculateChartData,
+  calculateIterationBudgetData,
+  getCurrentIterationIndex,
+  getDefaultIterationHours,
+  getIterationCost,
+  HOURS_PER_DAY,
+  MAX_ITERATIONS
+} from '@/util/budgetEngine';
+import { DEFAULT_WEEKEND_DAYS, toISODate } from '@/util/calendar';
+
+export const PARAMETERS_SHEET = 'Parameters';
+export const ITERATIONS_SHEET = 'Iterations';
+export const CHART_DATA_SHEET = 'Chart Data';
+
+export interface ImportedWorkbook {
+  budgetParams: BudgetParams;
+  iterations: IterationData[];
+  warnings: string[]; // Rows that were skipped or values that were ignored
+}
+
+// Parameter rows, in sheet order. Formulas refer to them by row, so new
+// parameters go at the end.
+const PARAMETER_ROWS: { key: keyof BudgetParams, description: string }[] = [
+  { key: 'costPerHour', description: 'Default hourly rate' },
+  { key: 'budgetSize', description: 'Total budget' },
+  { key: 'teamSize', description: 'Default team size' },
+  { key: 'workingDaysPerIteration', description: 'Working days per iteration' },
+  { key: 'currency', description: 'Currency symbol' },
+  { key: 'projectStartDate', description: 'Start date of the first iteration (yyyy-MM-dd)' },
+  { key: 'weekendDays', description: 'Non-working days of the week, 0 = Sunday, separated by ";"' },
+  { key: 'holidayCountry', description: 'Country code of the public holiday calendar' },
+  { key: 'totalScope', description: 'Total scope, e.g. story points' }
+];
+
+const RATE_CARD_HEADER = 'Role Id';
+
+const ITERATION_COLUMNS = [
+  { header: 'Iteration #', key: 'iterationNumber', width: 12 },
+  { header: 'Days', key: 'iterationDays', width: 8 },
+  { header: 'Team Size', key: 'teamSize', width: 10 },
+  { header: 'Planned Hours', key: 'plannedHours', width: 14 },
+  { header: 'Actual Hours', key: 'actualHours', width: 14 },
+  { header: 'Current', key: 'isCurrent', width: 10 },
+  { header: '% Complete', key: 'percentComplete', width: 12 },
+  { header: 'Delivered Scope', key: 'deliveredScope', width: 16 },
+  { header: 'Role Headcount', key: 'roleHeadcount', width: 28 },
+  { header: 'Rate', key: 'rate', width: 12 },
+  { header: 'Planned Cost', key: 'plannedCost', width: 14 },
+  { header: 'Cost', key: 'cost', width: 14 },
+  { header: 'Cumulative Planned', key: 'cumulativePlanned', width: 18 },
+  { header: 'Cumulative Cost', key: 'cumulativeCost', width: 18 },
+  { header: 'Remaining Budget', key: 'remainingBudget', width: 18 }
+];
+
+const CHART_DATA_COLUMNS = [
+  { header: 'Name', key: 'name', width: 16 },
+  { header: 'Iteration #', key: 'iterationNumber', width: 12 },
+  { header: 'Start Date', key: 'startDate', width: 12 },
+  { header: 'End Date', key: 'endDate', width: 12 },
+  { header: 'Iteration Cost', key: 'iterationCost', width: 16 },
+  { header: 'Cumulative Standard', key: 'cumulativeStandard', width: 20 },
+  { header: 'Cumulative Planned', key: 'cumulativePlanned', width: 18 },
+  { header: 'Cumulative Actual', key: 'cumulativeActual', width: 18 },
+  { header: 'Cumulative Forecast', key: 'cumulativeForecast', width: 20 }
+];
+
+const MONEY_FORMAT = '#,##0.00';
+
+// Column letter of an iteration column, e.g. "D" for plannedHours
+const iterationColumn = (key: string): string => {
+  return String.fromCharCode(65 + ITERATION_COLUMNS.findIndex(column => column.key === key));
+};
+
+// Absolute reference to the value of a parameter on the Parameters sheet
+const parameterRef = (key: keyof BudgetParams): string => {
+  return `${PARAMETERS_SHEET}!$B$${PARAMETER_ROWS.findIndex(row => row.key === key) + 2}`;
+};
+
+const styleHeader = (worksheet: ExcelJS.Worksheet) => {
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+};
+
+// Role headcount as "Role=count" pairs, using role names so finance can read it
+const formatRoleHeadcount = (roleHeadcount: Record<string, number> | undefined, rateCard: RateCardEntry[]): string => {
+  return Object.entries(roleHeadcount ?? {})
+    .filter(([, count]) => count > 0)
+    .map(([roleId, count]) => `${rateCard.find(entry => entry.id === roleId)?.role ?? roleId}=${count}`)
+    .join('; ');
+};
+
+const parseRoleHeadcount = (value: string, rateCard: RateCardEntry[]): Record<string, number> | undefined => {
+  const roleHeadcount: Record<string, number> = {};
+
+  value.split(';').forEach(pair => {
+    const [role, count] = pair.split('=').map(part => part.trim());
+    const headcount = parseFloat(count);
+    if (!role || isNaN(headcount)) return;
+    const entry = rateCard.find(rateCardEntry => rateCardEntry.role === role || rateCardEntry.id === role);
+    roleHeadcount[entry?.id ?? role] = headcount;
+  });
+
+  return Object.keys(roleHeadcount).length > 0 ? roleHeadcount : undefined;
+};
+
+// Blended hourly rate of an iteration as a formula over the rate card rows, so
+// the rate can be traced back to the roles it is made of
+const rateFormula = (
+  iteration: IterationData,
+  budgetParams: BudgetParams,
+  rateCardRows: Map<string, number>
+): string => {
+  const headcount = Object.entries(iteration.roleHeadcount ?? {}).filter(([, count]) => count > 0);
+  const totalHeadcount = headcount.reduce((sum, [, count]) => sum + count, 0);
+
+  if (totalHeadcount === 0) {
+    return parameterRef('costPerHour');
+  }
+
+  const terms = headcount.map(([roleId, count]) => {
+    const row = rateCardRows.get(roleId);
+    return `${count}*${row ? `${PARAMETERS_SHEET}!$B$${row}` : parameterRef('costPerHour')}`;
+  });
+  return `(${terms.join('+')})/${totalHeadcount}`;
+};
+
+const addParametersSheet = (workbook: ExcelJS.Workbook, budgetParams: BudgetParams): Map<string, number> => {
+  const worksheet = workbook.addWorksheet(PARAMETERS_SHEET);
+  worksheet.columns = [
+    { header: 'Parameter', key: 'key', width: 26 },
+    { header: 'Value', key: 'value', width: 16 },
+    { header: 'Description', key: 'description', width: 60 }
+  ];
+  worksheet.getColumn(4).width = 10;
+  styleHeader(worksheet);
+
+  PARAMETER_ROWS.forEach(({ key, description }) => {
+    const value = key === 'weekendDays'
+      ? (budgetParams.weekendDays ?? DEFAULT_WEEKEND_DAYS).join(';')
+      : budgetParams[key];
+    worksheet.addRow({ key, value: value ?? null, description });
+  });
+
+  // Rate card below the parameters, one role per row
+  const rateCardRows = new Map<string, number>();
+  worksheet.addRow([]);
+  const rateCardHeader = worksheet.addRow([RATE_CARD_HEADER, 'Hourly Rate', 'Role', 'Currency']);
+  rateCardHeader.font = { bold: true };
+  (budgetParams.rateCard ?? []).forEach(entry => {
+    const row = worksheet.addRow([entry.id, entry.hourlyRate, entry.role, entry.currency ?? null]);
+    rateCardRows.set(entry.id, row.number);
+  });
+
+  return rateCardRows;
+};
+
+const addIterationsSheet = (
+  workbook: ExcelJS.Workbook,
+  budgetParams: BudgetParams,
+  iterations: IterationData[],
+  rateCardRows: Map<string, number>
+) => {
+  const worksheet = workbook.addWorksheet(ITERATIONS_SHEET);
+  worksheet.columns = ITERATION_COLUMNS;
+  styleHeader(worksheet);
+
+  const budgetData = calculateIterationBudgetData(budgetParams, iterations);
+  const currentIndex = getCurrentIterationIndex(budgetData);
+  const [plannedHours, actualHours, rate, plannedCost, cost, cumulativePlanned, cumulativeCost] =
+    ['plannedHours', 'actualHours', 'rate', 'plannedCost', 'cost', 'cumulativePlanned', 'cumulativeCost'].map(iterationColumn);
+  let cumulativePlannedResult = 0;
+
+  budgetData.forEach((iteration, index) => {
+    const r = index + 2;
+    cumulativePlannedResult += iteration.plannedCost;
+
+    worksheet.addRow({
+      iterationNumber: iteration.iterationNumber,
+      iterationDays: iteration.iterationDays,
+      teamSize: iteration.teamSize,
+      plannedHours: iteration.plannedHours,
+      actualHours: iteration.actualHours ?? null,
+      isCurrent: index === currentIndex,
+      percentComplete: iteration.percentComplete ?? null,
+      deliveredScope: iteration.deliveredScope ?? null,
+      roleHeadcount: formatRoleHeadcount(iteration.roleHeadcount, budgetParams.rateCard ?? []) || null,
+      rate: { formula: rateFormula(iteration, budgetParams, rateCardRows), result: getIterationCost(iteration, budgetParams, 1) },
+      plannedCost: { formula: `${plannedHours}${r}*${rate}${r}`, result: iteration.plannedCost },
+      // Up to the current iteration the cost follows the actual hours, if recorded
+      cost: {
+        formula: iteration.isActual
+          ? `IF(${actualHours}${r}="",${plannedHours}${r},${actualHours}${r})*${rate}${r}`
+          : `${plannedCost}${r}`,
+        result: iteration.iterationCost
+      },
+      cumulativePlanned: { formula: `SUM(${plannedCost}$2:${plannedCost}${r})`, result: cumulativePlannedResult },
+      cumulativeCost: { formula: `SUM(${cost}$2:${cost}${r})`, result: iteration.cumulativeCost },
+      remainingBudget: { formula: `${parameterRef('budgetSize')}-${cumulativeCost}${r}`, result: iteration.remainingBudget }
+    });
+  });
+
+  [rate, plannedCost, cost, cumulativePlanned, cumulativeCost, iterationColumn('remainingBudget')].forEach(column => {
+    worksheet.getColumn(column).numFmt = MONEY_FORMAT;
+  });
+};
+
+// Chart series as shown in the app. Cost columns refer to the Iterations
+// sheet, so they follow any change made there.
+const addChartDataSheet = (workbook: ExcelJS.Workbook, budgetParams: BudgetParams, iterations: IterationData[]) => {
+  const worksheet = workbook.addWorksheet(CHART_DATA_SHEET);
+  worksheet.columns = CHART_DATA_COLUMNS;
+  styleHeader(worksheet);
+
+  const chartData = calculateChartData(budgetParams, iterations);
+  const [cost, cumulativePlanned, cumulativeCost] = ['cost', 'cumulativePlanned', 'cumulativeCost'].map(iterationColumn);
+  const standardCost = `${parameterRef('costPerHour')}*${HOURS_PER_DAY}*${parameterRef('teamSize')}*${parameterRef('workingDaysPerIteration')}`;
+
+  chartData.forEach((data, index) => {
+    const r = index + 2;
+    // The Start point has no iteration; iteration rows line up with the Iterations sheet
+    if (index === 0) {
+      worksheet.addRow({ ...data, iterationNumber: null, cumulativeForecast: null });
+      return;
+    }
+
+    const ref = (column: string) => `${ITERATIONS_SHEET}!${column}${index + 1}`;
+    worksheet.addRow({
+      name: data.name,
+      iterationNumber: data.iterationNumber,
+      startDate: data.startDate ?? null,
+      endDate: data.endDate ?? null,
+      iterationCost: data.cumulativeActual !== null ? { formula: ref(cost), result: data.iterationCost } : 0,
+      cumulativeStandard: { formula: `F${r - 1}+${standardCost}`, result: data.cumulativeStandard },
+      cumulativePlanned: { formula: ref(cumulativePlanned), result: data.cumulativePlanned },
+      cumulativeActual: data.cumulativeActual !== null ? { formula: ref(cumulativeCost), result: data.cumulativeActual } : null,
+      cumulativeForecast: data.cumulativeForecast !== null ? { formula: ref(cumulativeCost), result: data.cumulativeForecast } : null
+    });
+  });
+
+  ['iterationCost', 'cumulativeStandard', 'cumulativePlanned', 'cumulativeActual', 'cumulativeForecast'].forEach(key => {
+    worksheet.getColumn(key).numFmt = MONEY_FORMAT;
+  });
+};
+
+// Build a workbook with Parameters, Iterations and Chart Data sheets. Costs
+// and cumulative columns are formulas, with the app's values as their cached
+// results.
+export const createBudgetWorkbook = async (budgetParams: BudgetParams, iterations: IterationData[]): Promise<Blob> => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const rateCardRows = addParametersSheet(workbook, budgetParams);
+  addIterationsSheet(workbook, budgetParams, iterations, rateCardRows);
+  addChartDataSheet(workbook, budgetParams, iterations);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+// Value of a cell, using the cached result of formulas
+const getCellValue = (cell: ExcelJS.Cell): string | number | boolean | null => {
+  const value = cell.value;
+  if (value === null || value === undefined) return null;
+  // ExcelJS reads dates as UTC midnight; the day is kept in local time
+  if (value instanceof Date) return toISODate(new Date(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+  if (typeof value === 'object') {
+    if ('result' in value) {
+      const result = value.result;
+      return result === undefined || typeof result === 'object' ? null : result;
+    }
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return String(value.text);
+    return null;
+  }
+  return value;
+};
+
+const toNumber = (value: string | number | boolean | null): number => {
+  return typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+};
+
+const readParameters = (worksheet: ExcelJS.Worksheet, warnings: string[]): BudgetParams => {
+  const values: Record<string, string | number | boolean | null> = {};
+  const rateCard: RateCardEntry[] = [];
+  let inRateCard = false;
+
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const key = String(getCellValue(row.getCell(1)) ?? '').trim();
+
+    if (key === RATE_CARD_HEADER) {
+      inRateCard = true;
+      return;
+    }
+    if (!key) return;
+
+    if (inRateCard) {
+      const hourlyRate = toNumber(getCellValue(row.getCell(2)));
+      if (isNaN(hourlyRate)) {
+        warnings.push(`Rate card row ${rowNumber} has no hourly rate and was skipped`);
+        return;
+      }
+      const currency = getCellValue(row.getCell(4));
+      rateCard.push({
+        id: key,
+        hourlyRate,
+        role: String(getCellValue(row.getCell(3)) ?? key),
+        ...(currency ? { currency: String(currency) } : {})
+      });
+    } else {
+      values[key] = getCellValue(row.getCell(2));
+    }
+  });
+
+  const isMissing = (key: keyof BudgetParams) => values[key] === undefined || values[key] === null || values[key] === '';
+
+  // An empty list means every day is a working day
+  const weekendDayValues = values.weekendDays === undefined || values.weekendDays === null
+    ? undefined
+    : String(values.weekendDays).split(';').filter(day => day.trim() !== '');
+  const weekendDays = weekendDayValues?.map(day => parseInt(day, 10)).filter(day => day >= 0 && day <= 6);
+  if (weekendDayValues && weekendDays && weekendDays.length < weekendDayValues.length) {
+    warnings.push(`Parameter weekendDays "${values.weekendDays}" has days that are not 0 to 6, they were ignored`);
+  }
+
+  // Missing or invalid values fall back to the app's defaults, with a warning
+  const readPositiveNumber = (key: keyof BudgetParams, fallback: number): number => {
+    const value = toNumber(values[key]);
+    if (value > 0) return value;
+    warnings.push(isMissing(key)
+      ? `Parameter ${key} is missing, ${fallback} was used`
+      : `Parameter ${key} "${values[key]}" is not a positive number, ${fallback} was used`);
+    return fallback;
+  };
+
+  if (isMissing('currency')) {
+    warnings.push('Parameter currency is missing, $ was used');
+  }
+
+  // Total scope is optional, so only a value that can't be read is reported
+  const totalScope = toNumber(values.totalScope);
+  if (!isMissing('totalScope') && !(totalScope > 0)) {
+    warnings.push(`Parameter totalScope "${values.totalScope}" is not a positive number and was ignored`);
+  }
+
+  return {
+    costPerHour: readPositiveNumber('costPerHour', 50),
+    budgetSize: readPositiveNumber('budgetSize', 100000),
+    teamSize: readPositiveNumber('teamSize', 5),
+    workingDaysPerIteration: readPositiveNumber('workingDaysPerIteration', 10),
+    currency: isMissing('currency') ? '$' : String(values.currency),
+    projectStartDate: values.projectStartDate ? String(values.projectStartDate) : undefined,
+    weekendDays,
+    holidayCountry: values.holidayCountry ? String(values.holidayCountry) : undefined,
+    ...(rateCard.length > 0 && { rateCard }),
+    totalScope: totalScope > 0 ? totalScope : undefined
+  };
+};
+
+const readIterations = (worksheet: ExcelJS.Worksheet, budgetParams: BudgetParams, warnings: string[]): IterationData[] => {
+  // Columns are found by header, so reordered or extra columns still import
+  const columnsByKey = new Map<string, number>();
+  worksheet.getRow(1).eachCell((cell, columnNumber) => {
+    const column = ITERATION_COLUMNS.find(c => c.header === String(getCellValue(cell) ?? '').trim());
+    if (column) columnsByKey.set(column.key, columnNumber);
+  });
+
+  const read = (row: ExcelJS.Row, key: string) => {
+    const columnNumber = columnsByKey.get(key);
+    return columnNumber ? getCellValue(row.getCell(columnNumber)) : null;
+  };
+
+  const iterations: IterationData[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+
+    if (iterations.length >= MAX_ITERATIONS) {
+      warnings.push(`Only the first ${MAX_ITERATIONS} iterations were imported`);
+      return;
+    }
+
+    // Empty planned hours read as NaN and fall back to the default below
+    const plannedHours = toNumber(read(row, 'plannedHours'));
+    const iteration: IterationData = {
+      iterationNumber: toNumber(read(row, 'iterationNumber')),
+      iterationDays: toNumber(read(row, 'iterationDays')),
+      teamSize: toNumber(read(row, 'teamSize')),
+      ...(plannedHours >= 0 && { plannedHours })
+    };
+
+    if (!(iteration.iterationNumber > 0 && iteration.iterationDays > 0 && iteration.teamSize > 0)) {
+      warnings.push(`Iterations row ${rowNumber} has an invalid iteration number, days or team size and was skipped`);
+      return;
+    }
+
+    if (iteration.plannedHours === undefined) {
+      iteration.plannedHours = getDefaultIterationHours(iteration);
+    }
+
+    const actualHours = toNumber(read(row, 'actualHours'));
+    const percentComplete = toNumber(read(row, 'percentComplete'));
+    const deliveredScope = toNumber(read(row, 'deliveredScope'));
+    const roleHeadcount = parseRoleHeadcount(String(read(row, 'roleHeadcount') ?? ''), budgetParams.rateCard ?? []);
+    const isCurrent = read(row, 'isCurrent');
+
+    iterations.push({
+      ...iteration,
+      ...(!isNaN(actualHours) && { actualHours }),
+      ...(!isNaN(percentComplete) && { percentComplete }),
+      ...(!isNaN(deliveredScope) && { deliveredScope }),
+      ...(roleHeadcount && { roleHeadcount }),
+      isCurrent: isCurrent === true || String(isCurrent).toLowerCase() === 'true'
+    });
+  });
+
+  return iterations;
+};
+
+// Read budget parameters and iterations back from a workbook created by
+// createBudgetWorkbook. The Chart Data sheet is not read, since the chart is
+// recalculated from the iterations.
+export const parseBudgetWorkbook = async (data: ArrayBuffer): Promise<ImportedWorkbook> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+
+  const parametersSheet = workbook.getWorksheet(PARAMETERS_SHEET);
+  const iterationsSheet = workbook.getWorksheet(ITERATIONS_SHEET);
+  if (!parametersSheet || !iterationsSheet) {
+    throw new Error(`The workbook needs "${PARAMETERS_SHEET}" and "${ITERATIONS_SHEET}" sheets`);
+  }
+
+  const warnings: string[] = [];
+  const budgetParams = readParameters(parametersSheet, warnings);
+  const iterations = readIterations(iterationsSheet, budgetParams, warnings);
+
+  return { budgetParams, iterations, warnings: Array.from(new Set(warnings)) };
+};
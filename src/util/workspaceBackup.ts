@@ -0,0 +1,223 @@
+import { ColumnMapping, ImportDateFormat, RetentionSettings, TimesheetPreset } from "@/types/budget";
+import { IMPORT_DATE_FORMATS } from "@/util/csvImport";
+import { validatePlan } from "@/util/planValidation";
+import { SavedState, getAllSavedStates } from "@/util/stateManager";
+import { getRetentionSettings, saveRetentionSettings } from "@/util/settingsManager";
+import { getCustomTimesheetPresets, saveTimesheetPreset } from "@/util/timesheetImport";
+
+export const WORKSPACE_BACKUP_FORMAT = "budget-workspace-backup";
+export const WORKSPACE_BACKUP_VERSION = 1;
+
+// JSON Schema of the backup document, served from the public folder
+export const WORKSPACE_BACKUP_SCHEMA_PATH = `/schemas/workspace-backup-v${WORKSPACE_BACKUP_VERSION}.json`;
+
+// A saved state as stored in a backup: its current version, without the
+// revision history or where it was stored
+export type BackupState = Omit<SavedState, "storage" | "updatedAt" | "revisions">;
+
+export interface WorkspaceBackupSettings {
+  retention?: RetentionSettings; // Only included when exported while logged in
+  timesheetPresets: TimesheetPreset[];
+}
+
+export interface WorkspaceBackup {
+  $schema?: string;
+  format: typeof WORKSPACE_BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  states: BackupState[];
+  settings: WorkspaceBackupSettings;
+}
+
+// A state read from a backup, with the problems that keep it from being restored
+export interface BackupStateEntry {
+  index: number;
+  name: string;
+  state: BackupState | null; // Null if the state is invalid
+  errors: string[];
+}
+
+export interface ParsedWorkspaceBackup {
+  exportedAt?: string;
+  states: BackupStateEntry[];
+  settings: WorkspaceBackupSettings | null; // Null if the settings are invalid
+  settingsErrors: string[];
+  errors: string[]; // Problems with the document as a whole; nothing can be restored if there are any
+}
+
+// Collect every saved state, from local storage and the database, and the
+// user's settings into one backup document. Fails if the database states
+// can't be fetched rather than backing up only the local ones.
+export const createWorkspaceBackup = async (userId?: string): Promise<WorkspaceBackup> => {
+  const savedStates = await getAllSavedStates(userId);
+  const retention = userId ? await getRetentionSettings().catch(() => undefined) : undefined;
+
+  return {
+    $schema: typeof window !== "undefined" ? `${window.location.origin}${WORKSPACE_BACKUP_SCHEMA_PATH}` : WORKSPACE_BACKUP_SCHEMA_PATH,
+    format: WORKSPACE_BACKUP_FORMAT,
+    version: WORKSPACE_BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    states: savedStates.map(({ storage, updatedAt, revisions, ...state }) => state),
+    settings: {
+      ...(retention && { retention }),
+      timesheetPresets: getCustomTimesheetPresets()
+    }
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const isDateString = (value: unknown): value is string => typeof value === "string" && !isNaN(new Date(value).getTime());
+
+const isRetentionSettings = (value: unknown): value is RetentionSettings =>
+  isObject(value) && (value.retentionDays === null || isNumber(value.retentionDays)) && isNumber(value.trashRetentionDays);
+
+const isColumnMapping = (value: unknown): value is ColumnMapping =>
+  isObject(value) && Object.values(value).every(header => header === null || typeof header === "string");
+
+const isPresetSettings = (value: unknown): value is Record<string, unknown> & { name: string, mapping: ColumnMapping } =>
+  isObject(value) && typeof value.name === "string" && isColumnMapping(value.mapping);
+
+const isImportDateFormat = (value: unknown): value is ImportDateFormat =>
+  IMPORT_DATE_FORMATS.some(format => format.value === value);
+
+const validateState = (value: unknown, index: number): BackupStateEntry => {
+  const errors: string[] = [];
+  if (!isObject(value)) {
+    return { index, name: `State ${index + 1}`, state: null, errors: ["State must be an object"] };
+  }
+
+  const { id, name, date, pinned, scenarios, activeScenarioId } = value;
+  if (typeof id !== "string" || !id) errors.push("id must be a non-empty string");
+  if (typeof name !== "string" || !name.trim()) errors.push("name must be a non-empty string");
+  if (!isDateString(date)) errors.push("date must be a date");
+  if (pinned !== undefined && typeof pinned !== "boolean") errors.push("pinned must be true or false");
+  const hasValidPlan = validatePlan(value, "", errors);
+
+  if (scenarios !== undefined && scenarios !== null) {
+    if (!Array.isArray(scenarios)) {
+      errors.push("scenarios must be a list");
+    } else {
+      scenarios.forEach((scenario: unknown, scenarioIndex: number) => {
+        if (!isObject(scenario) || typeof scenario.id !== "string" || typeof scenario.name !== "string") {
+          errors.push(`scenarios[${scenarioIndex}] must have an id and a name`);
+        } else {
+          validatePlan(scenario, `scenarios[${scenarioIndex}].`, errors);
+        }
+      });
+    }
+  }
+  if (activeScenarioId !== undefined && activeScenarioId !== null && typeof activeScenarioId !== "string") {
+    errors.push("activeScenarioId must be a string");
+  }
+
+  const entryName = typeof name === "string" && name.trim() ? name : `State ${index + 1}`;
+  if (errors.length > 0 || typeof id !== "string" || typeof name !== "string" || !isDateString(date) || !hasValidPlan) {
+    return { index, name: entryName, state: null, errors };
+  }
+
+  return {
+    index,
+    name: entryName,
+    state: {
+      id,
+      name,
+      date,
+      ...(typeof pinned === "boolean" && { pinned }),
+      budgetParams: value.budgetParams,
+      iterations: value.iterations,
+      // Chart data is recalculated when a state is loaded
+      chartData: Array.isArray(value.chartData) ? value.chartData : [],
+      ...(Array.isArray(value.visibleChartItems) && { visibleChartItems: value.visibleChartItems }),
+      ...(Array.isArray(scenarios) && { scenarios }),
+      ...((typeof activeScenarioId === "string" || activeScenarioId === null) && { activeScenarioId })
+    },
+    errors
+  };
+};
+
+const validateSettings = (value: unknown, errors: string[]): WorkspaceBackupSettings | null => {
+  if (value === undefined) return { timesheetPresets: [] };
+  if (!isObject(value)) {
+    errors.push("settings must be an object");
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const { retention, timesheetPresets } = value;
+  if (retention !== undefined && !isRetentionSettings(retention)) {
+    errors.push("settings.retention must have retentionDays and trashRetentionDays");
+  }
+  const presets = timesheetPresets ?? [];
+  if (!Array.isArray(presets) || !presets.every(isPresetSettings)) {
+    errors.push("settings.timesheetPresets must be a list of presets with a name and a mapping");
+  }
+
+  if (errors.length > errorCount || (retention !== undefined && !isRetentionSettings(retention)) || !Array.isArray(presets)) {
+    return null;
+  }
+  return {
+    ...(retention !== undefined && { retention }),
+    // Presets are saved as custom presets, with a known date format
+    timesheetPresets: presets.filter(isPresetSettings).map(preset => ({
+      id: String(preset.id ?? ""),
+      name: preset.name,
+      mapping: preset.mapping,
+      dateFormat: isImportDateFormat(preset.dateFormat) ? preset.dateFormat : "yyyy-MM-dd"
+    }))
+  };
+};
+
+// Read and validate a backup document. Problems with single states or the
+// settings only keep those from being restored; problems with the document
+// itself, like an unknown format or a newer version, reject the whole file.
+export const parseWorkspaceBackup = (json: string): ParsedWorkspaceBackup => {
+  const invalid = (error: string): ParsedWorkspaceBackup => ({ states: [], settings: null, settingsErrors: [], errors: [error] });
+
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    return invalid("The file is not valid JSON");
+  }
+
+  if (!isObject(document) || document.format !== WORKSPACE_BACKUP_FORMAT) {
+    return invalid("The file is not a workspace backup");
+  }
+  if (typeof document.version !== "number" || !Number.isInteger(document.version) || document.version < 1) {
+    return invalid("The backup has no valid version");
+  }
+  if (document.version > WORKSPACE_BACKUP_VERSION) {
+    return invalid(`The backup was made with a newer version of the app (backup version ${document.version}, supported up to ${WORKSPACE_BACKUP_VERSION})`);
+  }
+  if (!Array.isArray(document.states)) {
+    return invalid("The backup has no list of states");
+  }
+
+  const settingsErrors: string[] = [];
+  const settings = validateSettings(document.settings, settingsErrors);
+
+  return {
+    exportedAt: isDateString(document.exportedAt) ? document.exportedAt : undefined,
+    states: document.states.map(validateState),
+    settings,
+    settingsErrors,
+    errors: []
+  };
+};
+
+// Apply the settings of a backup. Retention settings are kept in the account
+// and only restored when logged in; timesheet presets replace any custom
+// preset with the same name.
+export const restoreWorkspaceSettings = async (settings: WorkspaceBackupSettings, userId?: string): Promise<void> => {
+  settings.timesheetPresets.forEach(preset => {
+    saveTimesheetPreset(preset.name, preset.mapping, preset.dateFormat);
+  });
+
+  if (userId && settings.retention) {
+    await saveRetentionSettings(settings.retention);
+  }
+};
@@ -0,0 +1,29 @@
+import { BudgetParams, IterationData, MonteCarloForecast } from '@/types/budget';
+import { runMonteCarloForecast, MonteCarloOptions } from '@/util/monteCarlo';
+
+export interface MonteCarloRequest {
+  requestId: number;
+  budgetParams: BudgetParams;
+  iterations: IterationData[];
+  options?: MonteCarloOptions;
+}
+
+export interface MonteCarloResponse {
+  requestId: number;
+  forecast?: MonteCarloForecast;
+  error?: string;
+}
+
+// Runs the simulation off the main thread so editing stays responsive
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { requestId, budgetParams, iterations, options } = event.data;
+
+  let response: MonteCarloResponse;
+  try {
+    response = { requestId, forecast: runMonteCarloForecast(budgetParams, iterations, options) };
+  } catch (error) {
+    response = { requestId, error: error instanceof Error ? error.message : 'Simulation failed' };
+  }
+
+  self.postMessage(response);
+};